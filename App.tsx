@@ -2,221 +2,660 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Hero } from './components/Hero';
 import { InputArea } from './components/InputArea';
-import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
-import { bringToLife, refineApp } from './services/gemini';
-import { ArrowUpTrayIcon, ExclamationCircleIcon, XMarkIcon } from '@heroicons/react/24/outline'; // Changed import source to match icon style
+import { LivePreview, VariantDraft } from './components/LivePreview';
+import { CreationHistory, Creation, Revision, SourceAttachment } from './components/CreationHistory';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StorageManager } from './components/StorageManager';
+import { VariantCompare } from './components/VariantCompare';
+import { UsageDashboard } from './components/UsageDashboard';
+import {
+  bringToLifeStream, refineApp, refineElement, generateProject, refineProject, convertToReact, isAbortError, getActiveProvider,
+  InvalidOutputError, ElementNotFoundError, ContextLimitError
+} from './services/gemini';
+import { ModelProvider, InlineFile, OutputFormat, ProjectFile } from './services/providers';
+import { assembleProject, ProjectParseError } from './services/project';
+import { buildViteProject } from './services/viteProject';
+import { createZip } from './services/zip';
+import { downloadBlob, exportFileName } from './services/export';
+import { prepareInlineFiles, describeAttachments } from './services/attachments';
+import { AppSettings, loadSettings, saveSettings, generationSettingsOf } from './services/settings';
+import { buildFixErrorsInstruction, buildElementInstruction } from './services/prompts';
+import { findElement } from './services/elementAnchors';
+import { DirectEdit, applyDirectEdit, applyDirectEditToFiles, describeDirectEdit } from './services/directEdit';
+import { buildPreviewCsp } from './services/previewCsp';
+import { TokenUsage, measureRefinement } from './services/tokens';
+import { RequestUsage, UsageRecord, UsageKind, meterProvider, addUsage, loadUsage, recordUsage, monthToDate } from './services/usage';
+import { createTurn, appendTurn, summarizeChange, buildRefineContext } from './services/thread';
+import { createRevision, appendRevision, checkoutRevision, getUndoTarget, getRedoTarget, normalizeCreation, forkCreation } from './services/revisions';
+import {
+  StorageUsage, loadCreations, saveCreation, deleteCreation,
+  migrateLegacyHistory, estimateStorage, isQuotaError
+} from './services/storage';
+import { ArrowUpTrayIcon, ExclamationCircleIcon, XMarkIcon, Cog6ToothIcon, ChartBarIcon } from '@heroicons/react/24/outline'; // Changed import source to match icon style
+
+// Quiet period before the usage meter recounts the next refinement
+const TOKEN_COUNT_DELAY = 1000;
+
+interface GenerationRequest {
+  prompt: string;
+  attachments: SourceAttachment[];
+  provider: ModelProvider;
+}
+
+interface GeneratedOutput {
+  html: string;
+  files?: ProjectFile[];
+  usage?: RequestUsage;
+}
+
+/**
+ * Runs one generation in the configured output format. Single files stream through `onPartial`;
+ * project JSON can't be rendered until it is complete, so projects are not streamed.
+ */
+const generateOutput = async (
+  format: OutputFormat, prompt: string, files: InlineFile[], style: string | undefined, customCss: string | undefined,
+  signal: AbortSignal, provider: ModelProvider, onPartial: (html: string) => void
+): Promise<GeneratedOutput> => {
+  if (format === 'project') {
+    const projectFiles = await generateProject(prompt, files, style, customCss, signal, provider);
+    return { html: assembleProject(projectFiles), files: projectFiles };
+  }
+
+  let html = '';
+  for await (const partial of bringToLifeStream(prompt, files, style, customCss, signal, provider)) {
+    if (signal.aborted) break;
+    html = partial;
+    onPartial(partial);
+  }
+  return { html };
+};
+
+const createFromOutput = ({ html, files, usage }: GeneratedOutput, request: GenerationRequest, overrides: Partial<Creation> = {}): Creation => {
+  const sourceNames = describeAttachments(request.attachments);
+  const revision = createRevision(html, {
+    files,
+    instruction: request.prompt || (request.attachments.length > 0
+      ? `Generated from ${request.attachments.map(a => a.name).join(', ')}`
+      : undefined),
+    provider: request.provider.id,
+    model: request.provider.model,
+    usage,
+  });
+  return {
+    id: crypto.randomUUID(),
+    name: sourceNames || request.prompt.slice(0, 20) || 'New Creation',
+    html,
+    files,
+    attachments: request.attachments.length > 0 ? request.attachments : undefined,
+    timestamp: revision.timestamp,
+    provider: request.provider.id,
+    model: request.provider.model,
+    generationSettings: generationSettingsOf(request.provider, files ? 'project' : 'html'),
+    revisions: [revision],
+    revisionId: revision.id,
+    ...overrides,
+  };
+};
 
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isRefining, setIsRefining] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [streamingHtml, setStreamingHtml] = useState<string>('');
+  // Refinement result awaiting the user's accept/reject decision; not yet part of history
+  const [pendingRevision, setPendingRevision] = useState<Revision | null>(null);
+  // What was asked for the proposal under review, and the request being refined right now
+  const [pendingRequests, setPendingRequests] = useState<string[]>([]);
+  const [activeRequest, setActiveRequest] = useState<string | null>(null);
+  const [compareVariants, setCompareVariants] = useState<Creation[] | null>(null);
+  // Multi-variant generation: live candidates and the request they came from
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
+  const [variantRequest, setVariantRequest] = useState<GenerationRequest | null>(null);
   const [history, setHistory] = useState<Creation[]>([]);
-  const [undoStack, setUndoStack] = useState<string[]>([]);
-  const [redoStack, setRedoStack] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null); // New error state
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageDialog, setStorageDialog] = useState<'closed' | 'manage' | 'full'>('closed');
+  // Size of the next refinement against the model's limits, for the usage meter
+  const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
+  // Ledger of model usage; the dashboard opens on its own when a generation would exceed the budget
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(() => loadUsage());
+  const [usageDialog, setUsageDialog] = useState<'closed' | 'dashboard' | 'budget'>('closed');
+  const pendingGenerationRef = useRef<(() => void) | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  // Controller for the in-flight generate/refine request; aborted on Stop, reset or a newer request
+  const requestControllerRef = useRef<AbortController | null>(null);
+  // Creations whose last write failed for lack of space, retried once the user frees storage
+  const unsavedRef = useRef<Map<string, Creation>>(new Map());
+  const previewCsp = useMemo(
+      () => settings.isolatedPreview ? buildPreviewCsp(settings.previewAllowlist) : undefined,
+      [settings.isolatedPreview, settings.previewAllowlist]
+  );
 
-  // Load history
+  // Load history (migrating the legacy localStorage archive on first run)
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
-      let loadedHistory: Creation[] = [];
-
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
-        } catch (e) {
-          console.error("Failed to load history", e);
-        }
+      try {
+        const migrated = await migrateLegacyHistory();
+        if (migrated > 0) console.info(`Migrated ${migrated} creations from localStorage to IndexedDB`);
+        const loadedHistory = await loadCreations();
+        if (loadedHistory.length > 0) setHistory(loadedHistory);
+      } catch (e) {
+        console.error("Failed to load history", e);
+        showError("Could not open your saved creations.");
       }
-      if (loadedHistory.length > 0) setHistory(loadedHistory);
+      refreshStorageUsage();
     };
     initHistory();
   }, []);
 
-  // Safe Persist with LRU Eviction
-  const persistHistory = (newHistory: Creation[]) => {
+  // Recounted shortly after the code, attachments or provider change; counting may be a network call
+  useEffect(() => {
+    if (!activeCreation) {
+      setTokenUsage(null);
+      return;
+    }
+    const source = pendingRevision ?? activeCreation;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const files = await prepareInlineFiles(activeCreation.attachments);
+        const usage = await measureRefinement(getActiveProvider(), {
+          currentHtml: source.html,
+          projectFiles: source.files,
+          files,
+          context: buildRefineContext(activeCreation),
+        }, controller.signal);
+        if (!controller.signal.aborted) setTokenUsage(usage);
+      } catch (e) {
+        if (!isAbortError(e)) console.error("Token count failed", e);
+      }
+    }, TOKEN_COUNT_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [activeCreation, pendingRevision, settings]);
+
+  const refreshStorageUsage = () => {
+      estimateStorage().then(setStorageUsage).catch(e => console.error("Storage estimate failed", e));
+  };
+
+  // Persist a single creation. On quota errors nothing is evicted automatically: the creation is
+  // kept in memory and the storage dialog asks the user what to delete.
+  const persistCreation = async (creation: Creation) => {
       try {
-          localStorage.setItem('gemini_app_history', JSON.stringify(newHistory));
-      } catch (e: any) {
-          if (e.name === 'QuotaExceededError' || e.code === 22) {
-              // LRU Eviction: Remove oldest items until it fits
-              if (newHistory.length > 1) {
-                  // Keep the first one (newest) and try to save fewer from the rest
-                  const smallerHistory = newHistory.slice(0, -1);
-                  persistHistory(smallerHistory);
-                  setHistory(smallerHistory); // Sync state with reality
-              } else {
-                  console.error("Item too large for localStorage even alone.");
-                  showError("Storage full. History not saved.");
-              }
+          await saveCreation(creation);
+          unsavedRef.current.delete(creation.id);
+      } catch (e) {
+          if (isQuotaError(e)) {
+              unsavedRef.current.set(creation.id, creation);
+              setStorageDialog('full');
+          } else {
+              console.error("Failed to save creation", e);
+              showError("Failed to save creation.");
           }
       }
+      refreshStorageUsage();
   };
 
-  useEffect(() => {
-      if (history.length > 0) persistHistory(history);
-  }, [history]);
+  const handleDeleteCreations = async (ids: string[]) => {
+      try {
+          for (const id of ids) {
+              await deleteCreation(id);
+              unsavedRef.current.delete(id);
+          }
+      } catch (e) {
+          console.error("Failed to delete creations", e);
+          showError("Failed to delete creations.");
+      }
+      setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+      setStorageDialog('manage');
 
-  // Reset Undo/Redo when switching creations
-  useEffect(() => {
-    setUndoStack([]);
-    setRedoStack([]);
-  }, [activeCreation?.id]);
-
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
-        } else {
-          reject(new Error('Failed to convert file to base64'));
-        }
-      };
-      reader.onerror = (error) => reject(error);
-    });
+      // Retry writes that previously failed for lack of space
+      for (const pending of [...unsavedRef.current.values()]) {
+          await persistCreation(pending);
+      }
+      refreshStorageUsage();
   };
 
   const getFriendlyErrorMessage = (error: any): string => {
       const msg = error?.message || error?.toString() || '';
+      if (error instanceof ContextLimitError) return `This creation is too large for the model (about ${error.tokens.toLocaleString()} of ${error.limit.toLocaleString()} tokens). Remove attachments or split it into smaller parts.`;
       if (msg.includes('429')) return "You're sending requests too quickly. Please wait a moment before trying again.";
       if (msg.includes('503') || msg.includes('500')) return "Google's AI service is currently unavailable. Please try again later.";
       if (msg.includes('400')) return "The AI couldn't process this specific input. Try a different image or prompt.";
       if (msg.includes('SAFETY')) return "The content was flagged by safety filters. Please try a different input.";
+      if (error instanceof ProjectParseError) return "The AI returned an incomplete project. Please try again.";
+      if (error instanceof ElementNotFoundError) return "The selected element is no longer in the code. Select it again and retry.";
+      if (error instanceof InvalidOutputError) return "The AI returned incomplete HTML, even after trying to complete it. Please try again.";
       return "An unexpected error occurred. Please try again.";
   };
 
+  const startRequest = (): AbortController => {
+      requestControllerRef.current?.abort();
+      const controller = new AbortController();
+      requestControllerRef.current = controller;
+      return controller;
+  };
+
+  const cancelRequest = () => {
+      requestControllerRef.current?.abort();
+      requestControllerRef.current = null;
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+      saveSettings(next);
+      setSettings(next);
+      setShowSettings(false);
+  };
+
+  const handleChangeBudget = (monthlyBudget: number) => {
+      const next = { ...settings, monthlyBudget };
+      saveSettings(next);
+      setSettings(next);
+  };
+
+  // Requests that made no model call (e.g. failed while preparing attachments) leave no record
+  const trackUsage = (usage: RequestUsage, kind: UsageKind, creationId?: string) => {
+      if (usage.calls > 0) setUsageRecords(prev => recordUsage(prev, usage, kind, creationId));
+  };
+
   const showError = (message: string) => {
       setError(message);
       // Auto-hide after 6 seconds
       setTimeout(() => setError(null), 6000);
   };
 
-  const handleGenerate = async (promptText: string, file?: File, style?: string, customCss?: string) => {
+  // The budget is soft: over it, the usage dashboard asks before the generation is sent
+  const handleGenerate = (promptText: string, attachments: SourceAttachment[] = [], style?: string, customCss?: string, variantStyles?: string[]) => {
+    const generate = () => variantStyles && variantStyles.length > 1
+      ? handleGenerateVariants(promptText, variantStyles, attachments, customCss)
+      : runGeneration(promptText, attachments, style, customCss);
+    if (settings.monthlyBudget > 0 && monthToDate(usageRecords).cost >= settings.monthlyBudget) {
+      pendingGenerationRef.current = generate;
+      setUsageDialog('budget');
+      return;
+    }
+    generate();
+  };
+
+  const handleProceedOverBudget = () => {
+    const generate = pendingGenerationRef.current;
+    pendingGenerationRef.current = null;
+    setUsageDialog('closed');
+    generate?.();
+  };
+
+  const runGeneration = async (promptText: string, attachments: SourceAttachment[], style?: string, customCss?: string) => {
+    const controller = startRequest();
+    const { signal } = controller;
+    const meter = meterProvider(getActiveProvider());
+    const { provider } = meter;
+    let creationId: string | undefined;
     setIsGenerating(true);
     setActiveCreation(null);
+    setStreamingHtml('');
     setError(null);
 
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
+      const inlineFiles = await prepareInlineFiles(attachments);
 
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
-      }
-
-      const html = await bringToLife(promptText, imageBase64, mimeType, style, customCss);
+      const output = await generateOutput(settings.outputFormat, promptText, inlineFiles, style, customCss, signal, provider, setStreamingHtml);
       
-      if (html) {
-        const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: file ? file.name : (promptText.slice(0, 20) || 'New Creation'),
-          html: html,
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
-          timestamp: new Date(),
-        };
+      // A cancelled request must never reach history
+      if (signal.aborted) return;
+
+      if (output.html) {
+        const newCreation = createFromOutput({ ...output, usage: meter.usage() }, { prompt: promptText, attachments, provider });
+        creationId = newCreation.id;
         setActiveCreation(newCreation);
         setHistory(prev => [newCreation, ...prev]);
+        persistCreation(newCreation);
       }
 
     } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
       console.error("Failed to generate:", error);
       showError(getFriendlyErrorMessage(error));
     } finally {
-      setIsGenerating(false);
+      trackUsage(meter.usage(), 'generate', creationId);
+      if (requestControllerRef.current === controller) {
+        requestControllerRef.current = null;
+        setIsGenerating(false);
+        setStreamingHtml('');
+      }
     }
   };
 
-  const updateActiveCreationHtml = (newHtml: string) => {
-      if (!activeCreation) return;
+  // Streams one candidate per style concurrently; nothing reaches history until one is promoted
+  const handleGenerateVariants = async (promptText: string, styles: string[], attachments: SourceAttachment[], customCss?: string) => {
+    const controller = startRequest();
+    const { signal } = controller;
+    const provider = getActiveProvider();
+    const drafts: VariantDraft[] = styles.map(style => ({ id: crypto.randomUUID(), style, html: '', status: 'streaming' }));
+    setIsGenerating(true);
+    setActiveCreation(null);
+    setVariantDrafts(drafts);
+    setError(null);
+
+    const updateDraft = (id: string, patch: Partial<VariantDraft>) => {
+      setVariantDrafts(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+    };
+
+    try {
+      const inlineFiles = await prepareInlineFiles(attachments);
+      setVariantRequest({ prompt: promptText, attachments, provider });
+
+      // Each candidate is metered on its own, so a promoted variant carries only its own usage
+      await Promise.all(drafts.map(async draft => {
+        const meter = meterProvider(provider);
+        try {
+          const output = await generateOutput(
+            settings.outputFormat, promptText, inlineFiles, draft.style, customCss, signal, meter.provider,
+            html => updateDraft(draft.id, { html })
+          );
+          if (!signal.aborted) updateDraft(draft.id, { ...output, usage: meter.usage(), status: 'done' });
+        } catch (error) {
+          if (signal.aborted || isAbortError(error)) return;
+          console.error(`Variant "${draft.style}" failed:`, error);
+          updateDraft(draft.id, { status: 'error', error: getFriendlyErrorMessage(error) });
+        } finally {
+          trackUsage(meter.usage(), 'generate');
+        }
+      }));
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+      console.error("Failed to generate variants:", error);
+      setVariantDrafts([]);
+      showError(getFriendlyErrorMessage(error));
+    } finally {
+      if (requestControllerRef.current === controller) {
+        requestControllerRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  // The chosen candidate becomes the active creation; the other finished candidates are kept as its variants
+  const handlePromoteVariant = (variantId: string) => {
+    const chosen = variantDrafts.find(d => d.id === variantId && d.status === 'done');
+    if (!chosen || !variantRequest) return;
 
-      const updatedCreation = { ...activeCreation, html: newHtml };
+    const withStyle = (draft: VariantDraft, overrides: Partial<Creation> = {}) => {
+      const creation = createFromOutput(draft, variantRequest, overrides);
+      return draft.style === 'Default' ? creation : { ...creation, name: `${creation.name} · ${draft.style}` };
+    };
+
+    const promoted = withStyle(chosen);
+    const branches = variantDrafts
+      .filter(d => d.status === 'done' && d.id !== chosen.id)
+      .map(d => withStyle(d, { parentId: promoted.id }));
+
+    setHistory(prev => [promoted, ...branches, ...prev]);
+    [promoted, ...branches].forEach(persistCreation);
+    setVariantDrafts([]);
+    setVariantRequest(null);
+    setActiveCreation(promoted);
+  };
+
+  const commitCreation = (updatedCreation: Creation) => {
       setActiveCreation(updatedCreation);
       
       // Update persistent history
       setHistory(prev => prev.map(item => item.id === updatedCreation.id ? updatedCreation : item));
+      persistCreation(updatedCreation);
+  };
+
+  // e.g. a changed PDF page selection; affects the next refinement
+  const handleUpdateAttachment = (index: number, attachment: SourceAttachment) => {
+      if (!activeCreation?.attachments) return;
+      commitCreation({
+          ...activeCreation,
+          attachments: activeCreation.attachments.map((a, i) => i === index ? attachment : a),
+      });
+  };
+
+  // Pinned constraints are sent with every refinement of the creation
+  const handleUpdateConstraints = (constraints: string[]) => {
+      if (!activeCreation) return;
+      commitCreation({ ...activeCreation, constraints });
+  };
+
+  const handleRefine = (instruction: string) => runRefinement(instruction, instruction);
+
+  // Fixes build on a proposal under review, so repeated attempts converge before anything is saved
+  const handleFixErrors = (errors: string[]) => {
+      runRefinement(buildFixErrorsInstruction(errors), `Fix ${errors.length} runtime error${errors.length === 1 ? '' : 's'}`, pendingRevision ?? undefined);
+  };
+
+  // Element ids are stamped on what the preview shows, so edits build on a proposal under review too
+  const handleEditElement = (elementId: string, instruction: string) => {
+      runRefinement(instruction, instruction, pendingRevision ?? undefined, elementId);
   };
 
-  const handleRefine = async (instruction: string) => {
-    if (!activeCreation) return;
+  // Local edits are saved as a revision right away (undo reverts them); on a proposal they fold into it.
+  // Edits passed together (e.g. an inspector commit) make one revision.
+  const handleDirectEdit = (...edits: DirectEdit[]) => {
+      if (!activeCreation) return;
+      // The running refinement started from the current code and would overwrite the edit
+      if (isRefining) {
+          showError("Wait for the current refinement to finish before editing.");
+          return;
+      }
+      const source = pendingRevision ?? activeCreation;
+      let html: string;
+      let files: ProjectFile[] | undefined;
+      let label: string;
+      try {
+          label = edits.map(edit => describeDirectEdit(source.html, edit)).join('; ');
+          files = source.files && edits.reduce(applyDirectEditToFiles, source.files);
+          html = files ? assembleProject(files) : edits.reduce(applyDirectEdit, source.html);
+      } catch (error) {
+          console.error("Direct edit failed:", error);
+          showError(error instanceof ElementNotFoundError ? getFriendlyErrorMessage(error) : "That change couldn't be applied to the code.");
+          return;
+      }
+      saveLocalChange(html, files, label);
+  };
+
+  const handleSaveCode = (content: string, path?: string) => {
+      if (!activeCreation) return;
+      if (isRefining) {
+          showError("Wait for the current refinement to finish before saving.");
+          return;
+      }
+      const source = pendingRevision ?? activeCreation;
+      const files = source.files?.map(file => file.path === path ? { ...file, content } : file);
+      saveLocalChange(files ? assembleProject(files) : content, files, path ? `Edit ${path}` : 'Edit code');
+  };
+
+  // Local changes extend the refinement under review, or become a revision of their own
+  const saveLocalChange = (html: string, files: ProjectFile[] | undefined, label: string) => {
+      if (!activeCreation) return;
+      if (pendingRevision) {
+          setPendingRevision({ ...pendingRevision, html, files });
+          return;
+      }
+      commitCreation(appendRevision(activeCreation, createRevision(html, {
+          files,
+          instruction: label,
+          parentId: activeCreation.revisionId,
+      })));
+  };
+
+  // `message` is the request as shown in the thread; a proposal keeps the label of its first request
+  const runRefinement = async (instruction: string, message: string, base?: Revision, elementId?: string) => {
+    if (!activeCreation || (pendingRevision && !base)) return;
+    const source = base ?? activeCreation;
+    const label = base?.instruction ?? message;
+    const context = buildRefineContext(activeCreation);
     
+    const controller = startRequest();
+    const { signal } = controller;
+    const meter = meterProvider(getActiveProvider());
+    const { provider } = meter;
     setIsRefining(true);
+    setActiveRequest(message);
     setError(null);
     try {
-        let base64Image: string | undefined;
-        let mimeType: string | undefined;
-
-        if (activeCreation.originalImage) {
-            const matches = activeCreation.originalImage.match(/^data:(.+);base64,(.+)$/);
-            if (matches) {
-                mimeType = matches[1];
-                base64Image = matches[2];
-            }
+        const inlineFiles = await prepareInlineFiles(activeCreation.attachments);
+        // Projects are refined as projects, whatever the current output setting
+        let output: GeneratedOutput;
+        if (source.files) {
+            // The assembled document can't be mapped back to the files, so the element is described instead
+            const anchor = elementId ? findElement(source.html, elementId) : undefined;
+            if (elementId && !anchor) throw new ElementNotFoundError(elementId);
+            const files = await refineProject(source.files, anchor ? buildElementInstruction(instruction, anchor) : instruction, inlineFiles, context, signal, provider);
+            output = { html: assembleProject(files), files };
+        } else if (elementId) {
+            output = { html: await refineElement(source.html, elementId, instruction, inlineFiles, context, signal, provider) };
+        } else {
+            output = { html: await refineApp(source.html, instruction, inlineFiles, context, signal, provider) };
         }
-
-        const newHtml = await refineApp(activeCreation.html, instruction, base64Image, mimeType);
+        if (signal.aborted) return;
         
-        if (newHtml) {
-            // Push current state to undo stack before updating
-            setUndoStack(prev => [...prev, activeCreation.html]);
-            setRedoStack([]); // Clear redo stack on new change
-
-            updateActiveCreationHtml(newHtml);
+        if (output.html) {
+            const usage = meter.usage();
+            const revision = createRevision(output.html, {
+                files: output.files,
+                instruction: label,
+                provider: provider.id,
+                model: provider.model,
+                parentId: activeCreation.revisionId,
+                usage: base?.usage ? addUsage(base.usage, usage) : usage,
+            });
+            setPendingRevision(revision);
+            setPendingRequests(prev => base ? [...prev, message] : [message]);
         }
     } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
         console.error("Refinement failed:", error);
         showError(getFriendlyErrorMessage(error));
     } finally {
-        setIsRefining(false);
+        trackUsage(meter.usage(), 'refine', activeCreation.id);
+        if (requestControllerRef.current === controller) {
+            requestControllerRef.current = null;
+            setIsRefining(false);
+            setActiveRequest(null);
+        }
     }
   };
 
-  const handleUndo = () => {
-      if (undoStack.length === 0 || !activeCreation) return;
+  // Both decisions are recorded in the thread, so later refinements know what was kept
+  const handleAcceptRefinement = () => {
+      if (!activeCreation || !pendingRevision) return;
+      const turn = createTurn(pendingRequests, 'applied', {
+          summary: summarizeChange(activeCreation, pendingRevision),
+          revisionId: pendingRevision.id,
+      });
+      commitCreation(appendTurn(appendRevision(activeCreation, pendingRevision), turn));
+      setPendingRevision(null);
+      setPendingRequests([]);
+  };
+
+  const handleRejectRefinement = () => {
+      if (activeCreation && pendingRevision) {
+          const turn = createTurn(pendingRequests, 'rejected', { summary: summarizeChange(activeCreation, pendingRevision) });
+          commitCreation(appendTurn(activeCreation, turn));
+      }
+      setPendingRevision(null);
+      setPendingRequests([]);
+  };
 
-      const previousHtml = undoStack[undoStack.length - 1];
-      const newUndoStack = undoStack.slice(0, -1);
+  const handleSelectRevision = (revisionId: string) => {
+      if (!activeCreation || revisionId === activeCreation.revisionId) return;
+      commitCreation(checkoutRevision(activeCreation, revisionId));
+  };
 
-      // Save current to redo
-      setRedoStack(prev => [...prev, activeCreation.html]);
-      setUndoStack(newUndoStack);
-      
-      updateActiveCreationHtml(previousHtml);
+  const handleFork = (revisionId?: string) => {
+      if (!activeCreation) return;
+      const fork = forkCreation(activeCreation, revisionId);
+      setPendingRevision(null);
+      setActiveCreation(fork);
+      setHistory(prev => [fork, ...prev]);
+      persistCreation(fork);
+  };
+
+  const handleCompareSiblings = () => {
+      if (!activeCreation?.parentId) return;
+      const siblings = history.filter(c => c.parentId === activeCreation.parentId);
+      const parent = history.find(c => c.id === activeCreation.parentId);
+      // Siblings first; the parent stands in when this is the only variant so far
+      const variants = siblings.length > 1 ? siblings.slice(0, 3) : [parent, activeCreation].filter(Boolean) as Creation[];
+      if (variants.length > 1) setCompareVariants(variants);
+  };
+
+  const handleUndo = () => {
+      const target = activeCreation && getUndoTarget(activeCreation);
+      if (target) handleSelectRevision(target.id);
   };
 
   const handleRedo = () => {
-      if (redoStack.length === 0 || !activeCreation) return;
+      const target = activeCreation && getRedoTarget(activeCreation);
+      if (target) handleSelectRevision(target.id);
+  };
 
-      const nextHtml = redoStack[redoStack.length - 1];
-      const newRedoStack = redoStack.slice(0, -1);
+  // Converts the current revision to React through the model and downloads a runnable Vite project
+  const handleExportProject = async () => {
+    if (!activeCreation || isExporting) return;
 
-      // Save current to undo
-      setUndoStack(prev => [...prev, activeCreation.html]);
-      setRedoStack(newRedoStack);
+    const controller = startRequest();
+    const { signal } = controller;
+    const creation = activeCreation;
+    const meter = meterProvider(getActiveProvider());
+    setIsExporting(true);
+    setError(null);
+    try {
+        const sources = await convertToReact(creation.html, creation.files, signal, meter.provider);
+        if (signal.aborted) return;
+        const project = buildViteProject(creation.name, sources);
+        downloadBlob(createZip(project), exportFileName(creation, '_vite.zip'));
+    } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
+        console.error("Project export failed:", error);
+        showError(getFriendlyErrorMessage(error));
+    } finally {
+        trackUsage(meter.usage(), 'convert', creation.id);
+        if (requestControllerRef.current === controller) {
+            requestControllerRef.current = null;
+            setIsExporting(false);
+        }
+    }
+  };
 
-      updateActiveCreationHtml(nextHtml);
+  const handleCancel = () => {
+    cancelRequest();
+    setVariantDrafts([]);
+    setVariantRequest(null);
+    setIsGenerating(false);
+    setIsRefining(false);
+    setActiveRequest(null);
+    setIsExporting(false);
+    setStreamingHtml('');
   };
 
   const handleReset = () => {
+    cancelRequest();
+    setVariantDrafts([]);
+    setVariantRequest(null);
     setActiveCreation(null);
+    setPendingRevision(null);
     setIsGenerating(false);
+    setStreamingHtml('');
     setIsRefining(false);
+    setActiveRequest(null);
+    setIsExporting(false);
     setError(null);
   };
 
   const handleSelectCreation = (creation: Creation) => {
+    setPendingRevision(null);
     setActiveCreation(creation);
   };
 
@@ -235,16 +674,16 @@ const App: React.FC = () => {
             const parsed = JSON.parse(json);
             
             if (parsed.html && parsed.name) {
-                const importedCreation: Creation = {
+                const importedCreation = normalizeCreation({
                     ...parsed,
-                    timestamp: new Date(parsed.timestamp || Date.now()),
                     id: parsed.id || crypto.randomUUID()
-                };
-                
-                setHistory(prev => {
-                    const exists = prev.some(c => c.id === importedCreation.id);
-                    return exists ? prev : [importedCreation, ...prev];
                 });
+                
+                if (!history.some(c => c.id === importedCreation.id)) {
+                    setHistory(prev => [importedCreation, ...prev]);
+                    persistCreation(importedCreation);
+                }
+                setPendingRevision(null);
                 setActiveCreation(importedCreation);
             } else {
                 showError("Invalid creation file format.");
@@ -258,7 +697,7 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
-  const isFocused = !!activeCreation || isGenerating;
+  const isFocused = !!activeCreation || isGenerating || variantDrafts.length > 0;
 
   return (
     <div className="h-[100dvh] bg-zinc-950 bg-dot-grid text-zinc-50 selection:bg-blue-500/30 overflow-y-auto overflow-x-hidden relative flex flex-col">
@@ -301,7 +740,13 @@ const App: React.FC = () => {
         
         <div className="flex-shrink-0 pb-6 w-full mt-auto flex flex-col items-center gap-6">
             <div className="w-full px-2 md:px-0">
-                <CreationHistory history={history} onSelect={handleSelectCreation} />
+                <CreationHistory 
+                    history={history} 
+                    onSelect={handleSelectCreation} 
+                    storageUsage={storageUsage}
+                    onManageStorage={() => setStorageDialog('manage')}
+                    onCompare={(a, b) => setCompareVariants([a, b])}
+                />
             </div>
             <a 
               href="https://x.com/ammaar" 
@@ -317,17 +762,99 @@ const App: React.FC = () => {
       <LivePreview
         creation={activeCreation}
         isLoading={isGenerating}
+        streamingHtml={streamingHtml}
+        variants={variantDrafts}
+        onPromoteVariant={handlePromoteVariant}
         isRefining={isRefining}
+        isExporting={isExporting}
+        onExportProject={handleExportProject}
         isFocused={isFocused}
         error={error}
         onReset={handleReset}
+        onCancel={handleCancel}
         onRefine={handleRefine}
+        onEditElement={handleEditElement}
+        onDirectEdit={handleDirectEdit}
+        onSaveCode={handleSaveCode}
+        onFixErrors={handleFixErrors}
+        previewCsp={previewCsp}
+        scanAllowlist={settings.previewAllowlist}
+        holdRiskyPreviews={settings.holdRiskyPreviews}
         onUndo={handleUndo}
         onRedo={handleRedo}
-        canUndo={undoStack.length > 0}
-        canRedo={redoStack.length > 0}
+        onSelectRevision={handleSelectRevision}
+        onFork={handleFork}
+        onCompareSiblings={activeCreation?.parentId ? handleCompareSiblings : undefined}
+        onUpdateAttachment={handleUpdateAttachment}
+        pendingHtml={pendingRevision?.html}
+        pendingFiles={pendingRevision?.files}
+        pendingRequests={pendingRevision ? pendingRequests : []}
+        activeRequest={activeRequest}
+        onUpdateConstraints={handleUpdateConstraints}
+        tokenUsage={tokenUsage}
+        onAcceptRefinement={handleAcceptRefinement}
+        onRejectRefinement={handleRejectRefinement}
+        canUndo={!pendingRevision && !!activeCreation && !!getUndoTarget(activeCreation)}
+        canRedo={!pendingRevision && !!activeCreation && !!getRedoTarget(activeCreation)}
       />
 
+      {compareVariants && (
+        <VariantCompare
+            variants={compareVariants}
+            previewCsp={previewCsp}
+            scanAllowlist={settings.previewAllowlist}
+            holdRiskyPreviews={settings.holdRiskyPreviews}
+            onOpen={(creation) => { setCompareVariants(null); handleSelectCreation(creation); }}
+            onClose={() => setCompareVariants(null)}
+        />
+      )}
+
+      {storageDialog !== 'closed' && (
+        <StorageManager
+            history={history}
+            usage={storageUsage}
+            isFull={storageDialog === 'full'}
+            onDelete={handleDeleteCreations}
+            onClose={() => setStorageDialog('closed')}
+        />
+      )}
+
+      {usageDialog !== 'closed' && (
+        <UsageDashboard
+            records={usageRecords}
+            budget={settings.monthlyBudget}
+            onChangeBudget={handleChangeBudget}
+            onProceed={usageDialog === 'budget' ? handleProceedOverBudget : undefined}
+            onClose={() => { pendingGenerationRef.current = null; setUsageDialog('closed'); }}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+            settings={settings}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      <div className="fixed bottom-4 left-4 z-50 flex items-center">
+        <button 
+            onClick={() => setShowSettings(true)}
+            className="flex items-center space-x-2 p-2 text-zinc-500 hover:text-zinc-300 transition-colors opacity-60 hover:opacity-100"
+            title="Settings"
+        >
+            <Cog6ToothIcon className="w-5 h-5" />
+            <span className="text-xs font-medium uppercase tracking-wider hidden sm:inline">{settings.provider}</span>
+        </button>
+        <button 
+            onClick={() => setUsageDialog('dashboard')}
+            className="flex items-center space-x-2 p-2 text-zinc-500 hover:text-zinc-300 transition-colors opacity-60 hover:opacity-100"
+            title="Usage"
+        >
+            <ChartBarIcon className="w-5 h-5" />
+        </button>
+      </div>
+
       <div className="fixed bottom-4 right-4 z-50">
         <button 
             onClick={handleImportClick}
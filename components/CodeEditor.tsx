@@ -0,0 +1,369 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+    MagnifyingGlassIcon, ChevronDownIcon, ChevronRightIcon, ChevronUpIcon, XMarkIcon, CheckIcon,
+    ArrowUturnLeftIcon, Bars3BottomLeftIcon, ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+import {
+    CodeLanguage, CodeMarker, TokenType, tokenize, tokenLines, foldRanges, lintCode, formatCode, findMatches
+} from '../services/codeSyntax';
+
+interface CodeEditorProps {
+  value: string; // Saved content
+  draft: string; // Content being edited; equal to `value` when there are no unsaved changes
+  language: CodeLanguage;
+  onDraftChange: (draft: string) => void;
+  onSave?: (content: string) => void; // Read-only without it
+  runtimeMarkers?: CodeMarker[]; // Errors the preview reported for `value`
+}
+
+// Must match the h-5/leading-5 classes of the layers below
+const LINE_HEIGHT = 20;
+const INDENT = '  ';
+
+const TOKEN_STYLES: Record<TokenType, string> = {
+  tag: 'text-sky-400',
+  attribute: 'text-violet-300',
+  string: 'text-emerald-300',
+  comment: 'text-zinc-600 italic',
+  keyword: 'text-pink-400',
+  number: 'text-amber-300',
+  property: 'text-cyan-300',
+  punctuation: 'text-zinc-500',
+  text: 'text-zinc-300',
+};
+
+const offsetOfLine = (lines: string[], index: number) => lines.slice(0, index).reduce((sum, text) => sum + text.length + 1, 0);
+
+/**
+ * Source editor: a transparent textarea over a highlighted copy of the code, so native editing, selection
+ * and undo keep working. Folded lines are left out of both layers; since edits to the textarea can then no
+ * longer be mapped back to the source, the first keystroke in a folded document unfolds it instead.
+ */
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, draft, language, onDraftChange, onSave, runtimeMarkers = [] }) => {
+  const [folded, setFolded] = useState<number[]>([]); // Start lines of collapsed ranges
+  const [search, setSearch] = useState<{ query: string; caseSensitive: boolean } | null>(null);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [markerIndex, setMarkerIndex] = useState(-1);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  // Applied after the next render, once the lines they refer to are laid out
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const pendingScrollLine = useRef<number | null>(null);
+
+  const isDirty = draft !== value;
+  const readOnly = !onSave;
+
+  const sourceLines = useMemo(() => draft.split('\n'), [draft]);
+  const highlighted = useMemo(() => tokenLines(tokenize(draft, language)), [draft, language]);
+  const ranges = useMemo(() => foldRanges(draft, language), [draft, language]);
+  const markers = useMemo(
+    () => [...lintCode(draft, language), ...(isDirty ? [] : runtimeMarkers)].sort((a, b) => a.line - b.line),
+    [draft, language, isDirty, runtimeMarkers]
+  );
+  const markersByLine = useMemo(() => {
+    const byLine = new Map<number, CodeMarker[]>();
+    markers.forEach(marker => byLine.set(marker.line, [...(byLine.get(marker.line) ?? []), marker]));
+    return byLine;
+  }, [markers]);
+  const errorCount = markers.filter(marker => marker.severity === 'error').length;
+
+  const foldStarts = useMemo(() => new Map(ranges.map(range => [range.start, range])), [ranges]);
+  const hidden = useMemo(() => {
+    const lines = new Set<number>();
+    ranges.filter(range => folded.includes(range.start)).forEach(range => {
+      for (let line = range.start + 1; line < range.end; line++) lines.add(line);
+    });
+    return lines;
+  }, [ranges, folded]);
+  const visible = useMemo(() => sourceLines.map((_, i) => i + 1).filter(line => !hidden.has(line)), [sourceLines, hidden]);
+  const visibleText = hidden.size > 0 ? visible.map(line => sourceLines[line - 1]).join('\n') : draft;
+
+  const matches = useMemo(() => search ? findMatches(draft, search.query, search.caseSensitive) : [], [draft, search]);
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : undefined;
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, typeof matches>();
+    matches.forEach(match => byLine.set(match.line, [...(byLine.get(match.line) ?? []), match]));
+    return byLine;
+  }, [matches]);
+
+  // A new revision (save, undo, refinement) replaces the text the folds were computed for
+  useEffect(() => {
+    setFolded([]);
+    setMarkerIndex(-1);
+  }, [value]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (pendingSelection.current && textarea) {
+      textarea.setSelectionRange(...pendingSelection.current);
+      pendingSelection.current = null;
+    }
+    const scroller = scrollRef.current;
+    if (pendingScrollLine.current !== null && scroller) {
+      const index = visible.indexOf(pendingScrollLine.current);
+      if (index >= 0) scroller.scrollTop = index * LINE_HEIGHT - scroller.clientHeight / 3;
+      pendingScrollLine.current = null;
+    }
+  });
+
+  // Offsets in the textarea skip folded lines; these map them to and from the source
+  const toSourceOffset = (offset: number) => {
+    const before = visibleText.slice(0, offset).split('\n');
+    return offsetOfLine(sourceLines, visible[before.length - 1] - 1) + before[before.length - 1].length;
+  };
+  const toVisibleOffset = (line: number, column: number) => offsetOfLine(visible.map(l => sourceLines[l - 1]), visible.indexOf(line)) + column;
+
+  const unfoldAll = () => {
+    const textarea = textareaRef.current;
+    if (textarea) pendingSelection.current = [toSourceOffset(textarea.selectionStart), toSourceOffset(textarea.selectionEnd)];
+    setFolded([]);
+  };
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || hidden.size === 0) return;
+    const unfoldInstead = (event: Event) => {
+      event.preventDefault();
+      unfoldAll();
+    };
+    textarea.addEventListener('beforeinput', unfoldInstead);
+    return () => textarea.removeEventListener('beforeinput', unfoldInstead);
+  }, [hidden, visibleText]);
+
+  const revealLine = (line: number) => {
+    if (hidden.has(line)) setFolded([]);
+    pendingScrollLine.current = line;
+  };
+
+  const save = () => {
+    if (onSave && isDirty) onSave(draft);
+  };
+
+  const format = () => {
+    setFolded([]);
+    onDraftChange(formatCode(draft, language));
+  };
+
+  const openSearch = () => {
+    const selected = textareaRef.current ? visibleText.slice(textareaRef.current.selectionStart, textareaRef.current.selectionEnd) : '';
+    setSearch(prev => ({ query: selected && !selected.includes('\n') ? selected : prev?.query ?? '', caseSensitive: prev?.caseSensitive ?? false }));
+    setMatchIndex(0);
+    setTimeout(() => searchRef.current?.select());
+  };
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setMatchIndex(next);
+    revealLine(matches[next].line);
+  };
+
+  const closeSearch = () => {
+    if (currentMatch && !hidden.has(currentMatch.line)) {
+      pendingSelection.current = [toVisibleOffset(currentMatch.line, currentMatch.from), toVisibleOffset(currentMatch.line, currentMatch.to)];
+    }
+    setSearch(null);
+    textareaRef.current?.focus();
+  };
+
+  const nextMarker = () => {
+    if (markers.length === 0) return;
+    const next = (markerIndex + 1) % markers.length;
+    setMarkerIndex(next);
+    revealLine(markers[next].line);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const modifier = e.metaKey || e.ctrlKey;
+    if (modifier && e.key === 's') {
+      e.preventDefault();
+      save();
+    } else if (modifier && e.key === 'f') {
+      e.preventDefault();
+      openSearch();
+    } else if (readOnly || modifier || e.altKey) {
+      return;
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      // insertText keeps the browser's undo history, unlike assigning the value
+      e.preventDefault();
+      document.execCommand('insertText', false, INDENT);
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      const { value: text, selectionStart } = e.currentTarget;
+      const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+      e.preventDefault();
+      document.execCommand('insertText', false, '\n' + text.slice(lineStart).match(/^[ \t]*/)![0]);
+    }
+  };
+
+  const toggleFold = (line: number) => setFolded(prev => prev.includes(line) ? prev.filter(start => start !== line) : [...prev, line]);
+
+  const lineTint = (line: number) => {
+    const lineMarkers = markersByLine.get(line);
+    if (!lineMarkers) return '';
+    return lineMarkers.some(marker => marker.severity === 'error') ? 'bg-red-500/10' : 'bg-amber-500/10';
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-zinc-950 font-mono text-[13px]">
+      <div className="shrink-0 px-3 py-1.5 border-b border-zinc-800 flex items-center gap-2 text-[10px] text-zinc-500">
+        <span className="uppercase tracking-wider">{language}</span>
+        <span>{sourceLines.length} lines</span>
+        {markers.length > 0 && (
+          <button
+            onClick={nextMarker}
+            title="Go to next problem"
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-zinc-800 ${errorCount > 0 ? 'text-red-400' : 'text-amber-400'}`}
+          >
+            <ExclamationTriangleIcon className="w-3 h-3" />
+            {errorCount > 0 ? `${errorCount} error${errorCount === 1 ? '' : 's'}` : `${markers.length} warning${markers.length === 1 ? '' : 's'}`}
+          </button>
+        )}
+        <div className="flex-1"></div>
+        {isDirty && <span className="text-amber-400">Unsaved</span>}
+        <button onClick={openSearch} title="Search (Ctrl+F)" className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-200">
+          <MagnifyingGlassIcon className="w-3.5 h-3.5" />
+        </button>
+        {!readOnly && (
+          <>
+            <button onClick={format} title="Format (re-indent)" className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-200">
+              <Bars3BottomLeftIcon className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onDraftChange(value)}
+              disabled={!isDirty}
+              title="Discard changes"
+              className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={save}
+              disabled={!isDirty}
+              title="Save as a new revision (Ctrl+S)"
+              className="flex items-center gap-1 px-2 py-1 rounded font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 transition-colors"
+            >
+              <CheckIcon className="w-3 h-3" /> Save
+            </button>
+          </>
+        )}
+      </div>
+
+      {search && (
+        <div className="shrink-0 px-3 py-1.5 border-b border-zinc-800 bg-[#0c0c0e] flex items-center gap-2 text-[11px]">
+          <MagnifyingGlassIcon className="w-3.5 h-3.5 text-zinc-500" />
+          <input
+            ref={searchRef}
+            type="text"
+            value={search.query}
+            onChange={(e) => { setSearch({ ...search, query: e.target.value }); setMatchIndex(0); }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') goToMatch(matchIndex + (e.shiftKey ? -1 : 1));
+              if (e.key === 'Escape') closeSearch();
+            }}
+            placeholder="Find"
+            className="w-56 bg-zinc-950 border border-zinc-700 rounded px-2 py-0.5 text-zinc-200 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={() => setSearch({ ...search, caseSensitive: !search.caseSensitive })}
+            title="Match case"
+            className={`px-1.5 py-0.5 rounded ${search.caseSensitive ? 'bg-blue-500/20 text-blue-300' : 'text-zinc-500 hover:text-zinc-300'}`}
+          >
+            Aa
+          </button>
+          <span className="text-zinc-500 min-w-16">
+            {search.query ? (matches.length > 0 ? `${Math.min(matchIndex, matches.length - 1) + 1} of ${matches.length}` : 'No results') : ''}
+          </span>
+          <button onClick={() => goToMatch(matchIndex - 1)} disabled={matches.length === 0} className="p-0.5 text-zinc-400 hover:text-zinc-100 disabled:opacity-30">
+            <ChevronUpIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => goToMatch(matchIndex + 1)} disabled={matches.length === 0} className="p-0.5 text-zinc-400 hover:text-zinc-100 disabled:opacity-30">
+            <ChevronDownIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={closeSearch} className="ml-auto p-0.5 text-zinc-500 hover:text-zinc-300">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 min-h-0 overflow-auto custom-scrollbar leading-5">
+        <div className="flex min-w-full w-max py-2">
+          <div className="sticky left-0 z-10 shrink-0 bg-zinc-950 border-r border-zinc-800/60 text-zinc-600 select-none">
+            {visible.map(line => {
+              const range = foldStarts.get(line);
+              const lineMarkers = markersByLine.get(line);
+              return (
+                <div key={line} className="h-5 flex items-center gap-1 pl-2 pr-1">
+                  <span
+                    title={lineMarkers?.map(marker => marker.message).join('\n')}
+                    className={`w-1.5 h-1.5 rounded-full ${!lineMarkers ? '' : lineMarkers.some(marker => marker.severity === 'error') ? 'bg-red-500' : 'bg-amber-500'}`}
+                  ></span>
+                  <span className="w-8 text-right text-[11px]">{line}</span>
+                  <span className="w-3.5">
+                    {range && (
+                      <button onClick={() => toggleFold(line)} title={folded.includes(line) ? 'Unfold' : 'Fold'} className="hover:text-zinc-300">
+                        {folded.includes(line) ? <ChevronRightIcon className="w-3 h-3" /> : <ChevronDownIcon className="w-3 h-3" />}
+                      </button>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="relative grow">
+            <div aria-hidden className="absolute inset-0 whitespace-pre text-transparent pointer-events-none">
+              {visible.map(line => {
+                const text = sourceLines[line - 1];
+                let column = 0;
+                return (
+                  <div key={line} className={`h-5 pl-3 ${lineTint(line)}`}>
+                    {(matchesByLine.get(line) ?? []).map(match => {
+                      const before = text.slice(column, match.from);
+                      column = match.to;
+                      return (
+                        <React.Fragment key={match.from}>
+                          {before}
+                          <mark className={`text-transparent rounded-sm ${match === currentMatch ? 'bg-amber-400/60' : 'bg-amber-400/20'}`}>{text.slice(match.from, match.to)}</mark>
+                        </React.Fragment>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+            <div aria-hidden className="relative whitespace-pre pointer-events-none">
+              {visible.map(line => {
+                const range = foldStarts.get(line);
+                return (
+                  <div key={line} className="h-5 pl-3 pr-12">
+                    {highlighted[line - 1].map((token, i) => <span key={i} className={TOKEN_STYLES[token.type]}>{token.text}</span>)}
+                    {range && folded.includes(line) && (
+                      <span className="ml-2 px-1 rounded bg-zinc-800 text-zinc-500 text-[11px]">⋯ {range.end - range.start - 1} lines</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <textarea
+              ref={textareaRef}
+              value={visibleText}
+              onChange={(e) => hidden.size === 0 && onDraftChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              readOnly={readOnly}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              wrap="off"
+              className="absolute inset-0 w-full h-full pl-3 pr-0 py-0 m-0 border-0 font-mono text-[13px] resize-none overflow-hidden whitespace-pre leading-5 bg-transparent text-transparent caret-zinc-200 outline-none selection:bg-blue-500/30"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
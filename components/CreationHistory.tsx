@@ -2,37 +2,185 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import React, { useState } from 'react';
+import {
+  ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon, CircleStackIcon,
+  Squares2X2Icon, ShareIcon, ArrowsRightLeftIcon
+} from '@heroicons/react/24/outline';
+import { ProviderId, ProjectFile } from '../services/providers';
+import { StorageUsage, formatBytes } from '../services/storage';
+import { RequestUsage } from '../services/usage';
+import { GenerationSettings } from '../services/settings';
+
+export interface Revision {
+  id: string;
+  html: string; // For projects, the assembled document
+  files?: ProjectFile[]; // Source files of a multi-file project
+  instruction?: string; // Prompt or refinement that produced this revision
+  timestamp: Date;
+  provider?: ProviderId;
+  model?: string;
+  parentId?: string; // Revision this one was derived from
+  usage?: RequestUsage; // Model usage that produced it; absent for local edits
+}
+
+/** One exchange of the refinement thread, recorded when its proposal is accepted or rejected */
+export interface RefinementTurn {
+  id: string;
+  requests: string[]; // What was asked; fixes and element edits made during review extend the same proposal
+  outcome: 'applied' | 'rejected';
+  summary?: string; // What changed, e.g. "+12 −3 lines"
+  revisionId?: string; // Revision an applied proposal was saved as
+  timestamp: Date;
+}
+
+export interface SourceAttachment {
+  name: string;
+  mimeType: string;
+  dataUrl: string; // Base64 data URL
+  pages?: number[]; // PDF pages sent to the model as images (1-based); the whole document when unset
+}
 
 export interface Creation {
   id: string;
   name: string;
-  html: string;
-  originalImage?: string; // Base64 data URL
+  html: string; // Mirrors the HTML of the current revision
+  files?: ProjectFile[]; // Mirrors the project files of the current revision
+  attachments?: SourceAttachment[]; // Uploaded sources, in the order they were sent to the model
   timestamp: Date;
+  provider?: ProviderId; // Model provider that generated this creation
+  model?: string;
+  revisions?: Revision[]; // Ordered oldest to newest
+  revisionId?: string; // Revision currently shown
+  parentId?: string; // Creation this one was forked from
+  parentRevisionId?: string;
+  thread?: RefinementTurn[]; // Refinement conversation, oldest first
+  constraints?: string[]; // Pinned by the user; sent with every refinement
+  generationSettings?: GenerationSettings; // Effective model settings of the first generation
 }
 
 interface CreationHistoryProps {
   history: Creation[];
   onSelect: (creation: Creation) => void;
+  storageUsage?: StorageUsage | null;
+  onManageStorage?: () => void;
+  onCompare?: (a: Creation, b: Creation) => void;
+}
+
+interface LineageNode {
+  creation: Creation;
+  children: LineageNode[];
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect }) => {
+// Creations whose parent is no longer in history are shown as roots
+const buildLineage = (history: Creation[]): LineageNode[] => {
+  const nodes = new Map(history.map(c => [c.id, { creation: c, children: [] as LineageNode[] }]));
+  const roots: LineageNode[] = [];
+  history.forEach(c => {
+    const node = nodes.get(c.id)!;
+    const parent = c.parentId ? nodes.get(c.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+  return roots;
+};
+
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, storageUsage, onManageStorage, onCompare }) => {
+  const [layout, setLayout] = useState<'grid' | 'tree'>('grid');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
   if (history.length === 0) return null;
 
+  const hasLineage = history.some(c => c.parentId && history.some(p => p.id === c.parentId));
+
+  const toggleCompare = (id: string) => {
+      // Keep at most two selected; the oldest pick is dropped
+      setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const startCompare = () => {
+      const [a, b] = compareIds.map(id => history.find(c => c.id === id));
+      if (a && b && onCompare) onCompare(a, b);
+  };
+
+  const renderNode = (node: LineageNode, depth: number): React.ReactNode => (
+      <React.Fragment key={node.creation.id}>
+          <div
+            className="group flex items-center gap-2 pr-3 py-1.5 hover:bg-zinc-800/60 rounded-md transition-colors"
+            style={{ paddingLeft: 8 + depth * 18 }}
+          >
+              {onCompare && (
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(node.creation.id)}
+                    onChange={() => toggleCompare(node.creation.id)}
+                    className="accent-blue-500"
+                    title="Select to compare"
+                  />
+              )}
+              {depth > 0 && <span className="text-zinc-700 font-mono text-xs select-none">└</span>}
+              <button onClick={() => onSelect(node.creation)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                  <span className="text-xs text-zinc-300 group-hover:text-white truncate">{node.creation.name}</span>
+                  {node.children.length > 0 && (
+                      <span className="text-[10px] font-mono text-zinc-600">{node.children.length} variant{node.children.length > 1 ? 's' : ''}</span>
+                  )}
+              </button>
+              <span className="text-[10px] font-mono text-zinc-600">
+                  {node.creation.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+          </div>
+          {node.children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+  );
+
   return (
     <div className="w-full animate-in fade-in slide-in-from-bottom-8 duration-700">
       <div className="flex items-center space-x-3 mb-3 px-2">
         <ClockIcon className="w-4 h-4 text-zinc-500" />
         <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Archive</h2>
         <div className="h-px flex-1 bg-zinc-800"></div>
+        {layout === 'tree' && compareIds.length === 2 && onCompare && (
+          <button
+            onClick={startCompare}
+            className="flex items-center space-x-1 text-[10px] font-medium uppercase tracking-wider text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            <ArrowsRightLeftIcon className="w-3.5 h-3.5" />
+            <span>Compare</span>
+          </button>
+        )}
+        {hasLineage && (
+          <button
+            onClick={() => setLayout(layout === 'grid' ? 'tree' : 'grid')}
+            className="text-zinc-600 hover:text-zinc-400 transition-colors"
+            title={layout === 'grid' ? 'Show lineage tree' : 'Show grid'}
+          >
+            {layout === 'grid' ? <ShareIcon className="w-3.5 h-3.5" /> : <Squares2X2Icon className="w-3.5 h-3.5" />}
+          </button>
+        )}
+        {storageUsage && onManageStorage && (
+          <button
+            onClick={onManageStorage}
+            className={`flex items-center space-x-1.5 text-[10px] font-mono transition-colors ${
+              storageUsage.quota && storageUsage.usage / storageUsage.quota > 0.9 ? 'text-amber-400 hover:text-amber-300' : 'text-zinc-600 hover:text-zinc-400'
+            }`}
+            title="Manage storage"
+          >
+            <CircleStackIcon className="w-3.5 h-3.5" />
+            <span>{formatBytes(storageUsage.usage)}</span>
+          </button>
+        )}
       </div>
       
-      {/* Horizontal Scroll Container for Compact Layout */}
+      {layout === 'tree' && hasLineage ? (
+        <div className="max-h-64 overflow-y-auto px-2 pb-2 scrollbar-hide">
+          {buildLineage(history).map(root => renderNode(root, 0))}
+        </div>
+      ) : (
+      /* Horizontal Scroll Container for Compact Layout */
       <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide">
         {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
+          const attachments = item.attachments || [];
+          const isPdf = attachments[0]?.mimeType === 'application/pdf';
           return (
             <button
               key={item.id}
@@ -44,13 +192,15 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
                   <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
                       {isPdf ? (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
+                      ) : attachments.length > 0 ? (
                           <PhotoIcon className="w-4 h-4 text-zinc-400" />
                       ) : (
                           <DocumentIcon className="w-4 h-4 text-zinc-400" />
                       )}
                   </div>
-                  <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
+                  <span className="flex items-center gap-1 text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
+                    {attachments.length > 1 && <span title={`${attachments.length} source files`}>×{attachments.length}</span>}
+                    {item.parentId && <ShareIcon className="w-3 h-3" title="Variant" />}
                     {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                   </span>
                 </div>
@@ -69,6 +219,7 @@ export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSel
           );
         })}
       </div>
+      )}
       <style>{`
         .scrollbar-hide::-webkit-scrollbar {
             display: none;
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { diffLines, diffStats, collapseUnchanged } from '../services/diff';
+
+interface DiffViewProps {
+  oldHtml: string;
+  newHtml: string;
+}
+
+export const DiffView: React.FC<DiffViewProps> = ({ oldHtml, newHtml }) => {
+  const { rows, stats } = useMemo(() => {
+      const lines = diffLines(oldHtml, newHtml);
+      return { rows: collapseUnchanged(lines), stats: diffStats(lines) };
+  }, [oldHtml, newHtml]);
+
+  return (
+    <div className="w-full h-full overflow-auto bg-zinc-950 font-mono text-[12px] leading-relaxed custom-scrollbar">
+        <div className="sticky top-0 z-10 px-4 py-2 bg-zinc-950/95 backdrop-blur border-b border-zinc-800 flex items-center gap-3 text-[10px] uppercase tracking-wider">
+            <span className="text-zinc-500">Changes</span>
+            <span className="text-green-400">+{stats.added}</span>
+            <span className="text-red-400">−{stats.removed}</span>
+        </div>
+        {stats.added === 0 && stats.removed === 0 ? (
+            <p className="p-6 text-zinc-500 text-center text-xs">No changes between these versions.</p>
+        ) : (
+            <table className="w-full border-collapse">
+                <tbody>
+                    {rows.map((row, i) => row.op === 'skip' ? (
+                        <tr key={i} className="bg-zinc-900/60 text-zinc-600">
+                            <td colSpan={3} className="px-4 py-1 text-[10px] select-none">⋯ {row.count} unchanged lines</td>
+                        </tr>
+                    ) : (
+                        <tr
+                            key={i}
+                            className={row.op === 'add' ? 'bg-green-500/10' : row.op === 'remove' ? 'bg-red-500/10' : ''}
+                        >
+                            <td className="w-12 px-2 text-right text-zinc-600 select-none align-top">{row.oldNumber ?? ''}</td>
+                            <td className="w-12 px-2 text-right text-zinc-600 select-none align-top border-r border-zinc-800">{row.newNumber ?? ''}</td>
+                            <td className={`px-3 whitespace-pre-wrap break-all ${row.op === 'add' ? 'text-green-300' : row.op === 'remove' ? 'text-red-300' : 'text-zinc-400'}`}>
+                                <span className="select-none inline-block w-3 text-zinc-600">{row.op === 'add' ? '+' : row.op === 'remove' ? '−' : ' '}</span>
+                                {row.text}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { CheckIcon, ChevronLeftIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { cssColorToHex } from '../services/directEdit';
+
+type Kind = 'color' | 'size';
+
+interface DirectEditControlsProps {
+  kind: Kind;
+  computedStyles: { [key: string]: string };
+  onPreview: (styles: Record<string, string>) => void; // Live update of the preview DOM
+  onApply: (styles: Record<string, string>) => void;
+  onDescribe: (description: string) => void; // Falls back to a model refinement
+  onBack: () => void;
+}
+
+const FIELDS: Record<Kind, { property: string; label: string }[]> = {
+  color: [
+    { property: 'color', label: 'Text' },
+    { property: 'backgroundColor', label: 'Background' },
+  ],
+  size: [
+    { property: 'width', label: 'Width' },
+    { property: 'height', label: 'Height' },
+    { property: 'padding', label: 'Padding' },
+    { property: 'margin', label: 'Margin' },
+    { property: 'fontSize', label: 'Font size' },
+  ],
+};
+
+const initialValue = (kind: Kind, computed = '') =>
+  kind === 'color' ? cssColorToHex(computed) ?? '#000000' : String(Math.round(parseFloat(computed) || 0));
+
+/**
+ * Color pickers or pixel inputs for an element picked in edit mode. Only touched properties are applied.
+ */
+export const DirectEditControls: React.FC<DirectEditControlsProps> = ({ kind, computedStyles, onPreview, onApply, onDescribe, onBack }) => {
+  const [styles, setStyles] = useState<Record<string, string>>({});
+  const [description, setDescription] = useState('');
+
+  const update = (property: string, value: string) => {
+    const next = { ...styles, [property]: kind === 'size' && value ? `${value}px` : value };
+    setStyles(next);
+    onPreview(next);
+  };
+
+  const valueOf = (property: string) => {
+    const touched = styles[property];
+    if (touched === undefined) return initialValue(kind, computedStyles[property]);
+    return kind === 'size' && touched ? String(parseFloat(touched)) : touched;
+  };
+
+  return (
+    <div className="p-3 space-y-3">
+      <div className={kind === 'color' ? 'grid grid-cols-2 gap-2' : 'grid grid-cols-3 gap-2'}>
+        {FIELDS[kind].map(({ property, label }) => (
+          <label key={property} className="block">
+            <span className="block text-[10px] font-medium text-zinc-500 mb-1 uppercase tracking-wider">{label}</span>
+            {kind === 'color' ? (
+              <input
+                type="color"
+                value={valueOf(property)}
+                onChange={(e) => update(property, e.target.value)}
+                className="w-full h-7 bg-zinc-950 border border-zinc-700 rounded cursor-pointer"
+              />
+            ) : (
+              <input
+                type="number"
+                min={0}
+                value={valueOf(property)}
+                onChange={(e) => update(property, e.target.value)}
+                className={`w-full bg-zinc-950 border rounded text-xs px-2 py-1 font-mono focus:outline-none focus:border-blue-500 ${styles[property] !== undefined ? 'border-amber-500/50 text-zinc-100' : 'border-zinc-700 text-zinc-400'}`}
+              />
+            )}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-1.5">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && description.trim() && onDescribe(description.trim())}
+          placeholder={kind === 'color' ? 'Or describe it, e.g. glassy gradient' : 'Or describe it, e.g. twice as wide'}
+          className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded text-xs px-2 py-1.5 text-zinc-200 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          onClick={() => description.trim() && onDescribe(description.trim())}
+          disabled={!description.trim()}
+          title="Ask the model"
+          className="px-2 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 disabled:opacity-30 transition-colors"
+        >
+          <SparklesIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <button onClick={onBack} className="text-[10px] text-zinc-500 hover:text-zinc-300 flex items-center gap-1">
+          <ChevronLeftIcon className="w-3 h-3" /> Back
+        </button>
+        <button
+          onClick={() => onApply(styles)}
+          disabled={Object.keys(styles).length === 0}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 text-white text-[10px] font-medium px-2 py-1 rounded flex items-center gap-1"
+        >
+          <CheckIcon className="w-3 h-3" /> Apply
+        </button>
+      </div>
+    </div>
+  );
+};
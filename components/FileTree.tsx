@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { FolderIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { ProjectFile } from '../services/providers';
+import { buildFileTree, FileTreeNode } from '../services/project';
+
+interface FileTreeProps {
+  files: ProjectFile[];
+  selectedPath: string;
+  onSelect: (path: string) => void;
+}
+
+export const FileTree: React.FC<FileTreeProps> = ({ files, selectedPath, onSelect }) => {
+  const tree = useMemo(() => buildFileTree(files), [files]);
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => (
+    <div key={node.path}>
+      {node.children ? (
+        <div className="flex items-center gap-1.5 py-1 text-zinc-500" style={{ paddingLeft: 12 + depth * 12 }}>
+          <FolderIcon className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{node.name}</span>
+        </div>
+      ) : (
+        <button
+          onClick={() => onSelect(node.path)}
+          className={`w-full flex items-center gap-1.5 py-1 pr-2 text-left transition-colors ${
+            node.path === selectedPath ? 'bg-blue-500/10 text-blue-300' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-900'
+          }`}
+          style={{ paddingLeft: 12 + depth * 12 }}
+        >
+          <DocumentTextIcon className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">{node.name}</span>
+        </button>
+      )}
+      {node.children?.map(child => renderNode(child, depth + 1))}
+    </div>
+  );
+
+  return (
+    <div className="h-full overflow-y-auto py-2 font-mono text-[11px] custom-scrollbar">
+      <div className="px-3 pb-2 text-[10px] uppercase tracking-wider text-zinc-600">Files</div>
+      {tree.map(node => renderNode(node, 0))}
+    </div>
+  );
+};
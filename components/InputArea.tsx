@@ -2,12 +2,16 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useCallback, useState, useRef } from 'react';
-import { ArrowUpTrayIcon, CpuChipIcon, PaintBrushIcon, MicrophoneIcon, StopIcon, CodeBracketSquareIcon, XMarkIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline';
+import React, { useCallback, useState, useRef, useMemo } from 'react';
+import { ArrowUpTrayIcon, CpuChipIcon, PaintBrushIcon, MicrophoneIcon, StopIcon, CodeBracketSquareIcon, XMarkIcon, ExclamationCircleIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
 import { SparklesIcon } from '@heroicons/react/24/solid';
+import { SourceAttachment } from './CreationHistory';
+import { PdfPagePicker } from './PdfPages';
+import { validateFiles, readAttachment, isPdfAttachment } from '../services/attachments';
+import { getPageCount } from '../services/pdf';
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File, style?: string, customCss?: string) => void;
+  onGenerate: (prompt: string, attachments?: SourceAttachment[], style?: string, customCss?: string, variantStyles?: string[]) => void;
   isGenerating: boolean;
   disabled?: boolean;
 }
@@ -20,6 +24,20 @@ const STYLES = [
     'Futuristic UI', 'Vintage Comic Book', 'Steampunk', 'Abstract Art', 'Pixel Art'
 ];
 
+const VARIANT_COUNTS = [1, 2, 3, 4];
+
+/**
+ * One style per requested candidate. Mixing keeps the selected style first and fills
+ * the rest with distinct random presets; otherwise every candidate uses the same style.
+ */
+const pickVariantStyles = (selected: string, count: number, mix: boolean): string[] => {
+    if (!mix) return Array(count).fill(selected);
+    const others = STYLES
+        .filter(s => s !== selected && s !== 'Default')
+        .sort(() => Math.random() - 0.5);
+    return [selected, ...others.slice(0, count - 1)];
+};
+
 const CyclingText = () => {
     const words = [
         "a napkin sketch",
@@ -58,39 +76,60 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
   const [showCssInput, setShowCssInput] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [mixStyles, setMixStyles] = useState(false);
+  // Uploads waiting for the user to pick pages of their multi-page PDFs
+  const [pendingUpload, setPendingUpload] = useState<{ attachments: SourceAttachment[]; pdfIndexes: number[] } | null>(null);
+  const pendingPdfs = useMemo(() => pendingUpload?.pdfIndexes.map(i => pendingUpload.attachments[i]) || [], [pendingUpload]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = (file: File) => {
+  const variantStyles = () => variantCount > 1 ? pickVariantStyles(selectedStyle, variantCount, mixStyles) : undefined;
+
+  // Several files are treated as consecutive screens of one flow
+  const handleFiles = async (files: File[]) => {
     setUploadError(null);
 
-    const validTypes = [
-        'image/jpeg', 
-        'image/png', 
-        'image/webp', 
-        'image/heic', 
-        'application/pdf',
-        'image/gif',
-        'image/svg+xml'
-    ];
-    
-    if (!validTypes.includes(file.type) && file.type !== '') {
-      setUploadError(`Unsupported format (${file.type || 'Unknown'}). Please upload JPEG, PNG, WebP, GIF or PDF.`);
+    const validationError = validateFiles(files);
+    if (validationError) {
+      setUploadError(validationError);
       return;
     }
 
-    const maxSize = 15 * 1024 * 1024; // 15MB
-    if (file.size > maxSize) {
-      setUploadError(`File too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Limit is 15MB.`);
+    let attachments: SourceAttachment[];
+    try {
+      attachments = await Promise.all(files.map(readAttachment));
+    } catch (e) {
+      console.error("Failed to read files", e);
+      setUploadError("Could not read the selected files.");
       return;
     }
 
-    onGenerate(prompt, file, selectedStyle, customCss);
+    const pdfIndexes: number[] = [];
+    for (const [i, attachment] of attachments.entries()) {
+      if (!isPdfAttachment(attachment)) continue;
+      const pages = await getPageCount(attachment.dataUrl).catch(() => 1);
+      if (pages > 1) pdfIndexes.push(i);
+    }
+
+    if (pdfIndexes.length > 0) {
+      setPendingUpload({ attachments, pdfIndexes });
+    } else {
+      onGenerate(prompt, attachments, selectedStyle, customCss, variantStyles());
+    }
+  };
+
+  const handlePagesPicked = (pdfs: SourceAttachment[]) => {
+    if (!pendingUpload) return;
+    const attachments = [...pendingUpload.attachments];
+    pendingUpload.pdfIndexes.forEach((index, i) => { attachments[index] = pdfs[i]; });
+    setPendingUpload(null);
+    onGenerate(prompt, attachments, selectedStyle, customCss, variantStyles());
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-        handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+        handleFiles(Array.from(e.target.files));
     }
     // Reset the input value so the same file can be selected again if needed
     if (e.target) e.target.value = '';
@@ -112,16 +151,12 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
     
     // Check if the drop actually contains files
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        if (e.dataTransfer.files.length > 1) {
-            setUploadError("Please drop only one file at a time.");
-            return;
-        }
-        handleFile(e.dataTransfer.files[0]);
+        handleFiles(Array.from(e.dataTransfer.files));
     } else {
         // This handles cases where user drops text or other non-file items
         setUploadError("Please drop a valid image or PDF file.");
     }
-  }, [disabled, isGenerating, selectedStyle, prompt, customCss]);
+  }, [disabled, isGenerating, selectedStyle, prompt, customCss, variantCount, mixStyles]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -174,7 +209,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
   const handleManualGenerate = (e: React.MouseEvent) => {
       e.stopPropagation();
       setUploadError(null);
-      onGenerate(prompt, undefined, selectedStyle, customCss);
+      onGenerate(prompt, undefined, selectedStyle, customCss, variantStyles());
   };
 
   return (
@@ -305,7 +340,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                             <p className="text-red-400 text-sm font-medium animate-pulse">{uploadError}</p>
                         ) : (
                             <p className="text-zinc-500 text-sm font-light tracking-wide">
-                                Click or drag an image to start
+                                Click or drag images or PDFs to start — several files become a multi-screen app
                             </p>
                         )}
                     </div>
@@ -316,6 +351,7 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
                 ref={fileInputRef}
                 type="file"
                 accept="image/*,application/pdf"
+                multiple
                 className="hidden"
                 onChange={handleFileChange}
                 disabled={isGenerating || disabled}
@@ -341,6 +377,43 @@ export const InputArea: React.FC<InputAreaProps> = ({ onGenerate, isGenerating,
             ))}
         </div>
       </div>
+
+      <div className={`flex items-center justify-center gap-3 text-xs transition-opacity duration-500 ${isGenerating || disabled ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
+        <Squares2X2Icon className="w-4 h-4 text-zinc-500 shrink-0" />
+        <span className="text-zinc-500">Variants</span>
+        <div className="flex rounded-full border border-zinc-800 bg-zinc-900 p-0.5">
+            {VARIANT_COUNTS.map(count => (
+                <button
+                    key={count}
+                    onClick={() => setVariantCount(count)}
+                    className={`w-7 py-0.5 rounded-full font-medium transition-all ${
+                        variantCount === count ? 'bg-blue-500/20 text-blue-400' : 'text-zinc-500 hover:text-zinc-300'
+                    }`}
+                >
+                    {count}
+                </button>
+            ))}
+        </div>
+        {variantCount > 1 && (
+            <label className="flex items-center gap-1.5 text-zinc-500 hover:text-zinc-300 cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={mixStyles}
+                    onChange={(e) => setMixStyles(e.target.checked)}
+                    className="accent-blue-500"
+                />
+                Mix styles
+            </label>
+        )}
+      </div>
+
+      {pendingUpload && (
+        <PdfPagePicker
+          attachments={pendingPdfs}
+          onConfirm={handlePagesPicked}
+          onCancel={() => setPendingUpload(null)}
+        />
+      )}
       
       <style>{`
         .mask-linear-fade {
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, CheckIcon, ArrowUturnLeftIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { InspectedElement, ElementSummary, BoxSides } from '../services/previewAgent';
+import { DirectEdit } from '../services/directEdit';
+
+interface InspectorProps {
+  element: InspectedElement;
+  onSelect: (elementId: string) => void;
+  onPreviewStyles: (elementId: string, styles: Record<string, string>) => void;
+  onPreviewClasses: (elementId: string, className: string) => void;
+  onRevert: (elementId: string) => void;
+  onCommit?: (...edits: DirectEdit[]) => void;
+  onClose: () => void;
+}
+
+const splitClasses = (className: string) => className.split(/\s+/).filter(Boolean);
+const cssName = (property: string) => property.replace(/([A-Z])/g, '-$1').toLowerCase();
+const px = (value: number) => (Math.round(value * 10) / 10).toString();
+
+const ElementLabel: React.FC<{ element: Pick<ElementSummary, 'tagName' | 'id' | 'className'> }> = ({ element }) => (
+  <span className="truncate">
+    <span className="text-blue-400">{element.tagName}</span>
+    {element.id && <span className="text-orange-300">#{element.id}</span>}
+    {element.className && <span className="text-zinc-500">.{splitClasses(element.className).join('.')}</span>}
+  </span>
+);
+
+// One ring of the box-model diagram, with its four side widths around the inner box
+const BoxRing: React.FC<{ label: string; sides: BoxSides; className: string; children: React.ReactNode }> = ({ label, sides, className, children }) => (
+  <div className={`relative border border-dashed px-6 py-4 text-center ${className}`}>
+    <span className="absolute top-0.5 left-1 text-[8px] uppercase tracking-wider opacity-70">{label}</span>
+    <span className="absolute top-0.5 left-1/2 -translate-x-1/2">{px(sides[0])}</span>
+    <span className="absolute right-1 top-1/2 -translate-y-1/2">{px(sides[1])}</span>
+    <span className="absolute bottom-0.5 left-1/2 -translate-x-1/2">{px(sides[2])}</span>
+    <span className="absolute left-1 top-1/2 -translate-y-1/2">{px(sides[3])}</span>
+    {children}
+  </div>
+);
+
+/**
+ * Side panel for inspect mode: DOM tree navigation, box model, and live-editable classes and styles.
+ * Changes apply to the preview immediately and are written to the creation on commit.
+ */
+export const Inspector: React.FC<InspectorProps> = ({ element, onSelect, onPreviewStyles, onPreviewClasses, onRevert, onCommit, onClose }) => {
+  const { elementId } = element;
+  const [styles, setStyles] = useState<Record<string, string>>({});
+  const [baseClasses, setBaseClasses] = useState(() => splitClasses(element.className));
+  const [classes, setClasses] = useState<string[] | null>(null);
+  const [newClass, setNewClass] = useState('');
+
+  // Live changes are dropped when another element is selected or the panel closes
+  useEffect(() => () => {
+    if (elementId) onRevert(elementId);
+  }, [elementId]);
+
+  const currentClasses = classes ?? baseClasses;
+  const added = currentClasses.filter(c => !baseClasses.includes(c));
+  const removed = baseClasses.filter(c => !currentClasses.includes(c));
+  const changeCount = Object.keys(styles).length + added.length + removed.length;
+  const editable = !!elementId;
+
+  const updateStyle = (property: string, value: string) => {
+    const next = { ...styles, [property]: value };
+    setStyles(next);
+    onPreviewStyles(elementId!, next);
+  };
+
+  const updateClasses = (next: string[]) => {
+    setClasses(next);
+    onPreviewClasses(elementId!, next.join(' '));
+  };
+
+  const addClasses = () => {
+    const names = splitClasses(newClass).filter(c => !currentClasses.includes(c));
+    if (names.length > 0) updateClasses([...currentClasses, ...names]);
+    setNewClass('');
+  };
+
+  const reset = () => {
+    onRevert(elementId!);
+    setStyles({});
+    setClasses(null);
+  };
+
+  const commit = () => {
+    if (!onCommit || !elementId) return;
+    const edits: DirectEdit[] = [];
+    if (Object.keys(styles).length > 0) edits.push({ type: 'style', elementId, styles });
+    if (added.length > 0 || removed.length > 0) edits.push({ type: 'classes', elementId, add: added, remove: removed });
+    onCommit(...edits);
+    // The preview reloads with the committed code and re-selects this element
+    setBaseClasses(currentClasses);
+    setStyles({});
+    setClasses(null);
+  };
+
+  const treeRow = (summary: ElementSummary, depth: number) => (
+    <button
+      key={summary.elementId}
+      onClick={() => onSelect(summary.elementId)}
+      className="w-full flex items-center py-0.5 pr-2 text-left text-zinc-400 hover:bg-zinc-900 rounded transition-colors"
+      style={{ paddingLeft: 8 + depth * 10 }}
+    >
+      <ElementLabel element={summary} />
+    </button>
+  );
+
+  return (
+    <div className="w-80 h-full shrink-0 border-l border-zinc-800 bg-[#0c0c0e] flex flex-col text-[11px] font-mono text-zinc-300 animate-in fade-in slide-in-from-right-4 duration-200">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></div>
+          <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Inspector</span>
+        </div>
+        <button onClick={onClose}>
+          <XMarkIcon className="w-3 h-3 text-zinc-600 hover:text-zinc-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-zinc-800">
+        <section className="p-3 space-y-1">
+          <span className="block mb-1 text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Elements</span>
+          {element.ancestors.map((ancestor, depth) => treeRow(ancestor, depth))}
+          <div className="flex items-center py-0.5 pr-2 rounded bg-blue-500/10 ring-1 ring-blue-500/30" style={{ paddingLeft: 8 + element.ancestors.length * 10 }}>
+            <ElementLabel element={element} />
+          </div>
+          {element.children.map(child => treeRow(child, element.ancestors.length + 1))}
+        </section>
+
+        <section className="p-3 space-y-2">
+          <span className="block text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Box Model</span>
+          <div className="text-[9px] text-zinc-400">
+            <BoxRing label="margin" sides={element.box.margin} className="border-orange-400/40 bg-orange-400/5">
+              <BoxRing label="border" sides={element.box.border} className="border-yellow-400/40 bg-yellow-400/5">
+                <BoxRing label="padding" sides={element.box.padding} className="border-emerald-400/40 bg-emerald-400/5">
+                  <div className="py-1.5 border border-blue-400/40 bg-blue-400/10 text-zinc-200">
+                    {px(element.box.width)} × {px(element.box.height)}
+                  </div>
+                </BoxRing>
+              </BoxRing>
+            </BoxRing>
+          </div>
+        </section>
+
+        <section className="p-3 space-y-2">
+          <span className="block text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Classes</span>
+          <div className="flex flex-wrap gap-1">
+            {currentClasses.map(name => (
+              <span key={name} className={`flex items-center gap-1 pl-1.5 pr-1 py-0.5 rounded border text-[10px] ${added.includes(name) ? 'border-amber-500/50 text-amber-200' : 'border-zinc-700 text-zinc-300'}`}>
+                {name}
+                {editable && (
+                  <button onClick={() => updateClasses(currentClasses.filter(c => c !== name))} title={`Remove ${name}`}>
+                    <XMarkIcon className="w-2.5 h-2.5 text-zinc-500 hover:text-zinc-200" />
+                  </button>
+                )}
+              </span>
+            ))}
+            {removed.map(name => (
+              <span key={name} className="px-1.5 py-0.5 rounded border border-red-500/30 text-red-300/70 line-through text-[10px]">{name}</span>
+            ))}
+          </div>
+          {editable && (
+            <div className="flex gap-1.5">
+              <input
+                type="text"
+                value={newClass}
+                onChange={(e) => setNewClass(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addClasses()}
+                placeholder="Add class, e.g. rounded-xl"
+                className="flex-1 min-w-0 bg-zinc-950 border border-zinc-700 rounded text-[10px] px-2 py-1 text-zinc-200 focus:outline-none focus:border-blue-500"
+              />
+              <button onClick={addClasses} disabled={!newClass.trim()} className="px-1.5 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 disabled:opacity-30">
+                <PlusIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </section>
+
+        <section className="p-3 space-y-1">
+          <span className="block mb-1 text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Styles</span>
+          {Object.entries(element.computedStyles).map(([property, computed]) => (
+            <label key={property} className="flex items-center gap-2">
+              <span className="w-28 shrink-0 text-zinc-500 truncate">{cssName(property)}</span>
+              <input
+                type="text"
+                value={styles[property] ?? computed}
+                disabled={!editable}
+                onChange={(e) => updateStyle(property, e.target.value)}
+                className={`flex-1 min-w-0 bg-transparent border rounded px-1.5 py-0.5 text-[10px] focus:outline-none focus:border-blue-500 ${property in styles ? 'border-amber-500/50 text-amber-100' : 'border-transparent hover:border-zinc-800 text-zinc-200'}`}
+              />
+            </label>
+          ))}
+        </section>
+
+        {element.text && (
+          <section className="p-3 space-y-1">
+            <span className="block text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Inner Text</span>
+            <p className="text-zinc-400 italic bg-zinc-950/50 p-2 rounded leading-tight">"{element.text}"</p>
+          </section>
+        )}
+      </div>
+
+      <div className="px-3 py-2 border-t border-zinc-800 flex items-center justify-between gap-2">
+        <span className="text-[10px] text-zinc-600">
+          {!editable ? 'Not editable: no source anchor' : changeCount > 0 ? `${changeCount} unsaved change${changeCount === 1 ? '' : 's'}` : 'Edits apply live'}
+        </span>
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={reset}
+            disabled={changeCount === 0}
+            title="Discard changes"
+            className="p-1 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 disabled:opacity-30 transition-colors"
+          >
+            <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={commit}
+            disabled={changeCount === 0 || !onCommit}
+            className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 transition-colors"
+          >
+            <CheckIcon className="w-3 h-3" /> Commit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,60 +2,221 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { 
-    ArrowDownTrayIcon, ViewColumnsIcon, DocumentIcon, 
+    ArrowDownTrayIcon, ViewColumnsIcon, 
     CodeBracketIcon, XMarkIcon, SparklesIcon, PaperAirplaneIcon,
     DevicePhoneMobileIcon, ComputerDesktopIcon, MicrophoneIcon,
     ArrowUturnLeftIcon, ArrowUturnRightIcon, CommandLineIcon,
     CursorArrowRaysIcon, EyeIcon, PencilSquareIcon, TrashIcon,
     SwatchIcon, ArrowsPointingOutIcon, ExclamationTriangleIcon,
-    CheckIcon, ChevronLeftIcon
+    CheckIcon, ChevronLeftIcon, StopIcon, ClockIcon, ArrowsRightLeftIcon,
+    ShareIcon, Square2StackIcon, ArchiveBoxArrowDownIcon, CubeIcon,
+    BugAntIcon, WrenchScrewdriverIcon, NoSymbolIcon, ShieldCheckIcon, ShieldExclamationIcon, CodeBracketSquareIcon,
+    ChatBubbleLeftRightIcon
 } from '@heroicons/react/24/outline';
-import { Creation } from './CreationHistory';
+import { Creation, SourceAttachment } from './CreationHistory';
+import { ProjectFile } from '../services/providers';
+import { DiffView } from './DiffView';
+import { PdfViewer } from './PdfPages';
+import { FileTree } from './FileTree';
+import { getUndoTarget } from '../services/revisions';
+import { isPdfAttachment } from '../services/attachments';
+import { downloadBlob, exportFileName, projectZip } from '../services/export';
+import { PROJECT_ENTRY, assembleProject } from '../services/project';
+import {
+    ConsoleEntry, BlockedRequest, injectConsoleBridge, isConsoleMessage, appendConsoleEntry, appendBlockedRequest, collectErrors
+} from '../services/consoleBridge';
+import { ScanFinding, ScanSeverity, SCAN_RULES, scanHtml } from '../services/securityScan';
+import {
+    AgentMode, InspectedElement, HostMessage, injectPreviewAgent, isAgentMessage, setModeMessage, editTextMessage, previewStyleMessage,
+    setClassesMessage, revertMessage, selectMessage
+} from '../services/previewAgent';
+import { DirectEdit } from '../services/directEdit';
+import { DirectEditControls } from './DirectEditControls';
+import { Inspector } from './Inspector';
+import { stampElementIds } from '../services/elementAnchors';
+import { CodeEditor } from './CodeEditor';
+import { RefinementThread } from './RefinementThread';
+import { PreviewFrame, ScannedPreviewFrame } from './PreviewFrame';
+import { TokenUsage, formatTokens } from '../services/tokens';
+import { RequestUsage, estimateCost, formatCost } from '../services/usage';
+import { systemInstructionFor } from '../services/prompts';
+import { CodeMarker, languageOf } from '../services/codeSyntax';
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
+  streamingHtml?: string;
+  variants?: VariantDraft[]; // Candidates of a multi-variant generation
+  onPromoteVariant?: (variantId: string) => void;
   isRefining?: boolean;
+  isExporting?: boolean; // Vite project conversion in progress
+  onExportProject?: () => void;
   isFocused: boolean;
   error?: string | null;
   onReset: () => void;
+  onCancel?: () => void;
   onRefine: (instruction: string) => void;
+  onEditElement?: (elementId: string, instruction: string) => void; // Refines only the element stamped with this id
+  onDirectEdit?: (...edits: DirectEdit[]) => void; // Local edits saved as one revision without a model call
+  onSaveCode?: (content: string, path?: string) => void; // Code editor save; `path` names the project file
+  onFixErrors?: (errors: string[]) => void; // Refines with runtime errors captured in the preview
+  previewCsp?: string; // Isolated preview mode: served from a blob: URL under this policy
+  scanAllowlist?: string[]; // Origins the security scan accepts external scripts from
+  holdRiskyPreviews?: boolean; // Show high-severity scan findings instead of the preview until acknowledged
   onUndo?: () => void;
   onRedo?: () => void;
+  onSelectRevision?: (revisionId: string) => void;
+  onFork?: (revisionId?: string) => void;
+  onCompareSiblings?: () => void;
+  onUpdateAttachment?: (index: number, attachment: SourceAttachment) => void;
+  pendingHtml?: string; // Refinement result awaiting review
+  pendingFiles?: ProjectFile[]; // Project files of the refinement under review
+  onAcceptRefinement?: () => void;
+  onRejectRefinement?: () => void;
+  pendingRequests?: string[]; // Requests behind the refinement under review
+  activeRequest?: string | null; // Request being refined now
+  onUpdateConstraints?: (constraints: string[]) => void; // Pinned constraints sent with every refinement
+  tokenUsage?: TokenUsage | null; // Size of the next refinement, for the usage meter
   canUndo?: boolean;
   canRedo?: boolean;
 }
 
 declare global {
   interface Window {
-    pdfjsLib: any;
     webkitSpeechRecognition: any;
   }
 }
 
-type InteractionMode = 'interact' | 'inspect' | 'edit';
-
-interface InspectedElement {
-  tagName: string;
-  id: string;
-  className: string;
-  text: string;
-  computedStyles: { [key: string]: string };
-}
+type InteractionMode = AgentMode;
 
 interface ContextMenuState {
   x: number;
   y: number;
   visible: boolean;
+  targetElementId?: string;
   targetDescription?: string;
   targetTagName?: string;
   targetInnerHtml?: string;
+  targetTextOnly?: boolean;
+  targetStyles?: { [key: string]: string };
 }
 
 type EditAction = 'text' | 'color' | 'size' | null;
 
+// Minimum delay between iframe reloads while a generation is streaming in
+const STREAM_RENDER_INTERVAL = 800;
+
+// Minimum delay between reloads of the split view while code is being typed
+const DRAFT_RENDER_INTERVAL = 500;
+
+// Auto-fix waits for errors to settle after load, and gives up after this many attempts per revision
+const ERROR_SETTLE_DELAY = 1500;
+const AUTO_FIX_BUDGET = 2;
+
+const CONSOLE_LEVEL_STYLES: Record<ConsoleEntry['level'], string> = {
+  error: 'text-red-300 bg-red-500/5 border-red-500/20',
+  warn: 'text-amber-300 bg-amber-500/5 border-amber-500/20',
+  info: 'text-blue-300 border-transparent',
+  log: 'text-zinc-300 border-transparent',
+};
+
+const SCAN_SEVERITY_STYLES: Record<ScanSeverity, string> = {
+  high: 'text-red-300 bg-red-500/5 border-red-500/20',
+  medium: 'text-amber-300 bg-amber-500/5 border-amber-500/20',
+  low: 'text-zinc-400 border-zinc-800',
+};
+
+export interface VariantDraft {
+  id: string;
+  style: string;
+  html: string;
+  files?: ProjectFile[]; // Set once a project-format candidate completes
+  usage?: RequestUsage;
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+}
+
+/**
+ * Returns `value`, updated at most once per `interval` ms (trailing updates are never lost)
+ */
+const useThrottledValue = (value: string, interval: number): string => {
+    const [throttled, setThrottled] = useState(value);
+    const lastRenderRef = useRef(0);
+
+    useEffect(() => {
+        if (!value) {
+            setThrottled("");
+            return;
+        }
+        const wait = Math.max(0, interval - (Date.now() - lastRenderRef.current));
+        const timeout = setTimeout(() => {
+            lastRenderRef.current = Date.now();
+            setThrottled(value);
+        }, wait);
+        return () => clearTimeout(timeout);
+    }, [value, interval]);
+
+    return throttled;
+};
+
+interface VariantThumbnailProps {
+  variant: VariantDraft;
+  previewCsp?: string;
+  scanAllowlist?: string[];
+  holdRiskyPreviews: boolean;
+  canPromote: boolean;
+  onPromote: () => void;
+}
+
+const VariantThumbnail: React.FC<VariantThumbnailProps> = ({ variant, previewCsp, scanAllowlist, holdRiskyPreviews, canPromote, onPromote }) => {
+    const html = useThrottledValue(variant.html, STREAM_RENDER_INTERVAL);
+
+    return (
+        <div className={`flex flex-col rounded-lg overflow-hidden border bg-zinc-950 ${variant.status === 'error' ? 'border-red-500/40' : 'border-zinc-800'}`}>
+            <div className="px-3 py-2 flex items-center justify-between border-b border-zinc-800">
+                <div className="flex items-center gap-2 min-w-0">
+                    {variant.status === 'streaming' && <div className="w-1.5 h-1.5 bg-blue-400 rounded-full animate-pulse shrink-0"></div>}
+                    <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-400 truncate">{variant.style}</span>
+                </div>
+                <button
+                    onClick={onPromote}
+                    disabled={!canPromote || variant.status !== 'done'}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-30 disabled:hover:bg-blue-600 transition-colors"
+                >
+                    <CheckIcon className="w-3 h-3" /> Use this
+                </button>
+            </div>
+            <div className="relative flex-1 min-h-[220px] bg-white overflow-hidden">
+                {variant.status === 'error' ? (
+                    <div className="absolute inset-0 flex items-center justify-center p-4 bg-zinc-950 text-center text-xs text-red-300/80">{variant.error}</div>
+                ) : holdRiskyPreviews && variant.status === 'streaming' ? (
+                    // Partial output can't be scanned reliably, so held previews wait for the whole document
+                    <div className="absolute inset-0 flex items-center justify-center p-4 bg-zinc-950 text-center text-[11px] text-zinc-500">
+                        Rendered after the security scan
+                    </div>
+                ) : html ? (
+                    // Rendered at double size and scaled down so the thumbnail shows a desktop-like layout
+                    <ScannedPreviewFrame
+                        title={`Variant ${variant.style}`}
+                        html={html}
+                        csp={previewCsp}
+                        hold={holdRiskyPreviews}
+                        scanAllowlist={scanAllowlist}
+                        className="absolute top-0 left-0 w-[200%] h-[200%] origin-top-left scale-50 pointer-events-none"
+                        sandbox="allow-scripts"
+                    />
+                ) : (
+                    <div className="absolute inset-0 flex items-center justify-center bg-zinc-950">
+                        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const LoadingStep = ({ text, active, completed }: { text: string, active: boolean, completed: boolean }) => (
     <div className={`flex items-center space-x-3 transition-all duration-500 ${active || completed ? 'opacity-100 translate-x-0' : 'opacity-30 translate-x-4'}`}>
         <div className={`w-4 h-4 flex items-center justify-center ${completed ? 'text-green-400' : active ? 'text-blue-400' : 'text-zinc-700'}`}>
@@ -71,92 +232,154 @@ const LoadingStep = ({ text, active, completed }: { text: string, active: boolea
     </div>
 );
 
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        setError("PDF library not initialized");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        const page = await pdf.getPage(1);
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-
-        const context = canvas.getContext('2d');
-        const viewport = page.getViewport({ scale: 2.0 });
-
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-
-        await page.render({
-          canvasContext: context,
-          viewport: viewport,
-        }).promise;
-        setLoading(false);
-      } catch (err) {
-        console.error("Error rendering PDF:", err);
-        setError("Could not render PDF preview.");
-        setLoading(false);
-      }
-    };
+const ScanFindingRow: React.FC<{ finding: ScanFinding }> = ({ finding }) => (
+    <div className={`px-2 py-1.5 rounded border font-mono text-[10px] ${SCAN_SEVERITY_STYLES[finding.severity]}`}>
+        <div className="flex items-start justify-between gap-2">
+            <span className="font-medium">{SCAN_RULES[finding.rule].label}</span>
+            <span className="shrink-0 text-zinc-600">line {finding.line}</span>
+        </div>
+        <p className="mt-0.5 text-zinc-400 break-words">{finding.message}</p>
+        <pre className="mt-1 text-zinc-600 whitespace-pre-wrap break-all">{finding.snippet}</pre>
+    </div>
+);
 
-    renderPdf();
-  }, [dataUrl]);
+// Tooltip of the model badge, listing the settings the creation was generated with
+function describeGeneration({ provider, files, generationSettings }: Creation): string {
+    if (!generationSettings) return `Generated by ${provider}`;
+    const { temperature, maxOutputTokens, thinkingBudget, systemInstruction } = generationSettings;
+    return [
+        `Generated by ${provider}`,
+        `temperature ${temperature}`,
+        maxOutputTokens ? `max ${maxOutputTokens} output tokens` : '',
+        thinkingBudget !== undefined ? `thinking budget ${thinkingBudget}` : '',
+        systemInstruction !== systemInstructionFor(files ? 'project' : 'html') ? 'custom system instruction' : '',
+    ].filter(Boolean).join(' · ');
+}
 
-  if (error) {
+const RevisionUsage: React.FC<{ usage: RequestUsage }> = ({ usage }) => {
+    const cost = estimateCost(usage);
     return (
-        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
-            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
-            <p className="text-sm mb-2 text-red-400/80">{error}</p>
-        </div>
+        <p
+            className="text-[10px] font-mono text-zinc-600 truncate pr-5"
+            title={`${usage.calls} model calls, ${usage.retries} retried; ${(usage.latencyMs / 1000).toFixed(1)}s waiting on the model`}
+        >
+            {formatTokens(usage.inputTokens)} in · {formatTokens(usage.outputTokens)} out{cost !== undefined ? ` · ${formatCost(cost)}` : ''}
+            {usage.retries > 0 && <span className="text-amber-500/70"> · {usage.retries} retried</span>}
+        </p>
     );
-  }
+};
 
-  return (
-    <div className="relative w-full h-full flex items-center justify-center">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+// Fill of the context window by the next refinement; whole-document rewrites also count against the output limit
+const UsageMeter: React.FC<{ usage: TokenUsage }> = ({ usage }) => {
+    const inputShare = usage.input / usage.limits.input;
+    const share = Math.min(1, usage.patch ? inputShare : Math.max(inputShare, usage.rewrite / usage.limits.output));
+    const color = share >= 0.8 ? 'bg-red-500' : share >= 0.5 ? 'bg-amber-500' : 'bg-emerald-500';
+    const title = [
+        `Next refinement: ${usage.estimated ? 'about ' : ''}${usage.input.toLocaleString()} of ${usage.limits.input.toLocaleString()} input tokens`,
+        `Rewriting the code takes about ${usage.rewrite.toLocaleString()} of ${usage.limits.output.toLocaleString()} output tokens`,
+        usage.patch ? 'Large code: refinements are applied as search/replace edits' : '',
+    ].filter(Boolean).join('\n');
+    return (
+        <div title={title} className="hidden md:flex items-center gap-1.5 px-1.5 mr-1 text-[10px] font-mono text-zinc-500 cursor-default">
+            <div className="w-12 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                <div className={`h-full ${color}`} style={{ width: `${Math.max(share * 100, 2)}%` }} />
             </div>
-        )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
-    </div>
-  );
+            <span>{usage.estimated ? '~' : ''}{formatTokens(usage.input)}</span>
+            {usage.patch && <span className="px-1 rounded bg-zinc-800 text-zinc-400">patch</span>}
+        </div>
+    );
 };
 
 export const LivePreview: React.FC<LivePreviewProps> = ({ 
-    creation, isLoading, isRefining = false, isFocused, error,
-    onReset, onRefine, onUndo, onRedo, canUndo, canRedo 
+    creation, isLoading, streamingHtml = '', variants = [], onPromoteVariant, isRefining = false, isExporting = false, onExportProject, isFocused, error,
+    onReset, onCancel, onRefine, onEditElement, onDirectEdit, onSaveCode, onFixErrors, previewCsp, scanAllowlist, holdRiskyPreviews = false, onUndo, onRedo, onSelectRevision, onFork, onCompareSiblings, onUpdateAttachment,
+    pendingHtml, pendingFiles, onAcceptRefinement, onRejectRefinement, pendingRequests = [], activeRequest, onUpdateConstraints, tokenUsage, canUndo, canRedo 
 }) => {
     const [loadingStep, setLoadingStep] = useState(0);
     const [showSplitView, setShowSplitView] = useState(false);
+    const [sourceIndex, setSourceIndex] = useState(0);
     const [refineInput, setRefineInput] = useState("");
-    const [viewMode, setViewMode] = useState<'preview' | 'code'>('preview');
+    const [viewMode, setViewMode] = useState<'preview' | 'code' | 'split'>('preview');
     const [deviceMode, setDeviceMode] = useState<'desktop' | 'mobile'>('desktop');
     const [isListening, setIsListening] = useState(false);
+    const [showTimeline, setShowTimeline] = useState(false);
+    const [showThread, setShowThread] = useState(false);
+    const [codeView, setCodeView] = useState<'source' | 'diff'>('source');
+    const [selectedFile, setSelectedFile] = useState(PROJECT_ENTRY);
+    const [compareMode, setCompareMode] = useState(false);
+    // Runtime output of the main preview iframe, cleared on every page load
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const [blockedRequests, setBlockedRequests] = useState<BlockedRequest[]>([]);
+    const [showConsole, setShowConsole] = useState(false);
+    const [autoFix, setAutoFix] = useState(false);
+    const [autoFixCount, setAutoFixCount] = useState(0);
+    const [acknowledgedHtml, setAcknowledgedHtml] = useState<string | null>(null);
+    // Unsaved editor text per file ('' for single-file creations), dropped once the saved text it was based on changes
+    const [codeDrafts, setCodeDrafts] = useState<Record<string, { base: string; text: string }>>({});
     
     const [interactionMode, setInteractionMode] = useState<InteractionMode>('interact');
     const [inspectedElement, setInspectedElement] = useState<InspectedElement | null>(null);
+    const inspectedId = inspectedElement?.elementId;
     
     // Context Menu State
     const [contextMenu, setContextMenu] = useState<ContextMenuState>({ x: 0, y: 0, visible: false });
     const [editAction, setEditAction] = useState<EditAction>(null);
     const [editInputValue, setEditInputValue] = useState("");
     
+    // Throttled copy of streamingHtml so the partial preview doesn't reload on every token
+    const streamPreviewHtml = useThrottledValue(streamingHtml, STREAM_RENDER_INTERVAL);
+    const streamCodeRef = useRef<HTMLDivElement>(null);
+    
     const iframeRef = useRef<HTMLIFrameElement>(null);
+    // Direct edits the host started: frame messages can't be trusted to report only those
+    const textEditRef = useRef<string | null>(null); // Element id of the open 'edit-text'
+    const dragRef = useRef<string | null>(null); // Element id being dragged in edit mode
+
+    // While a refinement is under review the preview shows the proposed HTML,
+    // and comparisons are made against the current revision; otherwise against its parent.
+    const displayHtml = pendingHtml ?? creation?.html;
+    const attachments = creation?.attachments || [];
+    const activeSourceIndex = Math.min(sourceIndex, attachments.length - 1);
+    const activeSource = attachments[activeSourceIndex];
+    const baseHtml = pendingHtml ? creation?.html : (creation ? getUndoTarget(creation)?.html : undefined);
+    // Project creations show their files; the preview and "Download .html" use the assembled document
+    const displayFiles = pendingHtml ? pendingFiles : creation?.files;
+    const baseFiles = pendingHtml ? creation?.files : (creation ? getUndoTarget(creation)?.files : undefined);
+    const selectedContent = displayFiles?.find(f => f.path === selectedFile)?.content;
+    const codeKey = displayFiles ? selectedFile : '';
+    const savedCode = (displayFiles ? selectedContent : displayHtml) ?? '';
+    const draftOf = (key: string, saved: string) => codeDrafts[key]?.base === saved ? codeDrafts[key].text : saved;
+    // The split view renders unsaved edits, throttled so typing doesn't reload the app on every key
+    const draftHtml = useMemo(() => {
+        if (!displayHtml) return '';
+        if (!displayFiles) return draftOf('', displayHtml);
+        const files = displayFiles.map(file => ({ ...file, content: draftOf(file.path, file.content) }));
+        return files.some((file, i) => file.content !== displayFiles[i].content) ? assembleProject(files) : displayHtml;
+    }, [displayHtml, displayFiles, codeDrafts]);
+    const liveDraftHtml = useThrottledValue(draftHtml, DRAFT_RENDER_INTERVAL);
+    const renderedHtml = viewMode === 'split' && liveDraftHtml ? liveDraftHtml : displayHtml;
+    const previewHtml = useMemo(
+        () => renderedHtml ? injectPreviewAgent(injectConsoleBridge(stampElementIds(renderedHtml))) : '',
+        [renderedHtml]
+    );
+    const consoleErrors = useMemo(() => collectErrors(consoleEntries), [consoleEntries]);
+    // Uncaught errors located in the document, shown as editor markers
+    const runtimeMarkers = useMemo(() => consoleEntries.flatMap((entry): CodeMarker[] => {
+        const line = entry.level === 'error' && entry.location ? parseInt(entry.location, 10) : NaN;
+        return line > 0 ? [{ line, severity: 'error', message: entry.message }] : [];
+    }), [consoleEntries]);
+    const scanFindings = useMemo(() => displayHtml ? scanHtml(displayHtml, scanAllowlist) : [], [displayHtml, scanAllowlist]);
+    const isPreviewHeld = holdRiskyPreviews && acknowledgedHtml !== displayHtml && scanFindings.some(f => f.severity === 'high');
+    const securityIssueCount = scanFindings.length + blockedRequests.length;
+
+    useEffect(() => {
+        if (pendingHtml) {
+            setCodeView('diff');
+        } else {
+            setCompareMode(false);
+            setCodeView('source');
+        }
+    }, [pendingHtml]);
 
     useEffect(() => {
         if (isLoading) {
@@ -170,166 +393,125 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
         }
     }, [isLoading]);
 
+    // Keep the live code view pinned to the newest tokens
     useEffect(() => {
-        if (creation?.originalImage) {
-            setShowSplitView(true);
-        } else {
-            setShowSplitView(false);
-        }
-    }, [creation]);
+        const el = streamCodeRef.current;
+        if (el) el.scrollTop = el.scrollHeight;
+    }, [streamingHtml]);
+
+    useEffect(() => {
+        setShowSplitView(!!creation?.attachments?.length);
+        setSourceIndex(0);
+        setSelectedFile(PROJECT_ENTRY);
+        setCodeDrafts({});
+    }, [creation?.id]);
+
+    useEffect(() => {
+        setAutoFixCount(0);
+    }, [creation?.id, creation?.revisionId]);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframeRef.current?.contentWindow || !isConsoleMessage(event.data)) return;
+            const message = event.data;
+            if (message.type === 'load') {
+                setConsoleEntries([]);
+                setBlockedRequests([]);
+            } else if (message.type === 'blocked') {
+                setBlockedRequests(prev => appendBlockedRequest(prev, message.url, message.directive));
+            } else {
+                const { level, location } = message;
+                setConsoleEntries(prev => appendConsoleEntry(prev, { level, message: message.message, location, timestamp: Date.now() }));
+            }
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    // Self-healing: once the errors of a load have settled, send them for a fix within the budget
+    useEffect(() => {
+        if (!autoFix || !onFixErrors || consoleErrors.length === 0 || isRefining || isLoading || autoFixCount >= AUTO_FIX_BUDGET) return;
+        const timer = setTimeout(() => {
+            setAutoFixCount(count => count + 1);
+            onFixErrors(consoleErrors);
+        }, ERROR_SETTLE_DELAY);
+        return () => clearTimeout(timer);
+    }, [autoFix, consoleErrors, isRefining, isLoading, autoFixCount, onFixErrors]);
+
+    const postToPreview = (message: HostMessage) => iframeRef.current?.contentWindow?.postMessage(message, '*');
 
     // Reset interaction states when closing menu or changing modes
     useEffect(() => {
         if (!contextMenu.visible) {
             setEditAction(null);
             setEditInputValue("");
+            // Drop unapplied live style changes
+            if (contextMenu.targetElementId) postToPreview(revertMessage(contextMenu.targetElementId));
         }
     }, [contextMenu.visible]);
 
+    // The preview is cross-origin (no allow-same-origin); inspect/edit run in the injected agent
     useEffect(() => {
-        const iframe = iframeRef.current;
-        if (!iframe || !creation?.html || viewMode !== 'preview') return;
-
-        const loadHandler = () => {
-            const doc = iframe.contentDocument;
-            if (!doc) return;
-
-            const styleId = 'gemini-preview-styles';
-            let style = doc.getElementById(styleId) as HTMLStyleElement;
-            if (!style) {
-                style = doc.createElement('style');
-                style.id = styleId;
-                doc.head.appendChild(style);
-            }
-            
-            style.textContent = `
-                .gemini-inspector-hover {
-                    outline: 2px solid #3b82f6 !important;
-                    outline-offset: -2px !important;
-                    background-color: rgba(59, 130, 246, 0.1) !important;
-                    transition: all 0.1s ease;
-                }
-                .gemini-edit-hover {
-                    outline: 2px dashed #f59e0b !important;
-                    outline-offset: -2px !important;
-                    background-color: rgba(245, 158, 11, 0.05) !important;
-                    cursor: pointer !important;
-                    transition: all 0.1s ease;
-                }
-            `;
-
-            const handleMouseOver = (e: Event) => {
-                if (interactionMode === 'interact') return;
-                e.stopPropagation();
-                const target = e.target as HTMLElement;
-                if (target === doc.body || target === doc.documentElement) return;
-                target.classList.add(interactionMode === 'inspect' ? 'gemini-inspector-hover' : 'gemini-edit-hover');
-            };
-
-            const handleMouseOut = (e: Event) => {
-                if (interactionMode === 'interact') return;
-                e.stopPropagation();
-                const target = e.target as HTMLElement;
-                target.classList.remove('gemini-inspector-hover', 'gemini-edit-hover');
-            };
-
-            const handleClick = (e: MouseEvent) => {
-                if (interactionMode === 'interact') return;
-                e.preventDefault();
-                e.stopPropagation();
-                
-                const target = e.target as HTMLElement;
-                
-                if (interactionMode === 'inspect') {
-                    const computed = window.getComputedStyle(target);
-                    setInspectedElement({
-                        tagName: target.tagName.toLowerCase(),
-                        id: target.id,
-                        className: target.className.replace('gemini-inspector-hover', '').trim(),
-                        text: target.innerText.substring(0, 100),
-                        computedStyles: {
-                            // Layout
-                            display: computed.display,
-                            position: computed.position,
-                            width: computed.width,
-                            height: computed.height,
-                            boxSizing: computed.boxSizing,
-                            zIndex: computed.zIndex,
-                            // Flexbox/Grid
-                            flexDirection: computed.flexDirection,
-                            justifyContent: computed.justifyContent,
-                            alignItems: computed.alignItems,
-                            // Typography
-                            color: computed.color,
-                            fontSize: computed.fontSize,
-                            fontWeight: computed.fontWeight,
-                            fontFamily: computed.fontFamily,
-                            lineHeight: computed.lineHeight,
-                            textAlign: computed.textAlign,
-                            // Spacing & Border
-                            padding: computed.padding,
-                            margin: computed.margin,
-                            border: computed.border,
-                            borderRadius: computed.borderRadius,
-                            // Visuals
-                            backgroundColor: computed.backgroundColor,
-                            boxShadow: computed.boxShadow,
-                            opacity: computed.opacity,
-                            cursor: computed.cursor
-                        }
-                    });
-                } else if (interactionMode === 'edit') {
-                    const iframeRect = iframe.getBoundingClientRect();
-                    
-                    let description = target.tagName.toLowerCase();
-                    if (target.id) description += `#${target.id}`;
-                    if (target.className.replace('gemini-edit-hover', '').trim()) {
-                        description += `.${target.className.replace('gemini-edit-hover', '').trim().split(' ').join('.')}`;
-                    }
-                    if (target.innerText) {
-                         description += ` (current text: "${target.innerText.substring(0, 20)}...")`;
-                    }
-
-                    // Simple clamp logic for context menu
-                    let menuX = iframeRect.left + e.clientX;
-                    let menuY = iframeRect.top + e.clientY;
-                    const menuWidth = 240;
-                    const menuHeight = 200;
-
-                    if (menuX + menuWidth > window.innerWidth) menuX -= menuWidth;
-                    if (menuY + menuHeight > window.innerHeight) menuY -= menuHeight;
-
-                    setContextMenu({
-                        x: menuX,
-                        y: menuY,
-                        visible: true,
-                        targetDescription: description,
-                        targetTagName: target.tagName.toLowerCase(),
-                        targetInnerHtml: target.innerHTML
-                    });
-                }
-            };
-
-            doc.body.addEventListener('mouseover', handleMouseOver);
-            doc.body.addEventListener('mouseout', handleMouseOut);
-            doc.body.addEventListener('click', handleClick);
-
-            return () => {
-                doc.body.removeEventListener('mouseover', handleMouseOver);
-                doc.body.removeEventListener('mouseout', handleMouseOut);
-                doc.body.removeEventListener('click', handleClick);
-            };
-        };
+        textEditRef.current = null;
+        dragRef.current = null;
+        postToPreview(setModeMessage(interactionMode));
+    }, [interactionMode]);
 
-        iframe.addEventListener('load', loadHandler);
-        if (iframe.contentDocument && iframe.contentDocument.readyState === 'complete') {
-            loadHandler();
-        }
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const iframe = iframeRef.current;
+            if (!iframe || event.source !== iframe.contentWindow || !isAgentMessage(event.data)) return;
+            const message = event.data;
+            if (message.type === 'ready') {
+                textEditRef.current = null;
+                dragRef.current = null;
+                iframe.contentWindow?.postMessage(setModeMessage(interactionMode), '*');
+                // Keep the inspected element selected across reloads, e.g. after a commit
+                if (interactionMode === 'inspect' && inspectedId) iframe.contentWindow?.postMessage(selectMessage(inspectedId), '*');
+            } else if (message.type === 'inspect' && interactionMode === 'inspect') {
+                setInspectedElement(message.element);
+            } else if (message.type === 'text-edited' || message.type === 'text-edit-cancelled') {
+                // Only the element the host opened for editing, once
+                if (interactionMode !== 'edit' || textEditRef.current === null || message.elementId !== textEditRef.current) return;
+                textEditRef.current = null;
+                if (message.type === 'text-edited') onDirectEdit?.({ type: 'text', elementId: message.elementId, text: message.text });
+            } else if (message.type === 'drag-start' && interactionMode === 'edit') {
+                dragRef.current = typeof message.elementId === 'string' ? message.elementId : null;
+            } else if (message.type === 'drag-end') {
+                dragRef.current = null;
+            } else if (message.type === 'move') {
+                if (interactionMode !== 'edit' || dragRef.current === null || message.elementId !== dragRef.current) return;
+                dragRef.current = null;
+                onDirectEdit?.({ type: 'move', elementId: message.elementId, targetId: message.targetId, position: message.position });
+            } else if (message.type === 'edit' && interactionMode === 'edit') {
+                const { target } = message;
+                const iframeRect = iframe.getBoundingClientRect();
+
+                // Simple clamp logic for context menu
+                let menuX = iframeRect.left + target.x;
+                let menuY = iframeRect.top + target.y;
+                const menuWidth = 240;
+                const menuHeight = 200;
+
+                if (menuX + menuWidth > window.innerWidth) menuX -= menuWidth;
+                if (menuY + menuHeight > window.innerHeight) menuY -= menuHeight;
 
-        return () => {
-            iframe.removeEventListener('load', loadHandler);
+                setContextMenu({
+                    x: menuX,
+                    y: menuY,
+                    visible: true,
+                    targetElementId: target.elementId,
+                    targetDescription: target.description,
+                    targetTagName: target.tagName,
+                    targetInnerHtml: target.innerHtml,
+                    targetTextOnly: target.textOnly,
+                    targetStyles: target.computedStyles,
+                });
+            }
         };
-    }, [creation?.html, interactionMode, viewMode]);
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [interactionMode, onDirectEdit, inspectedId]);
 
     useEffect(() => {
         const closeMenu = () => setContextMenu(prev => ({ ...prev, visible: false }));
@@ -337,72 +519,95 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
         return () => window.removeEventListener('click', closeMenu);
     }, []);
 
+    // Inspect and edit mode address elements of the saved code, which the editor views may not show
+    const showView = (mode: typeof viewMode) => {
+        setViewMode(mode);
+        if (mode !== 'preview') {
+            setInteractionMode('interact');
+            setInspectedElement(null);
+        }
+    };
+
     const handleExportJson = () => {
         if (!creation) return;
-        const dataStr = JSON.stringify(creation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        const blob = new Blob([JSON.stringify(creation, null, 2)], { type: "application/json" });
+        downloadBlob(blob, exportFileName(creation, '_artifact.json'));
     };
 
     const handleExportHtml = () => {
         if (!creation) return;
-        const blob = new Blob([creation.html], { type: "text/html" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.html`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadBlob(new Blob([creation.html], { type: "text/html" }), exportFileName(creation, '.html'));
+    };
+
+    const handleExportZip = () => {
+        if (!creation) return;
+        downloadBlob(projectZip(creation), exportFileName(creation, '.zip'));
     };
 
     const handleRefineSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (refineInput.trim() && !isRefining) {
+            setAutoFixCount(0);
             onRefine(refineInput);
             setRefineInput("");
         }
     };
 
     const initEditAction = (action: EditAction) => {
+        // Leaf text is edited in place in the preview; the agent reports the result
+        if (action === 'text' && contextMenu.targetTextOnly && contextMenu.targetElementId && onDirectEdit) {
+            textEditRef.current = contextMenu.targetElementId;
+            postToPreview(editTextMessage(contextMenu.targetElementId));
+            setContextMenu(prev => ({ ...prev, visible: false }));
+            return;
+        }
         setEditAction(action);
         setEditInputValue(""); // Reset input
     };
 
+    const applyDirectStyles = (styles: Record<string, string>) => {
+        if (!contextMenu.targetElementId || !onDirectEdit) return;
+        onDirectEdit({ type: 'style', elementId: contextMenu.targetElementId, styles });
+        setContextMenu(prev => ({ ...prev, visible: false }));
+    };
+
+    const describeEdit = (description: string) => {
+        const prompt = editAction === 'color' ? `Update the style of this element to use ${description}.` : `Adjust the size/scale of this element to be ${description}.`;
+        onEditElement?.(contextMenu.targetElementId!, prompt);
+        setContextMenu(prev => ({ ...prev, visible: false }));
+    };
+
     const submitEditAction = () => {
-        if (!contextMenu.targetDescription) return;
+        if (!contextMenu.targetDescription || !editInputValue) return;
+        const { targetElementId: elementId } = contextMenu;
+        // Anchored edits name "this element"; the fallback has to describe it for the model to find
+        const target = elementId && onEditElement ? 'this element' : `the element [${contextMenu.targetDescription}]`;
 
         let prompt = "";
         switch(editAction) {
             case 'color':
-                if (editInputValue) prompt = `Update the style of the element [${contextMenu.targetDescription}] to use ${editInputValue}.`;
+                prompt = `Update the style of ${target} to use ${editInputValue}.`;
                 break;
             case 'text':
-                if (editInputValue) prompt = `Change the text content of the element [${contextMenu.targetDescription}] to "${editInputValue}".`;
+                prompt = `Change the text content of ${target} to "${editInputValue}".`;
                 break;
             case 'size':
-                if (editInputValue) prompt = `Adjust the size/scale of the element [${contextMenu.targetDescription}] to be ${editInputValue}.`;
+                prompt = `Adjust the size/scale of ${target} to be ${editInputValue}.`;
                 break;
         }
 
         if (prompt) {
-            onRefine(prompt);
+            if (elementId && onEditElement) onEditElement(elementId, prompt);
+            else onRefine(prompt);
             setContextMenu(prev => ({ ...prev, visible: false }));
         }
     };
 
     const handleDelete = () => {
         if (!contextMenu.targetDescription) return;
-        const prompt = `Remove the element [${contextMenu.targetDescription}] completely from the application.`;
-        onRefine(prompt);
+        const { targetElementId: elementId } = contextMenu;
+        if (elementId && onDirectEdit) onDirectEdit({ type: 'remove', elementId });
+        else onRefine(`Remove the element [${contextMenu.targetDescription}] completely from the application.`);
         setContextMenu(prev => ({ ...prev, visible: false }));
     };
 
@@ -434,6 +639,99 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
         recognition.start();
     };
 
+    const heldNotice = (
+        <div className="w-full max-w-lg m-6 bg-[#0c0c0e] border border-red-500/30 rounded-xl shadow-2xl overflow-hidden animate-in fade-in duration-200">
+            <div className="px-4 py-3 border-b border-zinc-800 flex items-center gap-2">
+                <ShieldExclamationIcon className="w-4 h-4 text-red-400" />
+                <span className="text-sm font-medium text-zinc-200">Preview held for review</span>
+            </div>
+            <div className="p-4 space-y-3">
+                <p className="text-xs text-zinc-400">The generated code does things a prototype normally shouldn't. Review the findings before rendering it.</p>
+                <div className="max-h-72 overflow-y-auto space-y-1 custom-scrollbar">
+                    {scanFindings.map((finding, i) => <ScanFindingRow key={i} finding={finding} />)}
+                </div>
+            </div>
+            <div className="px-4 py-3 border-t border-zinc-800 flex justify-end gap-2">
+                <button onClick={() => showView('code')} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+                    View code
+                </button>
+                <button
+                   onClick={() => setAcknowledgedHtml(displayHtml ?? null)}
+                   className="bg-red-600 hover:bg-red-500 text-white text-xs font-medium px-3 py-1.5 rounded-md flex items-center gap-1.5 transition-colors"
+                >
+                    <EyeIcon className="w-3.5 h-3.5" /> Render anyway
+                </button>
+            </div>
+        </div>
+    );
+
+    const previewFrame = (
+        <div 
+           className={`transition-all duration-300 bg-white shadow-2xl overflow-hidden ${deviceMode === 'mobile' ? 'w-[375px] h-[667px] rounded-[3rem] border-[12px] border-zinc-800 relative' : 'w-full h-full'}`}
+        >
+            {deviceMode === 'mobile' && (
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 w-32 h-6 bg-zinc-800 rounded-b-2xl z-20"></div>
+            )}
+            <PreviewFrame
+               frameRef={iframeRef}
+               title="Live Preview"
+               html={previewHtml}
+               csp={previewCsp}
+               className="w-full h-full"
+               sandbox="allow-scripts allow-forms allow-popups allow-modals"
+           />
+        </div>
+    );
+
+    const codePane = (
+        <div className="w-full h-full flex flex-col">
+            {baseHtml !== undefined && (
+                <div className="shrink-0 px-4 py-2 border-b border-zinc-800 bg-zinc-950 flex items-center gap-1">
+                    {(['source', 'diff'] as const).map(mode => (
+                        <button
+                           key={mode}
+                           onClick={() => setCodeView(mode)}
+                           className={`px-2.5 py-1 rounded text-[10px] font-mono uppercase tracking-wider transition-colors ${codeView === mode ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                        >
+                            {mode === 'source' ? 'Source' : pendingHtml ? 'Proposed Changes' : 'Changes vs Previous'}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex-1 min-h-0 flex">
+                {displayFiles && (
+                    <div className="w-52 shrink-0 border-r border-zinc-800 bg-[#0c0c0e]">
+                        <FileTree files={displayFiles} selectedPath={selectedFile} onSelect={setSelectedFile} />
+                    </div>
+                )}
+                {codeView === 'diff' && baseHtml !== undefined ? (
+                    <div className="flex-1 min-w-0">
+                        {displayFiles && baseFiles ? (
+                            <DiffView
+                               oldHtml={baseFiles.find(f => f.path === selectedFile)?.content ?? ''}
+                               newHtml={selectedContent ?? ''}
+                            />
+                        ) : (
+                            <DiffView oldHtml={baseHtml} newHtml={displayHtml || ''} />
+                        )}
+                    </div>
+                ) : (
+                    <div className="flex-1 min-w-0">
+                        <CodeEditor
+                            key={codeKey}
+                            value={savedCode}
+                            draft={draftOf(codeKey, savedCode)}
+                            language={languageOf(displayFiles ? selectedFile : undefined)}
+                            onDraftChange={(text) => setCodeDrafts(prev => ({ ...prev, [codeKey]: { base: savedCode, text } }))}
+                            onSave={onSaveCode && !isRefining ? (content) => onSaveCode(content, displayFiles ? selectedFile : undefined) : undefined}
+                            runtimeMarkers={displayFiles ? undefined : runtimeMarkers}
+                        />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+
   return (
     <div
       className={`
@@ -476,6 +774,12 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                    </button>
                </div>
            )}
+
+           {!isLoading && creation?.model && (
+               <span className="hidden lg:inline text-[10px] font-mono text-zinc-600 border border-zinc-800 rounded px-1.5 py-0.5" title={describeGeneration(creation)}>
+                   {creation.model}
+               </span>
+           )}
         </div>
         
         {!isLoading && creation && (
@@ -497,7 +801,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                     </button>
                 </div>
 
-                {viewMode === 'preview' && (
+                {viewMode === 'preview' && !compareMode && (
                     <div className="flex items-center bg-zinc-900 rounded-md p-0.5 border border-zinc-800">
                          <button 
                             onClick={() => { setInteractionMode('interact'); setInspectedElement(null); }}
@@ -528,18 +832,101 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
         <div className="flex items-center justify-end space-x-1">
             {!isLoading && creation && (
                 <>
+                    {tokenUsage && <UsageMeter usage={tokenUsage} />}
+
                     <button 
-                        onClick={() => setViewMode(prev => prev === 'preview' ? 'code' : 'preview')}
-                        title={viewMode === 'preview' ? "View Source" : "View App"}
+                        onClick={() => showView(viewMode === 'code' ? 'preview' : 'code')}
+                        title={viewMode === 'code' ? "View App" : "View Source"}
                         className={`p-1.5 rounded-md transition-all ${viewMode === 'code' ? 'bg-blue-500/20 text-blue-400' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                     >
                         <CodeBracketIcon className="w-4 h-4" />
                     </button>
 
-                    {creation.originalImage && (
+                    <button 
+                        onClick={() => showView(viewMode === 'split' ? 'preview' : 'split')}
+                        title={viewMode === 'split' ? "Close Editor" : "Edit Code with Live Preview"}
+                        className={`p-1.5 rounded-md transition-all ${viewMode === 'split' ? 'bg-blue-500/20 text-blue-400' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    >
+                        <CodeBracketSquareIcon className="w-4 h-4" />
+                    </button>
+
+                    {baseHtml !== undefined && viewMode === 'preview' && (
+                        <button 
+                            onClick={() => { setCompareMode(!compareMode); setInteractionMode('interact'); setInspectedElement(null); }}
+                            title={compareMode ? "Exit Comparison" : "Compare Before / After"}
+                            className={`p-1.5 rounded-md transition-all ${compareMode ? 'bg-blue-500/20 text-blue-400' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <ArrowsRightLeftIcon className="w-4 h-4" />
+                        </button>
+                    )}
+
+                    <button 
+                        onClick={() => setShowConsole(!showConsole)}
+                        title={showConsole ? "Hide Console" : consoleErrors.length > 0 ? `Show Console (${consoleErrors.length} errors)` : "Show Console"}
+                        className={`p-1.5 rounded-md transition-all flex items-center gap-1 ${showConsole ? 'bg-zinc-800 text-zinc-100' : consoleErrors.length > 0 ? 'text-red-400 hover:bg-red-500/10' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    >
+                        <BugAntIcon className="w-4 h-4" />
+                        {consoleErrors.length > 0 && <span className="text-[10px] font-mono">{consoleErrors.length}</span>}
+                    </button>
+
+                    {(previewCsp || scanFindings.length > 0) && (
+                        <button 
+                            onClick={() => setShowConsole(true)}
+                            title={securityIssueCount > 0
+                                ? `${scanFindings.length} scan findings${previewCsp ? `, ${blockedRequests.length} blocked requests` : ''}`
+                                : "Isolated preview: nothing blocked"}
+                            className={`p-1.5 rounded-md transition-all flex items-center gap-1 ${securityIssueCount > 0 ? 'text-amber-400 hover:bg-amber-500/10' : 'text-emerald-500/70 hover:bg-zinc-800'}`}
+                        >
+                            {securityIssueCount > 0 ? <ShieldExclamationIcon className="w-4 h-4" /> : <ShieldCheckIcon className="w-4 h-4" />}
+                            {securityIssueCount > 0 && <span className="text-[10px] font-mono">{securityIssueCount}</span>}
+                        </button>
+                    )}
+
+                    <button 
+                        onClick={() => setShowThread(!showThread)}
+                        title={showThread ? "Hide Conversation" : "Show Conversation"}
+                        className={`p-1.5 rounded-md transition-all flex items-center gap-1 ${showThread ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                    >
+                        <ChatBubbleLeftRightIcon className="w-4 h-4" />
+                        {creation.thread && creation.thread.length > 0 && <span className="text-[10px] font-mono">{creation.thread.length}</span>}
+                    </button>
+
+                    {creation.revisions && creation.revisions.length > 0 && (
+                        <button 
+                            onClick={() => setShowTimeline(!showTimeline)}
+                            title={showTimeline ? "Hide Timeline" : "Show Timeline"}
+                            className={`p-1.5 rounded-md transition-all flex items-center gap-1 ${showTimeline ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+                        >
+                            <ClockIcon className="w-4 h-4" />
+                            <span className="text-[10px] font-mono">{creation.revisions.length}</span>
+                        </button>
+                    )}
+
+                    {onFork && (
+                        <button 
+                            onClick={() => onFork()}
+                            disabled={isRefining || !!pendingHtml}
+                            title="Fork into a new variant"
+                            className="p-1.5 rounded-md transition-all text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 disabled:opacity-30"
+                        >
+                            <ShareIcon className="w-4 h-4" />
+                        </button>
+                    )}
+
+                    {onCompareSiblings && (
+                        <button 
+                            onClick={onCompareSiblings}
+                            title="Compare with sibling variants"
+                            className="p-1.5 rounded-md transition-all text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                        >
+                            <Square2StackIcon className="w-4 h-4" />
+                        </button>
+                    )}
+
+                    {attachments.length > 0 && (
                          <button 
                             onClick={() => setShowSplitView(!showSplitView)}
-                            title={showSplitView ? "Hide Source Image" : "Show Source Image"}
+                            title={showSplitView ? "Hide Sources" : "Show Sources"}
                             className={`p-1.5 rounded-md transition-all ${showSplitView ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
                         >
                             <ViewColumnsIcon className="w-4 h-4" />
@@ -556,6 +943,29 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                         <CommandLineIcon className="w-4 h-4" />
                     </button>
 
+                    <button 
+                        onClick={handleExportZip} 
+                        title={creation.files ? `Download project .zip (${creation.files.length} files)` : "Download .zip"}
+                        className="text-zinc-500 hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-800"
+                    >
+                        <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+                    </button>
+
+                    {onExportProject && (
+                        <button 
+                            onClick={onExportProject} 
+                            disabled={isExporting || isRefining}
+                            title={isExporting ? "Converting to a Vite + React project..." : "Export as Vite + React project"}
+                            className="text-zinc-500 hover:text-zinc-300 transition-colors p-1.5 rounded-md hover:bg-zinc-800 disabled:hover:bg-transparent disabled:cursor-wait"
+                        >
+                            {isExporting ? (
+                                <div className="w-4 h-4 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                            ) : (
+                                <CubeIcon className="w-4 h-4" />
+                            )}
+                        </button>
+                    )}
+
                     <button 
                         onClick={handleExportJson} 
                         title="Export Artifact"
@@ -574,6 +984,14 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                  <div className="flex flex-col items-center space-y-4">
                      <div className="w-10 h-10 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                      <p className="text-zinc-200 font-mono text-sm">Refining with Gemini...</p>
+                     {onCancel && (
+                         <button
+                            onClick={onCancel}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-zinc-700 bg-zinc-900/80 text-zinc-300 hover:text-white hover:border-red-500/50 hover:bg-red-500/10 text-xs font-medium transition-colors"
+                         >
+                             <StopIcon className="w-3.5 h-3.5" /> Stop
+                         </button>
+                     )}
                  </div>
              </div>
         )}
@@ -593,7 +1011,19 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                     </button>
                 </div>
                 
-                {editAction ? (
+                {(editAction === 'color' || editAction === 'size') && contextMenu.targetElementId && onDirectEdit && onEditElement ? (
+                     <DirectEditControls
+                        kind={editAction}
+                        computedStyles={contextMenu.targetStyles || {}}
+                        onPreview={(styles) => postToPreview(previewStyleMessage(contextMenu.targetElementId!, styles))}
+                        onApply={applyDirectStyles}
+                        onDescribe={describeEdit}
+                        onBack={() => {
+                            postToPreview(revertMessage(contextMenu.targetElementId!));
+                            setEditAction(null);
+                        }}
+                     />
+                ) : editAction ? (
                      <div className="p-3">
                          <label className="block text-[10px] font-medium text-zinc-500 mb-1.5 uppercase tracking-wider">
                              {editAction === 'text' ? 'New Content' : editAction === 'color' ? 'Color / Style' : 'Dimensions'}
@@ -648,7 +1078,84 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
             </div>
         )}
 
-        {isLoading ? (
+        {variants.length > 0 ? (
+          <div className="absolute inset-0 flex flex-col w-full">
+              <div className="px-4 py-2 border-b border-zinc-800 flex items-center justify-between text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                  <span>
+                      {variants.length} Variants · {variants.filter(v => v.status !== 'streaming').length} finished
+                  </span>
+                  {isLoading ? (
+                      onCancel && (
+                          <button
+                              onClick={onCancel}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:border-red-500/50 hover:bg-red-500/10 transition-colors"
+                          >
+                              <StopIcon className="w-3 h-3" /> Stop
+                          </button>
+                      )
+                  ) : (
+                      <span className="text-zinc-400 normal-case tracking-normal">Pick one to continue; the others are kept as variants</span>
+                  )}
+              </div>
+              <div className={`flex-1 overflow-y-auto p-4 grid gap-4 grid-cols-1 md:grid-cols-2 ${variants.length === 3 ? 'xl:grid-cols-3' : variants.length >= 4 ? 'xl:grid-cols-4' : ''} auto-rows-fr custom-scrollbar`}>
+                  {variants.map(variant => (
+                      <VariantThumbnail
+                          key={variant.id}
+                          variant={variant}
+                          previewCsp={previewCsp}
+                          scanAllowlist={scanAllowlist}
+                          holdRiskyPreviews={holdRiskyPreviews}
+                          canPromote={!isLoading}
+                          onPromote={() => onPromoteVariant?.(variant.id)}
+                      />
+                  ))}
+              </div>
+          </div>
+        ) : isLoading && streamingHtml ? (
+          <div className="absolute inset-0 flex flex-col md:flex-row w-full">
+              {/* Held previews only show the code until the finished document has been scanned */}
+              {!holdRiskyPreviews && (
+                  <div className="relative flex-1 h-1/2 md:h-full bg-white">
+                      <div className="absolute top-3 left-3 z-10 flex items-center gap-2 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">
+                          <div className="w-1.5 h-1.5 bg-blue-400 rounded-full animate-pulse"></div>
+                          Streaming Preview
+                      </div>
+                      {streamPreviewHtml && (
+                          <PreviewFrame
+                              title="Streaming Preview"
+                              html={streamPreviewHtml}
+                              csp={previewCsp}
+                              className="w-full h-full"
+                              sandbox="allow-scripts"
+                          />
+                      )}
+                  </div>
+              )}
+              <div className={`bg-zinc-950 flex flex-col ${holdRiskyPreviews ? 'w-full h-full' : 'w-full md:w-2/5 h-1/2 md:h-full border-t md:border-t-0 md:border-l border-zinc-800'}`}>
+                  <div className="px-4 py-2 border-b border-zinc-800 flex items-center justify-between text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                      <span>Live Code{holdRiskyPreviews && <span className="ml-2 normal-case tracking-normal text-zinc-600">Preview shown after the security scan</span>}</span>
+                      <div className="flex items-center gap-3">
+                          <span>{streamingHtml.length.toLocaleString()} chars</span>
+                          {onCancel && (
+                              <button
+                                  onClick={onCancel}
+                                  className="flex items-center gap-1 px-2 py-0.5 rounded border border-zinc-700 text-zinc-400 hover:text-white hover:border-red-500/50 hover:bg-red-500/10 transition-colors"
+                                  title="Stop generating"
+                              >
+                                  <StopIcon className="w-3 h-3" /> Stop
+                              </button>
+                          )}
+                      </div>
+                  </div>
+                  <div ref={streamCodeRef} className="flex-1 overflow-auto p-4 font-mono text-[12px] leading-relaxed text-zinc-400 custom-scrollbar">
+                      <pre className="whitespace-pre-wrap break-all">
+                          {streamingHtml}
+                          <span className="inline-block w-2 h-3.5 bg-blue-400 align-middle animate-pulse"></span>
+                      </pre>
+                  </div>
+              </div>
+          </div>
+        ) : isLoading ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full">
              <div className="w-full max-w-md space-y-8">
                 <div className="flex flex-col items-center">
@@ -668,6 +1175,16 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
                      <LoadingStep text="Injecting logic" active={loadingStep === 2} completed={loadingStep > 2} />
                      <LoadingStep text="Booting app" active={loadingStep === 3} completed={loadingStep > 3} />
                  </div>
+                 {onCancel && (
+                     <div className="flex justify-center">
+                         <button
+                            onClick={onCancel}
+                            className="flex items-center gap-1.5 px-4 py-2 rounded-lg border border-zinc-800 text-zinc-400 hover:text-white hover:border-red-500/50 hover:bg-red-500/10 font-mono text-xs uppercase tracking-wider transition-colors"
+                         >
+                             <StopIcon className="w-4 h-4" /> Stop
+                         </button>
+                     </div>
+                 )}
              </div>
           </div>
         ) : error ? (
@@ -686,96 +1203,250 @@ export const LivePreview: React.FC<LivePreviewProps> = ({
             </div>
         ) : creation?.html ? (
           <>
-            {showSplitView && creation.originalImage && (
+            {showSplitView && activeSource && (
                 <div className="w-full md:w-1/2 h-full border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
-                    <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">Source Asset</div>
-                    <div className="w-full h-full p-6 flex items-center justify-center overflow-hidden">
-                        {creation.originalImage.startsWith('data:application/pdf') ? (
-                            <PdfRenderer dataUrl={creation.originalImage} />
+                    {attachments.length > 1 ? (
+                        <div className="flex gap-1 px-3 py-2 border-b border-zinc-800 overflow-x-auto custom-scrollbar shrink-0">
+                            {attachments.map((attachment, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => setSourceIndex(i)}
+                                    title={attachment.name}
+                                    className={`px-2 py-1 rounded text-[10px] font-mono whitespace-nowrap max-w-[10rem] truncate transition-colors ${
+                                        i === activeSourceIndex ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-900'
+                                    }`}
+                                >
+                                    {i + 1}. {attachment.name}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">Source Asset</div>
+                    )}
+                    <div className="w-full flex-1 min-h-0 p-6 flex items-center justify-center overflow-hidden">
+                        {isPdfAttachment(activeSource) ? (
+                            <PdfViewer
+                                attachment={activeSource}
+                                onChange={onUpdateAttachment && !isRefining ? (updated) => onUpdateAttachment(activeSourceIndex, updated) : undefined}
+                            />
                         ) : (
-                            <img src={creation.originalImage} alt="Input" className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded" />
+                            <img src={activeSource.dataUrl} alt={activeSource.name} className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded" />
                         )}
                     </div>
                 </div>
             )}
 
-            <div className={`relative h-full bg-zinc-900/50 flex items-center justify-center overflow-auto ${showSplitView && creation.originalImage ? 'w-full md:w-1/2' : 'w-full'}`}>
-                 {viewMode === 'preview' ? (
-                     <div 
-                        className={`transition-all duration-300 bg-white shadow-2xl overflow-hidden ${deviceMode === 'mobile' ? 'w-[375px] h-[667px] rounded-[3rem] border-[12px] border-zinc-800 relative' : 'w-full h-full'}`}
-                     >
-                         {deviceMode === 'mobile' && (
-                             <div className="absolute top-0 left-1/2 -translate-x-1/2 w-32 h-6 bg-zinc-800 rounded-b-2xl z-20"></div>
-                         )}
-                         <iframe
-                            ref={iframeRef}
-                            title="Live Preview"
-                            srcDoc={creation.html}
-                            className="w-full h-full"
-                            sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
-                        />
+            <div className={`relative h-full bg-zinc-900/50 flex items-center justify-center overflow-auto ${showSplitView && activeSource ? 'w-full md:w-1/2' : 'w-full'}`}>
+                 {viewMode === 'split' ? (
+                     <div className="w-full h-full flex">
+                         <div className="w-1/2 h-full min-w-0 border-r border-zinc-800">{codePane}</div>
+                         <div className="w-1/2 h-full min-w-0 flex items-center justify-center overflow-auto">{isPreviewHeld ? heldNotice : previewFrame}</div>
                      </div>
-                 ) : (
-                     <div className="w-full h-full p-6 overflow-auto bg-zinc-950 font-mono text-[13px] leading-relaxed text-zinc-300">
-                         <div className="max-w-4xl mx-auto">
-                            <pre className="whitespace-pre-wrap break-all selection:bg-blue-500/30">
-                                {creation.html}
-                            </pre>
-                         </div>
+                 ) : viewMode === 'preview' && isPreviewHeld ? (
+                     heldNotice
+                 ) : viewMode === 'preview' && compareMode && baseHtml !== undefined ? (
+                     <div className="w-full h-full flex gap-px bg-zinc-800">
+                         {[{ label: 'Before', html: baseHtml }, { label: pendingHtml ? 'Proposed' : 'After', html: displayHtml }].map(side => (
+                             <div key={side.label} className="relative flex-1 h-full bg-white">
+                                 <div className="absolute top-3 left-3 z-10 bg-black/80 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800">{side.label}</div>
+                                 <ScannedPreviewFrame
+                                    title={`${side.label} Preview`}
+                                    html={side.html}
+                                    csp={previewCsp}
+                                    hold={holdRiskyPreviews && side.html !== acknowledgedHtml}
+                                    scanAllowlist={scanAllowlist}
+                                    className="w-full h-full"
+                                    sandbox="allow-scripts allow-forms allow-modals"
+                                 />
+                             </div>
+                         ))}
                      </div>
+                 ) : viewMode === 'preview' ? (
+                     previewFrame
+                 ) : (
+                     codePane
                  )}
             </div>
             
-            {interactionMode === 'inspect' && inspectedElement && (
-                <div className="absolute top-4 left-4 z-50 w-72 bg-zinc-900/95 backdrop-blur-md border border-zinc-700 rounded-xl p-4 shadow-2xl text-[11px] font-mono text-zinc-300 overflow-hidden animate-in fade-in slide-in-from-left-4">
-                    <div className="flex items-center justify-between mb-3 border-b border-zinc-800 pb-2">
-                        <div className="flex items-center gap-2">
-                             <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></div>
-                             <span className="font-bold text-blue-400 uppercase text-xs">Inspector</span>
-                        </div>
-                        <button onClick={() => setInspectedElement(null)}>
+            {showTimeline && creation.revisions && (
+                <div className="w-72 h-full shrink-0 border-l border-zinc-800 bg-[#0c0c0e] flex flex-col animate-in fade-in slide-in-from-right-4 duration-200">
+                    <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+                        <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Timeline</span>
+                        <button onClick={() => setShowTimeline(false)}>
                             <XMarkIcon className="w-3 h-3 text-zinc-600 hover:text-zinc-400" />
                         </button>
                     </div>
-                    
-                    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1 custom-scrollbar">
-                        {/* HTML Tag Representation */}
-                        <div className="bg-zinc-950/50 p-2.5 rounded border border-zinc-800 font-mono text-[10px] break-all">
-                             <span className="text-blue-400">&lt;{inspectedElement.tagName}</span>
-                             {inspectedElement.id && (
-                                <> <span className="text-orange-300">id</span><span className="text-zinc-500">=</span><span className="text-green-300">"{inspectedElement.id}"</span></>
-                             )}
-                             {inspectedElement.className && (
-                                <> <span className="text-orange-300">class</span><span className="text-zinc-500">=</span><span className="text-green-300">"{inspectedElement.className}"</span></>
-                             )}
-                             <span className="text-blue-400">&gt;</span>
-                        </div>
-                        
-                        <div className="space-y-2">
-                            <span className="text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Computed Styles</span>
-                            <div className="grid grid-cols-1 gap-1.5">
-                                {Object.entries(inspectedElement.computedStyles).map(([key, value]) => (
-                                    <div key={key} className="flex justify-between items-center py-1 border-b border-zinc-800/50 last:border-0">
-                                        <span className="text-zinc-500">{key.replace(/([A-Z])/g, '-$1').toLowerCase()}</span>
-                                        <span className="text-zinc-200 text-right truncate max-w-[120px]" title={value}>{value}</span>
+                    <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+                        {creation.revisions.map((revision, index) => {
+                            const isCurrent = revision.id === creation.revisionId;
+                            const parentIndex = creation.revisions!.findIndex(r => r.id === revision.parentId);
+                            return (
+                                <div key={revision.id} className="relative group/revision">
+                                <button
+                                    onClick={() => onSelectRevision?.(revision.id)}
+                                    disabled={isRefining || !!pendingHtml}
+                                    className={`w-full text-left px-3 py-2 rounded-md border transition-colors ${isCurrent ? 'border-blue-500/50 bg-blue-500/10' : 'border-transparent hover:bg-zinc-800/60'}`}
+                                >
+                                    <div className="flex items-center justify-between text-[10px] font-mono">
+                                        <span className={isCurrent ? 'text-blue-400' : 'text-zinc-500'}>
+                                            v{index + 1}{parentIndex >= 0 && parentIndex !== index - 1 ? ` ← v${parentIndex + 1}` : ''}
+                                        </span>
+                                        <span className="text-zinc-600">{revision.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                                     </div>
-                                ))}
-                            </div>
-                        </div>
+                                    <p className={`text-xs mt-1 line-clamp-2 ${isCurrent ? 'text-zinc-200' : 'text-zinc-400'}`}>
+                                        {revision.instruction || 'Initial version'}
+                                    </p>
+                                    {revision.model && (
+                                        <p className="text-[10px] font-mono text-zinc-600 mt-1 truncate pr-5">{revision.model}</p>
+                                    )}
+                                    {revision.usage && <RevisionUsage usage={revision.usage} />}
+                                </button>
+                                {onFork && !pendingHtml && (
+                                    <button
+                                        onClick={() => onFork(revision.id)}
+                                        title="Fork from this revision"
+                                        className="absolute bottom-2 right-2 p-1 rounded text-zinc-600 hover:text-zinc-200 hover:bg-zinc-700 opacity-0 group-hover/revision:opacity-100 transition-opacity"
+                                    >
+                                        <ShareIcon className="w-3 h-3" />
+                                    </button>
+                                )}
+                                </div>
+                            );
+                        }).reverse()}
+                    </div>
+                </div>
+            )}
+
+            {showThread && (
+                <RefinementThread
+                    turns={creation.thread ?? []}
+                    constraints={creation.constraints ?? []}
+                    pendingRequests={pendingRequests}
+                    activeRequest={activeRequest}
+                    canSend={!isRefining && !pendingHtml}
+                    onSend={onRefine}
+                    onUpdateConstraints={onUpdateConstraints}
+                    onSelectRevision={isRefining || pendingHtml ? undefined : onSelectRevision}
+                    onClose={() => setShowThread(false)}
+                />
+            )}
 
-                        {inspectedElement.text && (
+            {showConsole && (
+                <div className="w-80 h-full shrink-0 border-l border-zinc-800 bg-[#0c0c0e] flex flex-col animate-in fade-in slide-in-from-right-4 duration-200">
+                    <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+                        <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Console</span>
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setConsoleEntries([])} title="Clear">
+                                <NoSymbolIcon className="w-3 h-3 text-zinc-600 hover:text-zinc-400" />
+                            </button>
+                            <button onClick={() => setShowConsole(false)}>
+                                <XMarkIcon className="w-3 h-3 text-zinc-600 hover:text-zinc-400" />
+                            </button>
+                        </div>
+                    </div>
+                    {onFixErrors && (
+                        <div className="px-3 py-2 border-b border-zinc-800 flex items-center justify-between gap-2">
+                            <label className="flex items-center gap-1.5 text-[10px] font-mono text-zinc-500 cursor-pointer select-none" title={`Fix new errors automatically, up to ${AUTO_FIX_BUDGET} attempts per revision`}>
+                                <input type="checkbox" checked={autoFix} onChange={(e) => setAutoFix(e.target.checked)} className="accent-blue-500" />
+                                Auto-fix{autoFix && autoFixCount > 0 ? ` (${autoFixCount}/${AUTO_FIX_BUDGET})` : ''}
+                            </label>
+                            <button
+                                onClick={() => onFixErrors(consoleErrors)}
+                                disabled={consoleErrors.length === 0 || isRefining}
+                                className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-medium text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 transition-colors"
+                            >
+                                <WrenchScrewdriverIcon className="w-3 h-3" /> Fix errors
+                            </button>
+                        </div>
+                    )}
+                    {scanFindings.length > 0 && (
+                        <div className="px-3 py-2 border-b border-zinc-800 max-h-48 overflow-y-auto custom-scrollbar">
+                            <div className="flex items-center gap-1.5 mb-1.5 text-[10px] font-bold uppercase tracking-widest text-amber-400/80">
+                                <ShieldExclamationIcon className="w-3 h-3" /> Scan findings
+                            </div>
                             <div className="space-y-1">
-                                <span className="text-zinc-500 uppercase text-[9px] font-bold tracking-widest">Inner Text</span>
-                                <p className="text-zinc-400 italic bg-zinc-950/50 p-2 rounded leading-tight">
-                                    "{inspectedElement.text}"
-                                </p>
+                                {scanFindings.map((finding, i) => <ScanFindingRow key={i} finding={finding} />)}
                             </div>
-                        )}
+                        </div>
+                    )}
+                    {blockedRequests.length > 0 && (
+                        <div className="px-3 py-2 border-b border-zinc-800 max-h-40 overflow-y-auto custom-scrollbar">
+                            <div className="flex items-center gap-1.5 mb-1.5 text-[10px] font-bold uppercase tracking-widest text-amber-400/80">
+                                <ShieldExclamationIcon className="w-3 h-3" /> Blocked by CSP
+                            </div>
+                            {blockedRequests.map(request => (
+                                <div key={`${request.directive} ${request.url}`} className="flex items-start gap-2 py-0.5 font-mono text-[10px]">
+                                    <span className="shrink-0 text-zinc-500">{request.directive}</span>
+                                    <span className="flex-1 min-w-0 break-all text-amber-200/90">{request.url}</span>
+                                    {request.count > 1 && <span className="shrink-0 text-zinc-600">×{request.count}</span>}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex-1 overflow-y-auto p-2 space-y-1 font-mono text-[11px] custom-scrollbar">
+                        {consoleEntries.length === 0 ? (
+                            <p className="px-2 py-4 text-center text-zinc-600">
+                                {viewMode === 'preview' && !compareMode ? 'No console output' : 'Console output is captured from the preview'}
+                            </p>
+                        ) : consoleEntries.map((entry, i) => (
+                            <div key={i} className={`px-2 py-1.5 rounded border ${CONSOLE_LEVEL_STYLES[entry.level]}`}>
+                                <div className="flex items-start gap-2">
+                                    <pre className="flex-1 min-w-0 whitespace-pre-wrap break-words">{entry.message}</pre>
+                                    {entry.count > 1 && <span className="shrink-0 px-1 rounded-full bg-zinc-800 text-zinc-400 text-[9px]">{entry.count}</span>}
+                                </div>
+                                {entry.location && <p className="mt-0.5 text-[9px] text-zinc-600">line {entry.location}</p>}
+                            </div>
+                        ))}
                     </div>
                 </div>
             )}
+
+            {interactionMode === 'inspect' && inspectedElement && (
+                <Inspector
+                    key={inspectedElement.elementId ?? 'unanchored'}
+                    element={inspectedElement}
+                    onSelect={(elementId) => postToPreview(selectMessage(elementId))}
+                    onPreviewStyles={(elementId, styles) => postToPreview(previewStyleMessage(elementId, styles))}
+                    onPreviewClasses={(elementId, className) => postToPreview(setClassesMessage(elementId, className))}
+                    onRevert={(elementId) => postToPreview(revertMessage(elementId))}
+                    onCommit={onDirectEdit}
+                    onClose={() => setInspectedElement(null)}
+                />
+            )}
             
-            {interactionMode === 'interact' && !isRefining && (
+            {pendingHtml && !isRefining && (
+                <div className="absolute bottom-6 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none">
+                    <div className="w-full max-w-xl pointer-events-auto shadow-2xl shadow-black/50 rounded-full flex items-center gap-2 bg-zinc-900/95 backdrop-blur-md border border-blue-500/40 pl-5 pr-1.5 py-1.5">
+                        <span className="flex-1 text-xs text-zinc-300">Review the refinement before it is saved</span>
+                        <button
+                            onClick={() => { setViewMode('preview'); setCompareMode(!compareMode); }}
+                            className={`px-3 py-1.5 rounded-full text-xs transition-colors ${compareMode ? 'bg-blue-500/20 text-blue-300' : 'text-zinc-400 hover:text-zinc-200'}`}
+                        >
+                            Compare
+                        </button>
+                        <button
+                            onClick={() => { showView('code'); setCodeView('diff'); }}
+                            className="px-3 py-1.5 rounded-full text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                        >
+                            Diff
+                        </button>
+                        <button
+                            onClick={onRejectRefinement}
+                            className="px-3 py-1.5 rounded-full text-xs text-red-300 hover:bg-red-500/10 border border-red-500/30 flex items-center gap-1 transition-colors"
+                        >
+                            <XMarkIcon className="w-3.5 h-3.5" /> Reject
+                        </button>
+                        <button
+                            onClick={onAcceptRefinement}
+                            className="px-3 py-1.5 rounded-full text-xs text-white bg-blue-600 hover:bg-blue-500 flex items-center gap-1 transition-colors"
+                        >
+                            <CheckIcon className="w-3.5 h-3.5" /> Accept
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {interactionMode === 'interact' && !isRefining && !pendingHtml && (
                 <div className="absolute bottom-6 left-0 right-0 z-40 flex justify-center px-4 pointer-events-none">
                     <form 
                         onSubmit={handleRefineSubmit}
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentIcon, ChevronLeftIcon, ChevronRightIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { SourceAttachment } from './CreationHistory';
+import { getPageCount, renderPage, isRenderCancelled, allPages, THUMBNAIL_SCALE } from '../services/pdf';
+import { withPageSelection } from '../services/attachments';
+
+interface PdfPageThumbnailProps {
+  dataUrl: string;
+  page: number;
+  selected: boolean;
+  active?: boolean;
+  onToggle?: () => void;
+  onClick?: () => void;
+}
+
+const PdfPageThumbnail: React.FC<PdfPageThumbnailProps> = ({ dataUrl, page, selected, active, onToggle, onClick }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const render = renderPage(dataUrl, page, canvasRef.current, THUMBNAIL_SCALE);
+    render.promise.catch(e => {
+      if (!isRenderCancelled(e)) console.error(`Thumbnail for page ${page} failed`, e);
+    });
+    return render.cancel;
+  }, [dataUrl, page]);
+
+  return (
+    <div className={`relative shrink-0 w-20 rounded border-2 transition-colors ${active ? 'border-blue-500' : 'border-zinc-800 hover:border-zinc-600'} ${selected ? '' : 'opacity-40'}`}>
+      <button onClick={onClick ?? onToggle} className="block w-full bg-white" title={`Page ${page}`}>
+        <canvas ref={canvasRef} className="w-full h-auto" />
+      </button>
+      {onToggle && (
+        <button
+          onClick={onToggle}
+          title={selected ? "Don't send this page" : "Send this page"}
+          className={`absolute top-1 right-1 w-4 h-4 rounded flex items-center justify-center border ${selected ? 'bg-blue-600 border-blue-500 text-white' : 'bg-black/60 border-zinc-600'}`}
+        >
+          {selected && <CheckIcon className="w-3 h-3" />}
+        </button>
+      )}
+      <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[9px] font-mono text-zinc-300">{page}</span>
+    </div>
+  );
+};
+
+const togglePage = (selection: number[], page: number) =>
+  selection.includes(page) ? selection.filter(p => p !== page) : [...selection, page];
+
+interface PdfViewerProps {
+  attachment: SourceAttachment;
+  onChange?: (attachment: SourceAttachment) => void;
+}
+
+/**
+ * Page-by-page PDF viewer. With `onChange`, the thumbnail strip also edits which pages feed the model.
+ */
+export const PdfViewer: React.FC<PdfViewerProps> = ({ attachment, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { dataUrl } = attachment;
+
+  useEffect(() => {
+    setPage(1);
+    setError(null);
+    getPageCount(dataUrl)
+      .then(setPageCount)
+      .catch(err => {
+        console.error("Error loading PDF:", err);
+        setError("Could not render PDF preview.");
+        setLoading(false);
+      });
+  }, [dataUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !pageCount) return;
+    setLoading(true);
+    // Paging quickly would otherwise overlap renders on the same canvas
+    const render = renderPage(dataUrl, page, canvas);
+    render.promise
+      .then(() => setLoading(false))
+      .catch(err => {
+        if (isRenderCancelled(err)) return;
+        console.error("Error rendering PDF:", err);
+        setError("Could not render PDF preview.");
+        setLoading(false);
+      });
+    return render.cancel;
+  }, [dataUrl, page, pageCount]);
+
+  if (error) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+            <p className="text-sm mb-2 text-red-400/80">{error}</p>
+        </div>
+    );
+  }
+
+  const selection = attachment.pages ?? allPages(pageCount);
+  const toggle = (p: number) => {
+    const next = togglePage(selection, p);
+    if (next.length > 0) onChange?.(withPageSelection(attachment, next, pageCount));
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-3 min-h-0">
+        <div className="relative flex-1 min-h-0 flex items-center justify-center">
+            {loading && (
+                <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+            )}
+            <canvas
+                ref={canvasRef}
+                className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
+            />
+        </div>
+
+        {pageCount > 1 && (
+            <>
+                <div className="flex items-center justify-between text-[10px] font-mono uppercase tracking-wider text-zinc-500 shrink-0">
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30" title="Previous page">
+                            <ChevronLeftIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <span>Page {page} / {pageCount}</span>
+                        <button onClick={() => setPage(p => Math.min(pageCount, p + 1))} disabled={page === pageCount} className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30" title="Next page">
+                            <ChevronRightIcon className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    {onChange && (
+                        <span className={attachment.pages ? 'text-blue-400' : ''}>
+                            {attachment.pages ? `${selection.length} of ${pageCount} pages sent` : 'All pages sent'}
+                        </span>
+                    )}
+                </div>
+                <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar shrink-0">
+                    {allPages(pageCount).map(p => (
+                        <PdfPageThumbnail
+                            key={p}
+                            dataUrl={dataUrl}
+                            page={p}
+                            active={p === page}
+                            selected={selection.includes(p)}
+                            onClick={() => setPage(p)}
+                            onToggle={onChange ? () => toggle(p) : undefined}
+                        />
+                    ))}
+                </div>
+            </>
+        )}
+    </div>
+  );
+};
+
+interface PdfPagePickerProps {
+  attachments: SourceAttachment[]; // Multi-page PDFs awaiting a page selection
+  onConfirm: (attachments: SourceAttachment[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks which pages of each uploaded PDF should feed the generation
+ */
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ attachments, onConfirm, onCancel }) => {
+  const [pageCounts, setPageCounts] = useState<number[]>([]);
+  const [selections, setSelections] = useState<number[][]>([]);
+
+  useEffect(() => {
+    Promise.all(attachments.map(a => getPageCount(a.dataUrl)))
+      .then(counts => {
+        setPageCounts(counts);
+        setSelections(counts.map((count, i) => attachments[i].pages ?? allPages(count)));
+      })
+      .catch(e => {
+        console.error("Failed to read PDF pages", e);
+        onConfirm(attachments);
+      });
+  }, [attachments]);
+
+  const setSelection = (index: number, pages: number[]) => {
+    setSelections(prev => prev.map((s, i) => i === index ? pages : s));
+  };
+
+  const canConfirm = selections.length === attachments.length && selections.every(s => s.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#121214] border border-zinc-800 rounded-xl shadow-2xl animate-in fade-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 flex items-center justify-between border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <DocumentIcon className="w-4 h-4 text-zinc-400" />
+            <h2 className="text-sm font-semibold text-zinc-200">Choose PDF pages</h2>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-zinc-300" title="Cancel">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar">
+          {pageCounts.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+            </div>
+          ) : attachments.map((attachment, i) => (
+            <div key={i} className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-zinc-300 truncate">{attachment.name}</span>
+                <div className="flex items-center gap-3 text-[10px] uppercase tracking-wider shrink-0">
+                  <span className="text-zinc-500">{selections[i].length} / {pageCounts[i]} pages</span>
+                  <button onClick={() => setSelection(i, allPages(pageCounts[i]))} className="text-blue-400 hover:text-blue-300">All</button>
+                  <button onClick={() => setSelection(i, [])} className="text-zinc-500 hover:text-zinc-300">None</button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {allPages(pageCounts[i]).map(page => (
+                  <PdfPageThumbnail
+                    key={page}
+                    dataUrl={attachment.dataUrl}
+                    page={page}
+                    selected={selections[i].includes(page)}
+                    onToggle={() => setSelection(i, togglePage(selections[i], page))}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 flex items-center justify-between border-t border-zinc-800">
+          <p className="text-[11px] text-zinc-500">Selected pages are sent to the model as images.</p>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-3 py-1.5 rounded-md text-xs text-zinc-400 hover:text-white hover:bg-zinc-800">Cancel</button>
+            <button
+              onClick={() => onConfirm(attachments.map((a, i) => withPageSelection(a, selections[i], pageCounts[i])))}
+              disabled={!canConfirm}
+              className="px-3 py-1.5 rounded-md text-xs font-medium bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-30"
+            >
+              Generate
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShieldExclamationIcon, EyeIcon } from '@heroicons/react/24/outline';
+import { injectCsp } from '../services/previewCsp';
+import { SCAN_RULES, scanHtml } from '../services/securityScan';
+
+interface PreviewFrameProps {
+  html: string;
+  csp?: string; // Isolated preview mode: served from a blob: URL under this policy
+  title: string;
+  sandbox: string;
+  className?: string;
+  frameRef?: React.Ref<HTMLIFrameElement>;
+}
+
+/**
+ * Iframe for generated code. Every frame that runs model output goes through here, so isolated
+ * preview mode applies to all of them: streaming previews, variant thumbnails and comparisons alike.
+ */
+export const PreviewFrame: React.FC<PreviewFrameProps> = ({ html, csp, title, sandbox, className, frameRef }) => {
+  const document = useMemo(() => csp ? injectCsp(html, csp) : html, [html, csp]);
+  // A blob: document is a real navigation rather than about:srcdoc, so only the policy above applies to it
+  const url = useMemo(
+    () => csp ? URL.createObjectURL(new Blob([document], { type: 'text/html' })) : undefined,
+    [document, csp]
+  );
+
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url);
+  }, [url]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={title}
+      src={url}
+      srcDoc={url ? undefined : document}
+      className={className}
+      sandbox={sandbox}
+    />
+  );
+};
+
+interface ScannedPreviewFrameProps extends PreviewFrameProps {
+  hold: boolean; // "Hold risky previews" is on
+  scanAllowlist?: string[];
+}
+
+/**
+ * PreviewFrame for secondary previews (variant thumbnails, comparisons). With `hold`, a document with
+ * high-severity scan findings is replaced by a compact notice until the user renders it anyway.
+ * Callers place it in a positioned container, which the notice fills.
+ */
+export const ScannedPreviewFrame: React.FC<ScannedPreviewFrameProps> = ({ hold, scanAllowlist, ...frame }) => {
+  const [acknowledgedHtml, setAcknowledgedHtml] = useState<string | null>(null);
+  const risky = useMemo(
+    () => hold ? scanHtml(frame.html, scanAllowlist).filter(finding => finding.severity === 'high') : [],
+    [hold, frame.html, scanAllowlist]
+  );
+
+  if (risky.length === 0 || acknowledgedHtml === frame.html) return <PreviewFrame {...frame} />;
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 bg-[#0c0c0e] text-center">
+      <ShieldExclamationIcon className="w-5 h-5 text-red-400" />
+      <p className="text-xs font-medium text-zinc-200">Preview held for review</p>
+      <p className="text-[11px] text-zinc-500">{[...new Set(risky.map(finding => SCAN_RULES[finding.rule].label))].join(', ')}</p>
+      <button
+        onClick={() => setAcknowledgedHtml(frame.html)}
+        className="mt-1 bg-red-600 hover:bg-red-500 text-white text-[11px] font-medium px-2.5 py-1 rounded-md flex items-center gap-1.5 transition-colors"
+      >
+        <EyeIcon className="w-3.5 h-3.5" /> Render anyway
+      </button>
+    </div>
+  );
+};
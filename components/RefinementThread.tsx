@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { XMarkIcon, PaperAirplaneIcon, MapPinIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { RefinementTurn } from './CreationHistory';
+
+interface RefinementThreadProps {
+  turns: RefinementTurn[];
+  constraints: string[];
+  pendingRequests: string[]; // Requests of the proposal under review
+  activeRequest?: string | null; // Being refined now
+  canSend: boolean;
+  onSend: (instruction: string) => void;
+  onUpdateConstraints?: (constraints: string[]) => void;
+  onSelectRevision?: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const RequestBubble: React.FC<{ text: string; onPin?: () => void }> = ({ text, onPin }) => (
+  <div className="group/request flex justify-end items-start gap-1">
+    {onPin && (
+      <button
+        onClick={onPin}
+        title="Pin as a constraint"
+        className="mt-1 p-1 rounded text-zinc-600 hover:text-zinc-200 hover:bg-zinc-800 opacity-0 group-hover/request:opacity-100 transition-opacity"
+      >
+        <MapPinIcon className="w-3 h-3" />
+      </button>
+    )}
+    <p className="max-w-[85%] px-3 py-2 rounded-lg rounded-br-sm bg-blue-600/20 border border-blue-500/30 text-xs text-zinc-200 whitespace-pre-wrap break-words">
+      {text}
+    </p>
+  </div>
+);
+
+const ReplyBubble: React.FC<{ children: React.ReactNode; className?: string; onClick?: () => void; title?: string }> = ({ children, className = '', onClick, title }) => (
+  <div className="flex justify-start">
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      title={title}
+      className={`max-w-[85%] text-left px-3 py-2 rounded-lg rounded-bl-sm border text-[11px] transition-colors ${className}`}
+    >
+      {children}
+    </button>
+  </div>
+);
+
+/**
+ * Side panel with the refinement conversation of a creation: each request, whether its proposal
+ * was applied or rejected, and the pinned constraints that accompany every refinement.
+ */
+export const RefinementThread: React.FC<RefinementThreadProps> = ({
+  turns, constraints, pendingRequests, activeRequest, canSend, onSend, onUpdateConstraints, onSelectRevision, onClose
+}) => {
+  const [message, setMessage] = useState('');
+  const [newConstraint, setNewConstraint] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [turns.length, pendingRequests.length, activeRequest]);
+
+  const pin = (text: string) => {
+    const constraint = text.trim();
+    if (constraint && !constraints.includes(constraint)) onUpdateConstraints?.([...constraints, constraint]);
+  };
+
+  const unpin = (index: number) => onUpdateConstraints?.(constraints.filter((_, i) => i !== index));
+
+  const send = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim() || !canSend) return;
+    onSend(message.trim());
+    setMessage('');
+  };
+
+  const pinRequest = onUpdateConstraints ? pin : undefined;
+  const isEmpty = turns.length === 0 && pendingRequests.length === 0 && !activeRequest;
+
+  return (
+    <div className="w-80 h-full shrink-0 border-l border-zinc-800 bg-[#0c0c0e] flex flex-col animate-in fade-in slide-in-from-right-4 duration-200">
+      <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">Conversation</span>
+        <button onClick={onClose}>
+          <XMarkIcon className="w-3 h-3 text-zinc-600 hover:text-zinc-400" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 border-b border-zinc-800">
+        <div className="flex items-center gap-1.5 mb-1.5 text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+          <MapPinIcon className="w-3 h-3" /> Pinned constraints
+        </div>
+        {constraints.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-1.5">
+            {constraints.map((constraint, i) => (
+              <span key={constraint} className="flex items-center gap-1 max-w-full pl-2 pr-1 py-0.5 rounded bg-amber-500/10 border border-amber-500/20 text-[11px] text-amber-200/90">
+                <span className="truncate" title={constraint}>{constraint}</span>
+                {onUpdateConstraints && (
+                  <button onClick={() => unpin(i)} title="Unpin" className="shrink-0 text-amber-200/50 hover:text-amber-100">
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {onUpdateConstraints && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); pin(newConstraint); setNewConstraint(''); }}
+            className="flex items-center gap-1"
+          >
+            <input
+              value={newConstraint}
+              onChange={(e) => setNewConstraint(e.target.value)}
+              placeholder="e.g. Keep the dark colour scheme"
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-[11px] text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+            />
+            <button type="submit" disabled={!newConstraint.trim()} title="Pin" className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30">
+              <PlusIcon className="w-3.5 h-3.5" />
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {isEmpty && (
+          <p className="px-2 py-4 text-center text-xs text-zinc-600">
+            Refinements appear here. Earlier requests and pinned constraints are sent along with each new one.
+          </p>
+        )}
+        {turns.map(turn => (
+          <div key={turn.id} className="space-y-1.5">
+            {turn.requests.map((request, i) => <RequestBubble key={i} text={request} onPin={pinRequest && (() => pinRequest(request))} />)}
+            {turn.outcome === 'applied' ? (
+              <ReplyBubble
+                onClick={turn.revisionId && onSelectRevision ? () => onSelectRevision(turn.revisionId!) : undefined}
+                title={turn.revisionId ? "Show this revision" : undefined}
+                className="border-zinc-800 bg-zinc-900 text-zinc-300 enabled:hover:border-zinc-700"
+              >
+                <span className="text-emerald-400">Applied</span>{turn.summary && <span className="text-zinc-500"> · {turn.summary}</span>}
+                <span className="block mt-0.5 text-[9px] font-mono text-zinc-600">{formatTime(turn.timestamp)}</span>
+              </ReplyBubble>
+            ) : (
+              <ReplyBubble className="border-zinc-800 bg-zinc-900/50 text-zinc-400">
+                <span className="text-red-400/80">Rejected</span>{turn.summary && <span className="text-zinc-600"> · {turn.summary}</span>}
+                <span className="block mt-0.5 text-[9px] font-mono text-zinc-600">{formatTime(turn.timestamp)}</span>
+              </ReplyBubble>
+            )}
+          </div>
+        ))}
+        {(pendingRequests.length > 0 || activeRequest) && (
+          <div className="space-y-1.5">
+            {pendingRequests.map((request, i) => <RequestBubble key={i} text={request} onPin={pinRequest && (() => pinRequest(request))} />)}
+            {activeRequest && <RequestBubble text={activeRequest} />}
+            <ReplyBubble className="border-blue-500/30 bg-blue-500/5 text-blue-300">
+              {activeRequest ? <span className="animate-pulse">Refining…</span> : 'Awaiting your review'}
+            </ReplyBubble>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={send} className="p-2 border-t border-zinc-800 flex items-center gap-1.5">
+        <input
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          disabled={!canSend}
+          placeholder={canSend ? "Ask for a change..." : pendingRequests.length > 0 ? "Accept or reject the proposal first" : "Refining..."}
+          className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-md px-2.5 py-1.5 text-xs text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-zinc-600 disabled:opacity-50"
+        />
+        <button type="submit" disabled={!message.trim() || !canSend} className="p-1.5 rounded-md text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-30 disabled:hover:bg-blue-600 transition-colors">
+          <PaperAirplaneIcon className="w-3.5 h-3.5" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { XMarkIcon, Cog6ToothIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { AppSettings } from '../services/settings';
+import { isValidSource } from '../services/previewCsp';
+import { PROVIDER_OPTIONS, GEMINI_MODELS, OutputFormat } from '../services/providers';
+import { SYSTEM_INSTRUCTION, REFINE_SYSTEM_INSTRUCTION, GENERATE_TEMPERATURE, REFINE_TEMPERATURE } from '../services/prompts';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const Field = ({ label, children }: { label: string, children: React.ReactNode }) => (
+    <label className="block space-y-1.5">
+        <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">{label}</span>
+        {children}
+    </label>
+);
+
+const OUTPUT_OPTIONS: { id: OutputFormat; label: string; description: string }[] = [
+    { id: 'html', label: 'Single file', description: 'One self-contained HTML document, streamed as it is written.' },
+    { id: 'project', label: 'Project', description: 'Separate index.html, CSS and JS files, browsable as a tree and exported as a ZIP.' },
+];
+
+const inputClassName = "w-full bg-zinc-950 border border-zinc-700 rounded-md text-xs px-3 py-2 text-zinc-200 placeholder-zinc-600 focus:outline-none focus:border-blue-500";
+
+// Keeps the typed text so the field can be cleared while editing; an empty or invalid field means `unset`
+const NumberInput = ({ value, unset, onChange, placeholder, step }: { value: number, unset: number, onChange: (value: number) => void, placeholder: string, step: number }) => {
+  const [text, setText] = useState(value === unset ? '' : String(value));
+  return (
+      <input
+          type="number"
+          min="0"
+          step={step}
+          value={text}
+          onChange={(e) => {
+              setText(e.target.value);
+              const parsed = parseFloat(e.target.value);
+              onChange(Number.isFinite(parsed) ? parsed : unset);
+          }}
+          placeholder={placeholder}
+          className={inputClassName}
+      />
+  );
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Text matching the built-in instruction is stored as no override, so later changes to the default apply
+const customInstruction = (text: string, builtIn: string) => text.trim() === builtIn ? '' : text.trim();
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+      setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const invalidSources = draft.previewAllowlist.filter(source => source.trim() && !isValidSource(source));
+
+  const handleSave = () => {
+      onSave({
+          ...draft,
+          temperature: clamp(draft.temperature, 0, 2),
+          refineTemperature: clamp(draft.refineTemperature, 0, 2),
+          maxOutputTokens: Math.max(0, Math.round(draft.maxOutputTokens)),
+          thinkingBudget: draft.thinkingBudget < 0 ? -1 : Math.round(draft.thinkingBudget),
+          systemInstruction: customInstruction(draft.systemInstruction, SYSTEM_INSTRUCTION),
+          refineSystemInstruction: customInstruction(draft.refineSystemInstruction, REFINE_SYSTEM_INSTRUCTION),
+          previewAllowlist: draft.previewAllowlist.map(s => s.trim()).filter(isValidSource),
+      });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+        <div
+            className="w-full max-w-md bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-200"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Cog6ToothIcon className="w-4 h-4 text-zinc-400" />
+                    <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Settings</h2>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="p-4 space-y-5 max-h-[70vh] overflow-y-auto">
+                <div className="space-y-2">
+                    <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">Model Provider</span>
+                    {PROVIDER_OPTIONS.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => update('provider', option.id)}
+                            className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                                draft.provider === option.id
+                                ? 'border-blue-500/50 bg-blue-500/10'
+                                : 'border-zinc-800 hover:border-zinc-700 bg-zinc-950/50'
+                            }`}
+                        >
+                            <div className={`text-xs font-medium ${draft.provider === option.id ? 'text-blue-300' : 'text-zinc-300'}`}>{option.label}</div>
+                            <div className="text-[11px] text-zinc-500 mt-0.5">{option.description}</div>
+                        </button>
+                    ))}
+                </div>
+
+                {draft.provider === 'gemini' && (
+                    <div className="animate-in fade-in duration-200">
+                        <span className="block mb-1.5 text-[10px] font-medium text-zinc-500 uppercase tracking-wider">Model</span>
+                        <div className="grid grid-cols-2 gap-2">
+                            {GEMINI_MODELS.map(model => (
+                                <button
+                                    key={model}
+                                    onClick={() => update('geminiModel', model)}
+                                    className={`text-left px-3 py-2 rounded-lg border text-[11px] font-mono transition-colors ${
+                                        draft.geminiModel === model
+                                        ? 'border-blue-500/50 bg-blue-500/10 text-blue-300'
+                                        : 'border-zinc-800 hover:border-zinc-700 bg-zinc-950/50 text-zinc-300'
+                                    }`}
+                                >
+                                    {model}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {draft.provider === 'openai-compatible' && (
+                    <div className="space-y-3 animate-in fade-in duration-200">
+                        <Field label="Base URL">
+                            <input
+                                type="url"
+                                value={draft.openAiBaseUrl}
+                                onChange={(e) => update('openAiBaseUrl', e.target.value)}
+                                placeholder="http://localhost:11434/v1"
+                                className={inputClassName}
+                            />
+                        </Field>
+                        <Field label="Model">
+                            <input
+                                type="text"
+                                value={draft.openAiModel}
+                                onChange={(e) => update('openAiModel', e.target.value)}
+                                placeholder="llama3.2-vision"
+                                className={inputClassName}
+                            />
+                        </Field>
+                        <Field label="API Key (optional)">
+                            <input
+                                type="password"
+                                value={draft.openAiApiKey}
+                                onChange={(e) => update('openAiApiKey', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </Field>
+                    </div>
+                )}
+
+                {draft.provider !== 'fixture' && (
+                    <div className="space-y-3">
+                        <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">Sampling</span>
+                        <div className="grid grid-cols-2 gap-3">
+                            <Field label="Temperature">
+                                <NumberInput value={draft.temperature} unset={GENERATE_TEMPERATURE} step={0.1} placeholder={String(GENERATE_TEMPERATURE)} onChange={(value) => update('temperature', value)} />
+                            </Field>
+                            <Field label="Refine temperature">
+                                <NumberInput value={draft.refineTemperature} unset={REFINE_TEMPERATURE} step={0.1} placeholder={String(REFINE_TEMPERATURE)} onChange={(value) => update('refineTemperature', value)} />
+                            </Field>
+                            <Field label="Max output tokens">
+                                <NumberInput value={draft.maxOutputTokens} unset={0} step={1024} placeholder="Model maximum" onChange={(value) => update('maxOutputTokens', value)} />
+                            </Field>
+                            {draft.provider === 'gemini' && (
+                                <Field label="Thinking budget">
+                                    <NumberInput value={draft.thinkingBudget} unset={-1} step={1024} placeholder="Model default" onChange={(value) => update('thinkingBudget', value)} />
+                                </Field>
+                            )}
+                        </div>
+                        <p className="text-[11px] text-zinc-500">
+                            Temperatures range from 0 to 2. A thinking budget of 0 turns thinking off on models that allow it. Low output limits make large creations refine with patches.
+                        </p>
+                    </div>
+                )}
+
+                {draft.provider !== 'fixture' && (
+                    <div className="space-y-3">
+                        <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">System Instructions</span>
+                        {([
+                            ['systemInstruction', 'Generation (single file)', SYSTEM_INSTRUCTION],
+                            ['refineSystemInstruction', 'Refinement', REFINE_SYSTEM_INSTRUCTION],
+                        ] as const).map(([key, label, builtIn]) => (
+                            <div key={key}>
+                                <div className="flex items-center justify-between mb-1.5">
+                                    <span className="text-[10px] font-medium text-zinc-500 uppercase tracking-wider">
+                                        {label}{customInstruction(draft[key], builtIn) && <span className="ml-1.5 normal-case text-blue-400">custom</span>}
+                                    </span>
+                                    {customInstruction(draft[key], builtIn) && (
+                                        <button onClick={() => update(key, '')} className="text-[10px] text-zinc-500 hover:text-zinc-300">
+                                            Reset to built-in
+                                        </button>
+                                    )}
+                                </div>
+                                <textarea
+                                    value={draft[key] || builtIn}
+                                    onChange={(e) => update(key, e.target.value)}
+                                    rows={key === 'systemInstruction' ? 8 : 3}
+                                    className={`${inputClassName} font-mono text-[11px] resize-y`}
+                                />
+                            </div>
+                        ))}
+                        <p className="text-[11px] text-zinc-500">
+                            Project generation keeps its own instruction, which defines the file format; response format rules are added to refinements as needed. The settings used are saved with each creation.
+                        </p>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">Output</span>
+                    <div className="grid grid-cols-2 gap-2">
+                        {OUTPUT_OPTIONS.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => update('outputFormat', option.id)}
+                                className={`text-left px-3 py-2 rounded-lg border transition-colors ${
+                                    draft.outputFormat === option.id
+                                    ? 'border-blue-500/50 bg-blue-500/10'
+                                    : 'border-zinc-800 hover:border-zinc-700 bg-zinc-950/50'
+                                }`}
+                            >
+                                <div className={`text-xs font-medium ${draft.outputFormat === option.id ? 'text-blue-300' : 'text-zinc-300'}`}>{option.label}</div>
+                                <div className="text-[11px] text-zinc-500 mt-0.5">{option.description}</div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <span className="block text-[10px] font-medium text-zinc-500 uppercase tracking-wider">Preview</span>
+                    <button
+                        onClick={() => update('isolatedPreview', !draft.isolatedPreview)}
+                        className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                            draft.isolatedPreview
+                            ? 'border-blue-500/50 bg-blue-500/10'
+                            : 'border-zinc-800 hover:border-zinc-700 bg-zinc-950/50'
+                        }`}
+                    >
+                        <div className={`text-xs font-medium ${draft.isolatedPreview ? 'text-blue-300' : 'text-zinc-300'}`}>
+                            Isolated preview {draft.isolatedPreview ? 'on' : 'off'}
+                        </div>
+                        <div className="text-[11px] text-zinc-500 mt-0.5">
+                            Serve previews from their own blob: origin under a strict Content-Security-Policy: no network requests, external resources only from the allowlist. Blocked requests are listed in the console panel.
+                        </div>
+                    </button>
+                    {draft.isolatedPreview && (
+                        <div className="animate-in fade-in duration-200">
+                            <Field label="Allowed origins (one per line)">
+                                <textarea
+                                    value={draft.previewAllowlist.join('\n')}
+                                    onChange={(e) => update('previewAllowlist', e.target.value.split('\n'))}
+                                    rows={3}
+                                    placeholder="https://cdn.tailwindcss.com"
+                                    className={`${inputClassName} font-mono resize-none`}
+                                />
+                            </Field>
+                            {invalidSources.length > 0 && (
+                                <p className="mt-1 text-[11px] text-amber-400">Ignored (not an origin): {invalidSources.join(', ')}</p>
+                            )}
+                        </div>
+                    )}
+                    <button
+                        onClick={() => update('holdRiskyPreviews', !draft.holdRiskyPreviews)}
+                        className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                            draft.holdRiskyPreviews
+                            ? 'border-blue-500/50 bg-blue-500/10'
+                            : 'border-zinc-800 hover:border-zinc-700 bg-zinc-950/50'
+                        }`}
+                    >
+                        <div className={`text-xs font-medium ${draft.holdRiskyPreviews ? 'text-blue-300' : 'text-zinc-300'}`}>
+                            Hold risky previews {draft.holdRiskyPreviews ? 'on' : 'off'}
+                        </div>
+                        <div className="text-[11px] text-zinc-500 mt-0.5">
+                            Generated code is scanned before it renders. When the scan finds a high-severity issue (non-allowlisted scripts, remote form posts, access to the embedding page), show the findings first and only render after you confirm.
+                        </div>
+                    </button>
+                </div>
+            </div>
+
+            <div className="px-4 py-3 border-t border-zinc-800 flex justify-end gap-2">
+                <button onClick={onClose} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium px-3 py-1.5 rounded-md flex items-center gap-1.5 transition-colors"
+                >
+                    <CheckIcon className="w-3.5 h-3.5" /> Save
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon, CircleStackIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { StorageUsage, getCreationSizes, formatBytes } from '../services/storage';
+
+interface StorageManagerProps {
+  history: Creation[];
+  usage: StorageUsage | null;
+  isFull: boolean;
+  onDelete: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Eviction is always an explicit user decision: when storage is full the dialog
+ * pre-selects the oldest creations, but nothing is removed until the user confirms.
+ */
+export const StorageManager: React.FC<StorageManagerProps> = ({ history, usage, isFull, onDelete, onClose }) => {
+  const [sizes, setSizes] = useState<Record<string, number>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Oldest first: those are the suggested eviction candidates
+  const candidates = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  useEffect(() => {
+    getCreationSizes().then(setSizes).catch(e => console.error("Failed to measure creations", e));
+  }, [history]);
+
+  useEffect(() => {
+    if (isFull && candidates.length > 1) setSelected(new Set([candidates[0].id]));
+  }, [isFull]);
+
+  const toggle = (id: string) => {
+      setSelected(prev => {
+          const next = new Set(prev);
+          if (next.has(id)) next.delete(id); else next.add(id);
+          return next;
+      });
+  };
+
+  const selectedBytes = [...selected].reduce((sum, id) => sum + (sizes[id] || 0), 0);
+  const ratio = usage && usage.quota ? usage.usage / usage.quota : 0;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+        <div
+            className="w-full max-w-lg bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-200"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <CircleStackIcon className="w-4 h-4 text-zinc-400" />
+                    <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Storage</h2>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+                {isFull && (
+                    <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 text-xs text-amber-200">
+                        <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+                        <p>Browser storage is full and your latest change has not been saved yet. Delete older creations (export them first if you want to keep them) to free space; saving resumes automatically.</p>
+                    </div>
+                )}
+
+                {usage && (
+                    <div className="space-y-1.5">
+                        <div className="flex justify-between text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                            <span>Used {formatBytes(usage.usage)}</span>
+                            <span>Quota {formatBytes(usage.quota)}</span>
+                        </div>
+                        <div className="w-full h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${ratio > 0.9 ? 'bg-red-500' : ratio > 0.7 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                                style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="max-h-[45vh] overflow-y-auto border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                    {candidates.length === 0 && (
+                        <p className="p-4 text-xs text-zinc-500 text-center">No saved creations.</p>
+                    )}
+                    {candidates.map(item => (
+                        <label key={item.id} className="flex items-center gap-3 px-3 py-2 hover:bg-zinc-800/50 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={selected.has(item.id)}
+                                onChange={() => toggle(item.id)}
+                                className="accent-red-500"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-xs text-zinc-300 truncate">{item.name}</div>
+                                <div className="text-[10px] font-mono text-zinc-600">{item.timestamp.toLocaleString()}</div>
+                            </div>
+                            <span className="text-[10px] font-mono text-zinc-500">{sizes[item.id] ? formatBytes(sizes[item.id]) : '—'}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between">
+                <span className="text-[10px] font-mono text-zinc-500">
+                    {selected.size > 0 ? `${selected.size} selected · ${formatBytes(selectedBytes)}` : ''}
+                </span>
+                <div className="flex gap-2">
+                    <button onClick={onClose} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+                        Close
+                    </button>
+                    <button
+                        onClick={() => { onDelete([...selected]); setSelected(new Set()); }}
+                        disabled={selected.size === 0}
+                        className="bg-red-600 hover:bg-red-500 disabled:opacity-40 disabled:hover:bg-red-600 text-white text-xs font-medium px-3 py-1.5 rounded-md flex items-center gap-1.5 transition-colors"
+                    >
+                        <TrashIcon className="w-3.5 h-3.5" /> Delete
+                    </button>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
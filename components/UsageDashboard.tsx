@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { XMarkIcon, ChartBarIcon, ExclamationTriangleIcon, SparklesIcon } from '@heroicons/react/24/outline';
+import { UsageRecord, USAGE_RETENTION_DAYS, dailyTotals, totalsByModel, monthToDate, formatCost } from '../services/usage';
+import { formatTokens } from '../services/tokens';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  budget: number; // USD per month; 0 when unset
+  onChangeBudget: (budget: number) => void;
+  onProceed?: () => void; // Set when opened because a generation would exceed the budget
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+/**
+ * Model usage from the local ledger: month-to-date spend against the soft budget, daily totals
+ * and estimated cost per model. Costs are estimates from list prices.
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, budget, onChangeBudget, onProceed, onClose }) => {
+  const [budgetInput, setBudgetInput] = useState(budget > 0 ? String(budget) : '');
+
+  const month = monthToDate(records);
+  const days = dailyTotals(records, DAYS_SHOWN);
+  const models = totalsByModel(records);
+  const busiestDay = Math.max(1, ...days.map(day => day.inputTokens + day.outputTokens));
+  const ratio = budget > 0 ? month.cost / budget : 0;
+
+  const commitBudget = () => {
+    const value = parseFloat(budgetInput);
+    const next = Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : 0;
+    setBudgetInput(next > 0 ? String(next) : '');
+    if (next !== budget) onChangeBudget(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+        <div
+            className="w-full max-w-2xl bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-200"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="px-4 py-3 border-b border-zinc-800 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <ChartBarIcon className="w-4 h-4 text-zinc-400" />
+                    <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Usage</h2>
+                </div>
+                <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="p-4 space-y-4 max-h-[70vh] overflow-y-auto custom-scrollbar">
+                {onProceed && (
+                    <div className="flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 text-xs text-amber-200">
+                        <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+                        <p>Estimated spend this month ({formatCost(month.cost)}) has reached your budget of {formatCost(budget)}. The budget is a soft limit: you can still generate.</p>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-2">
+                    {[
+                        ['This month', `${formatCost(month.cost)}${month.unpriced > 0 ? '+' : ''}`],
+                        ['Calls', month.calls.toLocaleString()],
+                        ['Tokens in / out', `${formatTokens(month.inputTokens)} / ${formatTokens(month.outputTokens)}`],
+                    ].map(([label, value]) => (
+                        <div key={label} className="rounded-lg border border-zinc-800 bg-zinc-950/50 px-3 py-2">
+                            <div className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">{label}</div>
+                            <div className="mt-0.5 text-sm font-medium text-zinc-200">{value}</div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-1.5">
+                    <div className="flex items-center justify-between gap-3 text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+                        <label className="flex items-center gap-2">
+                            Monthly budget $
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={budgetInput}
+                                onChange={(e) => setBudgetInput(e.target.value)}
+                                onBlur={commitBudget}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitBudget(); }}
+                                placeholder="none"
+                                className="w-20 bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 normal-case placeholder-zinc-600 focus:outline-none focus:border-zinc-600"
+                            />
+                        </label>
+                        {budget > 0 && <span>{Math.round(ratio * 100)}% used</span>}
+                    </div>
+                    {budget > 0 && (
+                        <div className="w-full h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                                style={{ width: `${Math.min(100, Math.max(1, ratio * 100))}%` }}
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <h3 className="mb-1.5 text-[10px] font-bold uppercase tracking-widest text-zinc-500">Last {DAYS_SHOWN} days</h3>
+                    <div className="border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                        {days.map(day => (
+                            <div key={day.day} className={`flex items-center gap-3 px-3 py-1.5 text-[11px] font-mono ${day.calls === 0 ? 'text-zinc-600' : 'text-zinc-300'}`}>
+                                <span className="w-20 shrink-0">{day.day}</span>
+                                <div className="flex-1 h-1.5 bg-zinc-800/60 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-500/70 rounded-full" style={{ width: `${((day.inputTokens + day.outputTokens) / busiestDay) * 100}%` }} />
+                                </div>
+                                <span className="w-14 text-right">{day.calls} calls</span>
+                                <span className="w-24 text-right">{formatTokens(day.inputTokens)} / {formatTokens(day.outputTokens)}</span>
+                                <span className="w-14 text-right">{day.calls > 0 ? formatCost(day.cost) : '—'}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <h3 className="mb-1.5 text-[10px] font-bold uppercase tracking-widest text-zinc-500">By model (last {USAGE_RETENTION_DAYS} days)</h3>
+                    <div className="border border-zinc-800 rounded-lg divide-y divide-zinc-800">
+                        {models.length === 0 && (
+                            <p className="p-4 text-xs text-zinc-500 text-center">No model usage recorded yet.</p>
+                        )}
+                        {models.map(model => (
+                            <div key={model.model} className="flex items-center gap-3 px-3 py-1.5 text-[11px] font-mono text-zinc-300">
+                                <span className="flex-1 min-w-0 truncate">{model.model} <span className="text-zinc-600">· {model.provider}</span></span>
+                                <span className="w-14 text-right">{model.calls} calls</span>
+                                <span className="w-24 text-right">{formatTokens(model.inputTokens)} / {formatTokens(model.outputTokens)}</span>
+                                <span className="w-14 text-right">{model.unpriced > 0 ? '—' : formatCost(model.cost)}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="mt-1.5 text-[10px] text-zinc-600">Estimated from list prices. Local and fixture models are not priced.</p>
+                </div>
+            </div>
+
+            <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-end gap-2">
+                <button onClick={onClose} className="px-3 py-1.5 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+                    {onProceed ? 'Cancel' : 'Close'}
+                </button>
+                {onProceed && (
+                    <button
+                        onClick={onProceed}
+                        className="bg-amber-600 hover:bg-amber-500 text-white text-xs font-medium px-3 py-1.5 rounded-md flex items-center gap-1.5 transition-colors"
+                    >
+                        <SparklesIcon className="w-3.5 h-3.5" /> Generate anyway
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { XMarkIcon, ArrowsRightLeftIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { ScannedPreviewFrame } from './PreviewFrame';
+
+interface VariantCompareProps {
+  variants: Creation[];
+  previewCsp?: string; // Isolated preview mode
+  scanAllowlist?: string[];
+  holdRiskyPreviews?: boolean;
+  onOpen: (creation: Creation) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side live previews of sibling variants (or any set of creations)
+ */
+export const VariantCompare: React.FC<VariantCompareProps> = ({ variants, previewCsp, scanAllowlist, holdRiskyPreviews = false, onOpen, onClose }) => {
+  return (
+    <div className="fixed inset-2 md:inset-4 z-[80] flex flex-col rounded-lg overflow-hidden border border-zinc-800 bg-[#0E0E10] shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="bg-[#121214] px-4 py-3 flex items-center justify-between border-b border-zinc-800 shrink-0">
+            <div className="flex items-center gap-2">
+                <ArrowsRightLeftIcon className="w-4 h-4 text-zinc-400" />
+                <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Compare Variants</h2>
+            </div>
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300" title="Close">
+                <XMarkIcon className="w-4 h-4" />
+            </button>
+        </div>
+        <div className="flex-1 flex flex-col md:flex-row gap-px bg-zinc-800 min-h-0">
+            {variants.map(variant => (
+                <div key={variant.id} className="flex-1 flex flex-col min-h-0 min-w-0 bg-[#09090b]">
+                    <div className="px-4 py-2 flex items-center justify-between border-b border-zinc-800">
+                        <div className="min-w-0">
+                            <p className="text-xs text-zinc-200 truncate">{variant.name}</p>
+                            <p className="text-[10px] font-mono text-zinc-600">
+                                {variant.revisions?.length || 1} revision{(variant.revisions?.length || 1) > 1 ? 's' : ''}
+                                {variant.model ? ` · ${variant.model}` : ''}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => onOpen(variant)}
+                            className="flex items-center gap-1 text-[10px] font-medium uppercase tracking-wider text-blue-400 hover:text-blue-300 shrink-0"
+                        >
+                            Open <ArrowRightIcon className="w-3 h-3" />
+                        </button>
+                    </div>
+                    <div className="relative flex-1 min-h-0">
+                        <ScannedPreviewFrame
+                            title={`Variant ${variant.name}`}
+                            html={variant.html}
+                            csp={previewCsp}
+                            hold={holdRiskyPreviews}
+                            scanAllowlist={scanAllowlist}
+                            className="absolute inset-0 w-full h-full bg-white"
+                            sandbox="allow-scripts allow-forms allow-modals"
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
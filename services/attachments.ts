@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SourceAttachment } from '../components/CreationHistory';
+import { InlineFile } from './providers/types';
+import { rasterizePage } from './pdf';
+
+/**
+ * Source files (sketches, screenshots, PDFs) uploaded with a generation.
+ * They are kept as data URLs on the creation and sent to the model as inline parts, in upload order.
+ */
+
+export const ACCEPTED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+  'image/gif',
+  'image/svg+xml'
+];
+
+export const MAX_ATTACHMENTS = 8;
+export const MAX_FILE_SIZE = 15 * 1024 * 1024; // 15MB per file
+export const MAX_TOTAL_SIZE = 20 * 1024 * 1024; // Inline request payload limit
+
+/**
+ * Returns a user-facing error for an unacceptable selection, or null when every file can be sent
+ */
+export function validateFiles(files: File[]): string | null {
+  if (files.length > MAX_ATTACHMENTS) {
+    return `Too many files (${files.length}). Upload at most ${MAX_ATTACHMENTS} at a time.`;
+  }
+  for (const file of files) {
+    if (!ACCEPTED_MIME_TYPES.includes(file.type) && file.type !== '') {
+      return `Unsupported format for ${file.name} (${file.type || 'Unknown'}). Please upload JPEG, PNG, WebP, GIF or PDF.`;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return `${file.name} is too large (${(file.size / 1024 / 1024).toFixed(2)}MB). Limit is 15MB per file.`;
+    }
+  }
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > MAX_TOTAL_SIZE) {
+    return `Files are too large together (${(total / 1024 / 1024).toFixed(2)}MB). Limit is 20MB per generation.`;
+  }
+  return null;
+}
+
+export function readAttachment(file: File): Promise<SourceAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') {
+        resolve({ name: file.name, mimeType: file.type.toLowerCase(), dataUrl: reader.result });
+      } else {
+        reject(new Error(`Failed to read ${file.name}`));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function toInlineFile(attachment: SourceAttachment): InlineFile | null {
+  const matches = attachment.dataUrl.match(/^data:(.*?);base64,(.+)$/);
+  if (!matches) return null;
+  return { mimeType: attachment.mimeType || matches[1], data: matches[2] };
+}
+
+export const isPdfAttachment = (attachment: SourceAttachment) =>
+  attachment.mimeType === 'application/pdf' || attachment.dataUrl.startsWith('data:application/pdf');
+
+/**
+ * Records which PDF pages feed the model. Selecting every page clears the selection,
+ * so the document is sent whole again.
+ */
+export function withPageSelection(attachment: SourceAttachment, pages: number[], pageCount: number): SourceAttachment {
+  const unique = [...new Set(pages)].filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+  const { pages: _previous, ...rest } = attachment;
+  return unique.length === 0 || unique.length === pageCount ? rest : { ...rest, pages: unique };
+}
+
+/**
+ * Inline parts for a request, in attachment order. PDFs with a page selection are rasterized
+ * to one PNG per chosen page; everything else is sent as uploaded.
+ */
+export async function prepareInlineFiles(attachments: SourceAttachment[] = []): Promise<InlineFile[]> {
+  const files: InlineFile[] = [];
+  for (const attachment of attachments) {
+    const sources = isPdfAttachment(attachment) && attachment.pages
+      ? await Promise.all(attachment.pages.map(async page => ({
+          name: `${attachment.name} (page ${page})`,
+          mimeType: 'image/png',
+          dataUrl: await rasterizePage(attachment.dataUrl, page),
+        })))
+      : [attachment];
+    sources.forEach(source => {
+      const file = toInlineFile(source);
+      if (file) files.push(file);
+    });
+  }
+  return files;
+}
+
+/**
+ * Display name for a generation from these files, e.g. "login.png +2"
+ */
+export function describeAttachments(attachments: SourceAttachment[]): string | undefined {
+  if (attachments.length === 0) return undefined;
+  return attachments.length === 1 ? attachments[0].name : `${attachments[0].name} +${attachments.length - 1}`;
+}
@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { VOID_ELEMENTS, OPTIONAL_CLOSE } from './htmlOutput';
+
+/**
+ * Language support for the code editor: highlighting tokens for HTML with embedded CSS and JavaScript,
+ * fold ranges, lint markers, re-indentation and search. These are scanners rather than parsers, so they
+ * run on every keystroke and never throw on half-typed code. Line numbers are 1-based throughout.
+ */
+
+export type CodeLanguage = 'html' | 'css' | 'js' | 'text';
+
+export type TokenType = 'tag' | 'attribute' | 'string' | 'comment' | 'keyword' | 'number' | 'property' | 'punctuation' | 'text';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export interface FoldRange {
+  start: number; // Line that opens the block; the lines after it up to `end` are hidden
+  end: number;   // Line that closes the block, which stays visible
+}
+
+export interface CodeMarker {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SearchMatch {
+  line: number;
+  from: number; // Column range within the line
+  to: number;
+}
+
+const JS_KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield',
+]);
+
+const JS_TOKEN = /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|("(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\[\s\S])*`?)|(\b(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b)|([A-Za-z_$][\w$]*)|([{}()[\];,.:?=<>+\-*/%!&|^~])/g;
+const CSS_TOKEN = /(\/\*[\s\S]*?(?:\*\/|$))|("(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)|(@[\w-]+|!important)|((?<![\w-])(?:#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:[a-z]+|%)?))|([{}:;,()])/g;
+
+// Elements whose content is whitespace-sensitive and never re-indented
+const PREFORMATTED = new Set(['pre', 'textarea']);
+
+const BRACKETS: Record<string, string> = { '}': '{', ')': '(', ']': '[' };
+
+const INDENT = '  ';
+
+const newlines = (text: string) => text.split('\n').length - 1;
+
+export function languageOf(path?: string): CodeLanguage {
+  if (!path) return 'html';
+  const extension = path.split('.').pop()!.toLowerCase();
+  if (extension === 'html' || extension === 'htm') return 'html';
+  if (extension === 'css') return 'css';
+  return ['js', 'jsx', 'mjs', 'ts', 'tsx', 'json'].includes(extension) ? 'js' : 'text';
+}
+
+function scan(source: string, pattern: RegExp, typeOf: (match: RegExpMatchArray) => TokenType): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  for (const match of source.matchAll(pattern)) {
+    if (match.index! > index) tokens.push({ type: 'text', text: source.slice(index, match.index) });
+    tokens.push({ type: typeOf(match), text: match[0] });
+    index = match.index! + match[0].length;
+  }
+  if (index < source.length) tokens.push({ type: 'text', text: source.slice(index) });
+  return tokens;
+}
+
+const tokenizeJs = (source: string) => scan(source, JS_TOKEN, match =>
+  match[1] ? 'comment' : match[2] ? 'string' : match[3] ? 'number' : match[4] ? (JS_KEYWORDS.has(match[4]) ? 'keyword' : 'text') : 'punctuation'
+);
+
+function tokenizeCss(source: string): Token[] {
+  const tokens = scan(source, CSS_TOKEN, match =>
+    match[1] ? 'comment' : match[2] ? 'string' : match[3] ? 'keyword' : match[4] ? 'number' : 'punctuation'
+  );
+  let depth = 0;
+  let previous = '';
+  return tokens.map((token, i) => {
+    if (token.type === 'punctuation') {
+      if (token.text === '{') depth++;
+      if (token.text === '}') depth = Math.max(0, depth - 1);
+      previous = token.text;
+      return token;
+    }
+    if (token.type === 'comment' || /^\s*$/.test(token.text)) return token;
+    // Selectors outside rule blocks; property names at the start of a declaration
+    if (depth === 0 && (token.type === 'text' || token.type === 'number')) return { ...token, type: 'tag' };
+    const isProperty = token.type === 'text' && tokens[i + 1]?.text === ':' && (previous === '{' || previous === ';');
+    previous = token.text;
+    return isProperty ? { ...token, type: 'property' } : token;
+  });
+}
+
+const scriptLanguage = (attributes: string): CodeLanguage => {
+  const type = attributes.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+  return !type || /script|module|babel|jsx|json/i.test(type) ? 'js' : 'text';
+};
+
+function tokenizeHtml(source: string): Token[] {
+  const tokens: Token[] = [];
+  const markup = /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<(\/?)([a-zA-Z][\w:-]*)/g;
+  let index = 0;
+  const text = (end: number) => {
+    if (end > index) tokens.push({ type: 'text', text: source.slice(index, end) });
+  };
+
+  for (let match: RegExpExecArray | null; (match = markup.exec(source)); ) {
+    text(match.index);
+    const [open, closing, rawName] = match;
+    index = markup.lastIndex;
+    if (!rawName) {
+      tokens.push({ type: open.startsWith('<!--') ? 'comment' : 'keyword', text: open });
+      continue;
+    }
+
+    tokens.push({ type: 'tag', text: open });
+    const attribute = /(\s+)|([^\s"'>\/=]+)|(=)|("[^"]*"?|'[^']*'?)|(\/?>)|([\s\S])/y;
+    attribute.lastIndex = index;
+    let attributes = '';
+    let closed = false;
+    for (let part: RegExpExecArray | null; !closed && (part = attribute.exec(source)); ) {
+      // Unquoted values follow '='
+      const isValue = !!part[4] || (!!part[2] && tokens[tokens.length - 1].text === '=');
+      const type: TokenType = isValue ? 'string' : part[2] ? 'attribute' : part[3] ? 'punctuation' : part[5] ? 'tag' : 'text';
+      tokens.push({ type, text: part[0] });
+      attributes += part[0];
+      index += part[0].length;
+      closed = !!part[5];
+    }
+
+    const name = rawName.toLowerCase();
+    if (closed && !closing && (name === 'script' || name === 'style')) {
+      const end = source.slice(index).search(new RegExp(`</${name}`, 'i'));
+      const stop = end < 0 ? source.length : index + end;
+      tokens.push(...tokenize(source.slice(index, stop), name === 'style' ? 'css' : scriptLanguage(attributes)));
+      index = stop;
+    }
+    markup.lastIndex = index;
+  }
+  text(source.length);
+  return tokens;
+}
+
+/**
+ * Splits source into highlighting tokens whose texts concatenate back to the source
+ */
+export function tokenize(source: string, language: CodeLanguage): Token[] {
+  switch (language) {
+    case 'html': return tokenizeHtml(source);
+    case 'css': return tokenizeCss(source);
+    case 'js': return tokenizeJs(source);
+    default: return source ? [{ type: 'text', text: source }] : [];
+  }
+}
+
+/**
+ * Tokens regrouped per line, for rendering line by line
+ */
+export function tokenLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [[]];
+  for (const { type, text } of tokens) {
+    text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type, text: part });
+    });
+  }
+  return lines;
+}
+
+interface Block {
+  name: string; // Lowercase element name or opening bracket
+  line: number;
+}
+
+interface StructureVisitor {
+  token?: (token: Token, line: number, stack: readonly Block[]) => void; // After the token is applied
+  close?: (block: Block, line: number) => void;
+  unclosed?: (block: Block, line?: number) => void; // Closed implicitly at `line`, or still open at the end
+  unexpected?: (text: string, line: number) => void;
+}
+
+/**
+ * Follows element and bracket nesting through a token stream. End tags close whatever they implicitly
+ * close, the way browsers do, so one missing tag is reported once rather than for the rest of the file.
+ */
+function walkStructure(tokens: Token[], visitor: StructureVisitor): void {
+  const stack: Block[] = [];
+  let opening: Block | null = null; // Start tag whose '>' hasn't been reached
+  let line = 1;
+  const close = () => {
+    const block = stack.pop()!;
+    visitor.close?.(block, line);
+  };
+
+  for (const token of tokens) {
+    const { type, text } = token;
+    if (type === 'tag' && text.startsWith('</')) {
+      const name = text.slice(2).toLowerCase();
+      const index = stack.map(block => block.name).lastIndexOf(name);
+      if (index < 0) {
+        visitor.unexpected?.(`</${name}>`, line);
+      } else {
+        stack.splice(index + 1).reverse().forEach(block => visitor.unclosed?.(block, line));
+        close();
+      }
+    } else if (type === 'tag' && text.startsWith('<')) {
+      opening = { name: text.slice(1).toLowerCase(), line };
+    } else if (type === 'tag' && opening) {
+      if (text === '>' && !VOID_ELEMENTS.has(opening.name)) {
+        // A repeated <li>, <p>, <td>… ends the previous one
+        if (stack[stack.length - 1]?.name === opening.name && OPTIONAL_CLOSE.has(opening.name)) close();
+        stack.push(opening);
+      }
+      opening = null;
+    } else if (type === 'punctuation' && '{(['.includes(text)) {
+      stack.push({ name: text, line });
+    } else if (type === 'punctuation' && BRACKETS[text]) {
+      if (stack[stack.length - 1]?.name === BRACKETS[text]) close();
+      else visitor.unexpected?.(text, line);
+    }
+    visitor.token?.(token, line, stack);
+    line += newlines(text);
+  }
+  stack.reverse().forEach(block => visitor.unclosed?.(block));
+}
+
+/**
+ * Multi-line elements, bracket blocks and comments that can be collapsed, ordered by start line
+ */
+export function foldRanges(source: string, language: CodeLanguage): FoldRange[] {
+  if (language === 'text') return [];
+  const ends = new Map<number, number>();
+  const add = (start: number, end: number) => {
+    if (end > start + 1 && end > (ends.get(start) ?? 0)) ends.set(start, end);
+  };
+  walkStructure(tokenize(source, language), {
+    close: (block, line) => add(block.line, line),
+    token: ({ type, text }, line) => type === 'comment' && add(line, line + newlines(text)),
+  });
+  return [...ends].map(([start, end]) => ({ start, end })).sort((a, b) => a.start - b.start);
+}
+
+const isUnterminated = (text: string) => {
+  const quote = text[0];
+  if (!`"'\``.includes(quote)) return false;
+  const escapes = text.slice(1, -1).match(/\\*$/)![0].length;
+  return text.length < 2 || !text.endsWith(quote) || escapes % 2 === 1;
+};
+
+/**
+ * Inline classic scripts, located by the line of their <script> tag
+ */
+function inlineScripts(html: string): { line: number; code: string }[] {
+  return [...html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi)]
+    .filter(([, attributes]) => !/\bsrc\s*=/i.test(attributes) && !/\btype\s*=\s*(?!["']?text\/javascript\b)/i.test(attributes))
+    .map(match => ({ line: newlines(html.slice(0, match.index)) + 1, code: match[2] }));
+}
+
+/**
+ * Error and warning markers: unbalanced tags and brackets, unterminated strings and comments, and
+ * syntax errors in inline scripts (compiled, never run)
+ */
+export function lintCode(source: string, language: CodeLanguage): CodeMarker[] {
+  if (language === 'text') return [];
+  const markers: CodeMarker[] = [];
+  const tokens = tokenize(source, language);
+
+  walkStructure(tokens, {
+    unclosed: (block, line) => {
+      const isBracket = '{(['.includes(block.name);
+      if (!isBracket && OPTIONAL_CLOSE.has(block.name)) return;
+      if (isBracket) {
+        markers.push({ line: block.line, severity: 'error', message: `Unclosed '${block.name}'` });
+      } else if (line === undefined) {
+        markers.push({ line: block.line, severity: 'error', message: `<${block.name}> is never closed` });
+      } else {
+        markers.push({ line: block.line, severity: 'warning', message: `<${block.name}> is closed implicitly on line ${line}` });
+      }
+    },
+    unexpected: (text, line) => markers.push(text.startsWith('</')
+      ? { line, severity: 'warning', message: `Stray ${text} without a matching start tag` }
+      : { line, severity: 'error', message: `Unexpected '${text}'` }),
+  });
+
+  let line = 1;
+  for (const { type, text } of tokens) {
+    if (type === 'comment' && (text.startsWith('<!--') ? !text.endsWith('-->') : text.startsWith('/*') && (text.length < 4 || !text.endsWith('*/')))) {
+      markers.push({ line, severity: 'error', message: 'Unterminated comment' });
+    } else if (type === 'string' && isUnterminated(text)) {
+      markers.push({ line, severity: 'error', message: 'Unterminated string' });
+    }
+    line += newlines(text);
+  }
+
+  // Compiling reports what the scanner can't see; skipped when it already found errors, which would repeat them
+  if (language === 'html' && !markers.some(marker => marker.severity === 'error')) {
+    for (const script of inlineScripts(source)) {
+      try {
+        new Function(script.code);
+      } catch (error) {
+        if (error instanceof SyntaxError) markers.push({ line: script.line, severity: 'error', message: `Script error: ${error.message}` });
+      }
+    }
+  }
+  return markers.sort((a, b) => a.line - b.line);
+}
+
+const isCloser = ({ type, text }: Token) => (type === 'tag' && text.startsWith('</')) || (type === 'punctuation' && !!BRACKETS[text]);
+
+/**
+ * Re-indents every line by its element and bracket depth. Line breaks are kept as written, and
+ * lines inside <pre>, <textarea>, multi-line strings and comments are left untouched.
+ */
+export function formatCode(source: string, language: CodeLanguage): string {
+  if (language === 'text') return source;
+  const lines = source.split('\n');
+  const indents = new Map<number, number | 'keep'>();
+  let depth = 0; // Before the current token
+
+  walkStructure(tokenize(source, language), {
+    token: (token, line, stack) => {
+      const preformatted = stack.some(block => PREFORMATTED.has(block.name));
+      token.text.split('\n').forEach((part, i) => {
+        const index = line - 1 + i;
+        if (indents.has(index) || !part.trim()) return;
+        if (preformatted || (i > 0 && token.type !== 'text')) indents.set(index, 'keep');
+        else indents.set(index, i === 0 && isCloser(token) ? stack.length : depth);
+      });
+      depth = stack.length;
+    },
+  });
+
+  return lines.map((text, index) => {
+    const indent = indents.get(index);
+    if (indent === undefined) return '';
+    return indent === 'keep' ? text : INDENT.repeat(indent) + text.trim();
+  }).join('\n');
+}
+
+export function findMatches(source: string, query: string, caseSensitive = false): SearchMatch[] {
+  if (!query) return [];
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const matches: SearchMatch[] = [];
+  source.split('\n').forEach((text, index) => {
+    const haystack = caseSensitive ? text : text.toLowerCase();
+    for (let from = haystack.indexOf(needle); from >= 0; from = haystack.indexOf(needle, from + needle.length)) {
+      matches.push({ line: index + 1, from, to: from + needle.length });
+    }
+  });
+  return matches;
+}
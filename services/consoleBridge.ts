@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { injectHeadTag } from './previewAgent';
+
+/**
+ * Console/error bridge for the preview iframe. A script injected ahead of the app's own code forwards
+ * console output, uncaught errors and unhandled rejections to the parent with postMessage, so runtime
+ * failures show up in the Console panel and can be sent back to the model to fix.
+ */
+
+export const CONSOLE_MESSAGE_SOURCE = 'preview-console';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+  location?: string; // "line:column" in the document, for uncaught errors
+  count: number; // Consecutive identical entries are collapsed
+  timestamp: number;
+}
+
+/** A resource or request refused by the isolated preview's Content-Security-Policy */
+export interface BlockedRequest {
+  url: string; // Blocked URL, or 'inline'/'eval' for blocked code
+  directive: string; // e.g. "connect-src"
+  count: number;
+}
+
+/**
+ * Posted by the bridge: 'load' when a new page starts (entries from the previous one are stale),
+ * 'blocked' for Content-Security-Policy violations
+ */
+export type ConsoleMessage =
+  | { source: typeof CONSOLE_MESSAGE_SOURCE; type: 'load' }
+  | { source: typeof CONSOLE_MESSAGE_SOURCE; type: 'console'; level: ConsoleLevel; message: string; location?: string }
+  | { source: typeof CONSOLE_MESSAGE_SOURCE; type: 'blocked'; url: string; directive: string };
+
+// Keeps a chatty app from growing the panel without bound
+export const MAX_CONSOLE_ENTRIES = 200;
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Kept on one line so line numbers reported for the app's own scripts don't shift
+const BRIDGE_SCRIPT = `(function () {
+  var SOURCE = '${CONSOLE_MESSAGE_SOURCE}';
+  function format(value) {
+    if (value instanceof Error) return value.stack || value.name + ': ' + value.message;
+    if (typeof value === 'string') return value;
+    try { var json = JSON.stringify(value); return json === undefined ? String(value) : json; } catch (e) { return String(value); }
+  }
+  function send(level, args, location) {
+    try {
+      var message = Array.prototype.map.call(args, format).join(' ').slice(0, ${MAX_MESSAGE_LENGTH});
+      parent.postMessage({ source: SOURCE, type: 'console', level: level, message: message, location: location }, '*');
+    } catch (e) {}
+  }
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (method) {
+    var original = console[method];
+    console[method] = function () {
+      send(method === 'debug' ? 'log' : method, arguments);
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    var target = event.target;
+    if (target && target !== window) {
+      send('error', ['Failed to load ' + (target.src || target.href || target.tagName)]);
+      return;
+    }
+    send('error', [event.error || event.message], event.lineno ? event.lineno + ':' + event.colno : undefined);
+  }, true);
+  window.addEventListener('unhandledrejection', function (event) {
+    send('error', ['Unhandled promise rejection:', event.reason]);
+  });
+  document.addEventListener('securitypolicyviolation', function (event) {
+    parent.postMessage({ source: SOURCE, type: 'blocked', url: String(event.blockedURI || 'inline'), directive: event.effectiveDirective || event.violatedDirective }, '*');
+  });
+  parent.postMessage({ source: SOURCE, type: 'load' }, '*');
+})();`.replace(/\n\s*/g, ' ');
+
+/**
+ * Inserts the bridge as the first script of the document, so it is installed before the app runs
+ */
+export const injectConsoleBridge = (html: string) =>
+  injectHeadTag(html, `<script data-preview-bridge>${BRIDGE_SCRIPT}</script>`);
+
+export const isConsoleMessage = (data: unknown): data is ConsoleMessage =>
+  typeof data === 'object' && data !== null && (data as any).source === CONSOLE_MESSAGE_SOURCE;
+
+export function appendConsoleEntry(entries: ConsoleEntry[], entry: Omit<ConsoleEntry, 'count'>): ConsoleEntry[] {
+  const last = entries[entries.length - 1];
+  if (last && last.level === entry.level && last.message === entry.message && last.location === entry.location) {
+    return [...entries.slice(0, -1), { ...last, count: last.count + 1, timestamp: entry.timestamp }];
+  }
+  return [...entries, { ...entry, count: 1 }].slice(-MAX_CONSOLE_ENTRIES);
+}
+
+export function appendBlockedRequest(requests: BlockedRequest[], url: string, directive: string): BlockedRequest[] {
+  const existing = requests.find(r => r.url === url && r.directive === directive);
+  if (existing) return requests.map(r => r === existing ? { ...r, count: r.count + 1 } : r);
+  return [...requests, { url, directive, count: 1 }].slice(-MAX_CONSOLE_ENTRIES);
+}
+
+/**
+ * Distinct error messages, as reported to the model by "Fix errors"
+ */
+export function collectErrors(entries: ConsoleEntry[]): string[] {
+  const errors = entries
+    .filter(entry => entry.level === 'error')
+    .map(entry => entry.location ? `${entry.message} (at ${entry.location})` : entry.message);
+  return [...new Set(errors)];
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Line diff for generated HTML (Myers' O(ND) algorithm).
+ * Markup is split between adjacent tags first, so single-line or minified output
+ * still diffs per element, and lines are compared ignoring indentation.
+ */
+
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface SkippedLines {
+  op: 'skip';
+  count: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Beyond this many edits the diff is reported as a full rewrite instead of computed
+const MAX_EDIT_DISTANCE = 4000;
+
+export function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(/\r\n/g, '\n')
+    .replace(/>[ \t]*</g, '>\n<')
+    .split('\n')
+    .map(line => line.trimEnd());
+}
+
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  // trace[d] holds the k-window [-d, d] of v before step d
+  const trace: Int32Array[] = [];
+
+  let found = -1;
+  for (let d = 0; d <= max && found < 0; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+  }
+  if (found < 0) return null;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d--) {
+    const window = trace[d];
+    const at = (k: number) => window[k + d];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--; y--;
+    }
+    if (d > 0) ops.push(x === prevX ? 'add' : 'remove');
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitHtmlLines(oldText);
+  const newLines = splitHtmlLines(newText);
+
+  // Refinements are usually local: strip the shared prefix/suffix before running Myers
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix].trim() === newLines[prefix].trim()) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix].trim() === newLines[newLines.length - 1 - suffix].trim()
+  ) suffix++;
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const ops = myers(oldMiddle.map(l => l.trim()), newMiddle.map(l => l.trim()))
+    ?? [...oldMiddle.map((): DiffOp => 'remove'), ...newMiddle.map((): DiffOp => 'add')];
+
+  const result: DiffLine[] = [];
+  let oi = 0;
+  let ni = 0;
+  const push = (op: DiffOp) => {
+    if (op === 'remove') {
+      result.push({ op, text: oldLines[oi], oldNumber: oi + 1 });
+      oi++;
+    } else if (op === 'add') {
+      result.push({ op, text: newLines[ni], newNumber: ni + 1 });
+      ni++;
+    } else {
+      result.push({ op, text: newLines[ni], oldNumber: oi + 1, newNumber: ni + 1 });
+      oi++; ni++;
+    }
+  };
+
+  for (let i = 0; i < prefix; i++) push('equal');
+  ops.forEach(push);
+  for (let i = 0; i < suffix; i++) push('equal');
+  return result;
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(l => l.op === 'add').length,
+    removed: lines.filter(l => l.op === 'remove').length,
+  };
+}
+
+/**
+ * Replaces runs of unchanged lines with a skip marker, keeping `context` lines around each change
+ */
+export function collapseUnchanged(lines: DiffLine[], context = 3): (DiffLine | SkippedLines)[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.op === 'equal') return;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) keep[j] = true;
+  });
+
+  const result: (DiffLine | SkippedLines)[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (skipped) result.push({ op: 'skip', count: skipped });
+      skipped = 0;
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped) result.push({ op: 'skip', count: skipped });
+  return result;
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile } from './providers/types';
+import { ElementAnchor, ElementNotFoundError, findElement, replaceElement } from './elementAnchors';
+import { PROJECT_ENTRY, normalizePath } from './project';
+import { TAG, escapeAttribute } from './htmlOutput';
+
+/**
+ * Local (WYSIWYG) edits made in the preview's edit mode and inspector. The preview agent applies them
+ * to the live DOM for immediate feedback; these functions make the same change to the source HTML of
+ * the anchored element, so a revision contains exactly what was edited and none of the app's runtime
+ * state. Edits applied in sequence share ids, so only the last one may add, move or remove elements.
+ */
+
+export type DirectEdit =
+  | { type: 'text'; elementId: string; text: string }
+  | { type: 'style'; elementId: string; styles: Record<string, string> } // camelCase properties, '' removes
+  | { type: 'classes'; elementId: string; add: string[]; remove: string[] }
+  | { type: 'move'; elementId: string; targetId: string; position: 'before' | 'after' }
+  | { type: 'remove'; elementId: string };
+
+// The element's own start tag, at the beginning of its outer HTML
+const START_TAG = new RegExp(`^${TAG.source}`);
+const attributePattern = (name: string) => new RegExp(`\\s+${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i');
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const kebabCase = (property: string) => property.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+/**
+ * Replaces the content of an element that has no child elements
+ */
+export function setElementText(html: string, anchor: ElementAnchor, text: string): string {
+  const startTag = anchor.outerHtml.match(START_TAG)![0];
+  const endTag = `</${anchor.tagName}`;
+  const endIndex = anchor.outerHtml.toLowerCase().lastIndexOf(endTag);
+  if (endIndex < startTag.length) throw new Error(`<${anchor.tagName}> has no text content to edit`);
+  return replaceElement(html, anchor, startTag + escapeText(text) + anchor.outerHtml.slice(endIndex));
+}
+
+const getAttribute = (anchor: ElementAnchor, name: string) => {
+  const match = anchor.outerHtml.match(START_TAG)![3].match(attributePattern(name));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+};
+
+/**
+ * Rewrites one attribute of the element's start tag; an empty value drops the attribute
+ */
+function setAttribute(html: string, anchor: ElementAnchor, name: string, value: string): string {
+  const [startTag, , tagName, attributes] = anchor.outerHtml.match(START_TAG)!;
+  const close = startTag.slice(1 + tagName.length + attributes.length); // ">" or "/>", with any whitespace before it
+  const rest = attributes.replace(attributePattern(name), '');
+  const attribute = value ? ` ${name}="${escapeAttribute(value)}"` : '';
+  return replaceElement(html, anchor, `<${tagName}${rest}${attribute}${close}` + anchor.outerHtml.slice(startTag.length));
+}
+
+/**
+ * Merges declarations into the element's inline style attribute, which wins over the app's classes
+ */
+export function setInlineStyles(html: string, anchor: ElementAnchor, styles: Record<string, string>): string {
+  const declarations = new Map<string, string>();
+  (getAttribute(anchor, 'style') ?? '').split(';').forEach(declaration => {
+    const colon = declaration.indexOf(':');
+    if (colon > 0) declarations.set(declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim());
+  });
+  Object.entries(styles).forEach(([property, value]) => {
+    if (value) declarations.set(kebabCase(property), value);
+    else declarations.delete(kebabCase(property));
+  });
+
+  return setAttribute(html, anchor, 'style', [...declarations].map(([property, value]) => `${property}: ${value}`).join('; '));
+}
+
+/**
+ * Adds and removes classes in the source, leaving classes the app toggles at runtime alone
+ */
+export function updateClasses(html: string, anchor: ElementAnchor, add: string[], remove: string[]): string {
+  const classes = (getAttribute(anchor, 'class') ?? '').split(/\s+/).filter(c => c && !remove.includes(c));
+  add.forEach(c => !classes.includes(c) && classes.push(c));
+  return setAttribute(html, anchor, 'class', classes.join(' '));
+}
+
+/**
+ * Moves an element next to another one, carrying its indentation along
+ */
+export function moveElement(html: string, anchor: ElementAnchor, target: ElementAnchor, position: 'before' | 'after'): string {
+  if (target.start >= anchor.start && target.end <= anchor.end) throw new Error('Cannot move an element into itself');
+  const indent = html.slice(0, anchor.start).match(/\n[ \t]*$/)?.[0] ?? '';
+  const removeFrom = anchor.start - indent.length;
+  const without = html.slice(0, removeFrom) + html.slice(anchor.end);
+  // Offsets after the removed span shift left
+  const shift = (offset: number) => offset >= anchor.end ? offset - (anchor.end - removeFrom) : offset;
+  const at = shift(position === 'before' ? target.start : target.end);
+  const insertion = position === 'before' ? anchor.outerHtml + indent : indent + anchor.outerHtml;
+  return without.slice(0, at) + insertion + without.slice(at);
+}
+
+const resolve = (html: string, elementId: string) => {
+  const anchor = findElement(html, elementId);
+  if (!anchor) throw new ElementNotFoundError(elementId);
+  return anchor;
+};
+
+export function applyDirectEdit(html: string, edit: DirectEdit): string {
+  const anchor = resolve(html, edit.elementId);
+  switch (edit.type) {
+    case 'text': return setElementText(html, anchor, edit.text);
+    case 'style': return setInlineStyles(html, anchor, edit.styles);
+    case 'classes': return updateClasses(html, anchor, edit.add, edit.remove);
+    case 'move': return moveElement(html, anchor, resolve(html, edit.targetId), edit.position);
+    case 'remove': return replaceElement(html, anchor, '');
+  }
+}
+
+/**
+ * Project creations are edited in index.html. Assembly only adds <script>/<style> elements, which are
+ * never stamped, so ids from the assembled preview address the same elements in the entry file.
+ */
+export function applyDirectEditToFiles(files: ProjectFile[], edit: DirectEdit): ProjectFile[] {
+  const entry = files.find(file => normalizePath(file.path) === PROJECT_ENTRY);
+  if (!entry) throw new ElementNotFoundError(edit.elementId);
+  return files.map(file => file === entry ? { ...file, content: applyDirectEdit(file.content, edit) } : file);
+}
+
+/** Revision label, e.g. "Edit text of <h1>" */
+export function describeDirectEdit(html: string, edit: DirectEdit): string {
+  const tag = `<${resolve(html, edit.elementId).tagName}>`;
+  switch (edit.type) {
+    case 'text': return `Edit text of ${tag}`;
+    case 'style': return `Set ${Object.keys(edit.styles).map(kebabCase).join(', ')} on ${tag}`;
+    case 'classes': return `Change classes of ${tag}`;
+    case 'move': return `Move ${tag}`;
+    case 'remove': return `Remove ${tag}`;
+  }
+}
+
+/**
+ * Hex value for <input type="color"> from a computed color ("rgb(…)", "rgba(…)" or hex); alpha is dropped
+ */
+export function cssColorToHex(color: string): string | undefined {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+  const channels = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i);
+  if (!channels) return undefined;
+  return '#' + channels.slice(1, 4).map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('');
+}
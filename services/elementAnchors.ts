@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { VOID_ELEMENTS, FOREIGN_ROOTS, TAG } from './htmlOutput';
+
+/**
+ * Stable element ids for edit mode. Before rendering, every element whose exact source range is known
+ * gets a `data-pv-id` attribute; the preview agent reports the id of the clicked element, and the host
+ * maps it back to the same range of the original HTML. Ids are positional (source order), so they stay
+ * valid for as long as the document is unchanged and are never written back into a revision.
+ */
+
+export const ELEMENT_ID_ATTRIBUTE = 'data-pv-id';
+
+export class ElementNotFoundError extends Error {
+  constructor(public elementId: string) {
+    super(`No element with id ${elementId} in the current document`);
+    this.name = 'ElementNotFoundError';
+  }
+}
+
+/** Source range of an element in the unstamped HTML; `end` is exclusive */
+export interface ElementAnchor {
+  id: string;
+  tagName: string;
+  start: number;
+  end: number;
+  outerHtml: string;
+  path: string; // CSS selector from <html>, e.g. "html > body > main > div:nth-of-type(2)"
+}
+
+interface ParsedElement {
+  name: string;
+  start: number;
+  openEnd: number; // Offset of the start tag's closing ">" (before "/>" when self-closing)
+  end?: number; // Unknown when the end tag was omitted or implied
+  parent?: ParsedElement;
+  nthOfType: number;
+  typeCounts: Record<string, number>;
+}
+
+// Not rendered or not pickable; also keeps the head and the injected preview scripts out of the numbering
+const UNSTAMPED = new Set([
+  'html', 'head', 'body', 'script', 'style', 'meta', 'link', 'title', 'base', 'template', 'noscript',
+]);
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+/**
+ * Elements with a known source range, in source order. Comments and raw-text bodies are blanked
+ * (keeping offsets) so markup inside them isn't mistaken for elements.
+ */
+function anchorableElements(html: string): ParsedElement[] {
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, blank)
+    .replace(/(<(script|style|textarea|title)\b[^>]*>)([\s\S]*?)(<\/\2\s*>)/gi,
+      (whole, open: string, name: string, body: string, close: string) => open + blank(body) + close);
+
+  const root: ParsedElement = { name: '#document', start: 0, openEnd: 0, nthOfType: 1, typeCounts: {} };
+  const stack: ParsedElement[] = [];
+  const elements: ParsedElement[] = [];
+  let foreignDepth = 0;
+
+  for (const match of markup.matchAll(TAG)) {
+    const [source, closing, rawName, , selfClosing] = match;
+    const name = rawName.toLowerCase();
+    const index = match.index!;
+
+    if (closing) {
+      const open = stack.map(e => e.name).lastIndexOf(name);
+      if (open < 0) continue;
+      // Elements above the match were closed implicitly; their extent isn't in the source
+      stack[open].end = index + source.length;
+      stack.splice(open);
+      if (FOREIGN_ROOTS.has(name)) foreignDepth--;
+      continue;
+    }
+
+    const parent = stack[stack.length - 1] ?? root;
+    parent.typeCounts[name] = (parent.typeCounts[name] ?? 0) + 1;
+    const element: ParsedElement = {
+      name,
+      start: index,
+      openEnd: index + source.length - (selfClosing ? 2 : 1),
+      parent: parent === root ? undefined : parent,
+      nthOfType: parent.typeCounts[name],
+      typeCounts: {},
+    };
+    elements.push(element);
+
+    if (VOID_ELEMENTS.has(name) || (selfClosing && foreignDepth > 0)) {
+      element.end = index + source.length;
+    } else {
+      stack.push(element);
+      if (FOREIGN_ROOTS.has(name)) foreignDepth++;
+    }
+  }
+
+  return elements.filter(e => e.end !== undefined && !UNSTAMPED.has(e.name) && !insideUnstamped(e));
+}
+
+const insideUnstamped = (element: ParsedElement): boolean =>
+  !!element.parent && (['head', 'template', 'noscript'].includes(element.parent.name) || insideUnstamped(element.parent));
+
+function pathOf(element: ParsedElement): string {
+  const segments: string[] = [];
+  for (let e: ParsedElement | undefined = element; e; e = e.parent) {
+    const siblings = e.parent ? e.parent.typeCounts[e.name] : 1;
+    segments.unshift(siblings > 1 ? `${e.name}:nth-of-type(${e.nthOfType})` : e.name);
+  }
+  return segments.join(' > ');
+}
+
+/**
+ * Adds `data-pv-id` to every anchorable element. Attributes are inserted inside existing start tags,
+ * so line numbers don't change.
+ */
+export function stampElementIds(html: string): string {
+  let stamped = '';
+  let offset = 0;
+  anchorableElements(html).forEach((element, i) => {
+    stamped += `${html.slice(offset, element.openEnd)} ${ELEMENT_ID_ATTRIBUTE}="${i}"`;
+    offset = element.openEnd;
+  });
+  return stamped + html.slice(offset);
+}
+
+/**
+ * Resolves an id reported by the preview to its range in the same, unstamped HTML
+ */
+export function findElement(html: string, id: string): ElementAnchor | undefined {
+  const element = anchorableElements(html)[Number(id)];
+  if (!element || !/^\d+$/.test(id)) return undefined;
+  return {
+    id,
+    tagName: element.name,
+    start: element.start,
+    end: element.end!,
+    outerHtml: html.slice(element.start, element.end),
+    path: pathOf(element),
+  };
+}
+
+/**
+ * Splices a replacement over an element's source range; everything else is kept byte for byte
+ */
+export const replaceElement = (html: string, anchor: ElementAnchor, replacement: string) =>
+  html.slice(0, anchor.start) + replacement + html.slice(anchor.end);
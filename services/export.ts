@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation } from '../components/CreationHistory';
+import { createZip } from './zip';
+import { normalizePath } from './project';
+
+export const exportFileName = (creation: Creation, suffix: string) =>
+  `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}${suffix}`;
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * The creation's project files as a ZIP; single-file creations become a one-file project.
+ * Paths are checked again, since revisions saved before paths were validated may hold unsafe ones.
+ */
+export function projectZip(creation: Creation): Blob {
+  const files = creation.files ?? [{ path: 'index.html', content: creation.html }];
+  return createZip(files
+    .map(file => ({ path: normalizePath(file.path), content: file.content }))
+    .filter(file => file.path));
+}
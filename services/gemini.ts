@@ -2,105 +2,198 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { createProvider, ModelProvider, ModelOutput, FinishReason, GenerateInput, RefineInput, InlineFile, ProjectFile, RefineContext } from './providers';
+import { loadSettings } from './settings';
+import { withRetry, abortError } from './retry';
+import { parseProjectOutput, assembleProject, ProjectParseError } from './project';
+import { REACT_ENTRY } from './viteProject';
+import { buildContinuePrompt, buildRepairInstruction, buildPatchRetryInstruction } from './prompts';
+import {
+  InvalidOutputError, checkHtml, checkFragment, extractHtml, extractFragment, extractPartialHtml, extractContinuation, mergeContinuation
+} from './htmlOutput';
+import { ElementNotFoundError, findElement, replaceElement } from './elementAnchors';
+import { PatchError, parsePatch, applyPatch, applyPatchToFiles } from './patch';
+import { fitRefinement, shouldPatch } from './tokens';
+
+export { isAbortError } from './retry';
+export { InvalidOutputError } from './htmlOutput';
+export { ElementNotFoundError } from './elementAnchors';
+export { ContextLimitError } from './tokens';
 
-const GEMINI_MODEL = 'gemini-3-pro-preview';
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * The provider selected in settings. Resolved per call so a settings change applies to the next request.
+ */
+export function getActiveProvider(): ModelProvider {
+  return createProvider(loadSettings());
+}
 
-const MAX_RETRIES = 3;
-const INITIAL_BACKOFF = 1000;
+// Follow-up requests (continue, repair or regenerate) made before invalid output is surfaced as an error
+const MAX_FOLLOW_UPS = 2;
+// Patches that don't apply are requested again this many times before the whole document is
+const MAX_PATCH_FOLLOW_UPS = 1;
 
 /**
- * Exponential backoff wrapper for API calls
+ * Extracts the document from model output and validates it. Truncated output is continued,
+ * malformed output repaired and empty output requested again; after MAX_FOLLOW_UPS attempts
+ * an InvalidOutputError is thrown so broken markup never reaches history.
  */
-async function withRetry<T>(fn: () => Promise<T>, retries = MAX_RETRIES, delay = INITIAL_BACKOFF): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    if (retries > 0 && (error?.status === 429 || error?.status >= 500)) {
-      console.warn(`Gemini API Error (${error.status}). Retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return withRetry(fn, retries - 1, delay * 2);
+async function finalizeHtml(output: ModelOutput, regenerate: () => Promise<ModelOutput>, provider: ModelProvider, signal?: AbortSignal): Promise<string> {
+  let html = extractHtml(output.text);
+  let finishReason = output.finishReason;
+
+  for (let attempt = 0; ; attempt++) {
+    const check = checkHtml(html, finishReason);
+    if (check.problems.length === 0) return html;
+    // A refusal won't go away by asking again
+    if (finishReason === 'safety' || attempt >= MAX_FOLLOW_UPS) throw new InvalidOutputError(check.problems);
+
+    console.warn(`Model output failed validation (${check.problems.join('; ')}), follow-up ${attempt + 1} of ${MAX_FOLLOW_UPS}.`);
+    let next: ModelOutput;
+    if (!html) {
+      next = await withRetry(regenerate, signal);
+      html = extractHtml(next.text);
+    } else if (check.truncated) {
+      const partial = html;
+      next = await withRetry(() => provider.generate({ prompt: buildContinuePrompt(partial) }, signal), signal);
+      html = extractHtml(mergeContinuation(partial, extractContinuation(next.text)));
+    } else {
+      const currentHtml = html;
+      const instruction = buildRepairInstruction(check.problems);
+      next = await withRetry(() => provider.refine({ currentHtml, instruction }, signal), signal);
+      html = extractHtml(next.text);
     }
-    throw error;
+    finishReason = next.finishReason;
   }
 }
 
-const SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
-Your goal is to take a user uploaded file and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
-
-CORE DIRECTIVES:
-1. **Analyze & Abstract**: Build a Best Guess creative interpretation.
-2. **NO EXTERNAL IMAGES**: Use inline SVGs, CSS, or Emojis.
-3. **Make it Interactive**: Must have JS-driven behavior (buttons, drag-drop, states).
-4. **Self-Contained**: Single HTML file with Tailwind CDN.
-
-RESPONSE FORMAT:
-Return ONLY the raw HTML code. Do not wrap in markdown.`;
+function parseProject(output: ModelOutput, entry?: string): ProjectFile[] {
+  // Cut-off JSON never parses; say why instead of reporting a syntax error
+  if (output.finishReason === 'length') throw new ProjectParseError('response stopped at the token limit');
+  return parseProjectOutput(output.text, entry);
+}
 
-function cleanHtmlOutput(text: string): string {
-    if (!text) return "<!-- Failed to generate content -->";
-    return text.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
+export async function bringToLife(prompt: string, files?: InlineFile[], stylePreset?: string, customCss?: string, signal?: AbortSignal, provider = getActiveProvider()): Promise<string> {
+  const input: GenerateInput = { prompt, files, stylePreset, customCss };
+  const request = () => provider.generate(input, signal);
+  return finalizeHtml(await withRetry(request, signal), request, provider, signal);
 }
 
-export async function bringToLife(prompt: string, fileBase64?: string, mimeType?: string, stylePreset?: string, customCss?: string): Promise<string> {
-  const parts: any[] = [];
-  
-  let finalPrompt = fileBase64 
-    ? "Analyze this image/document. Build a fully interactive web app. IMPORTANT: Recreate visuals using CSS, SVGs, or Emojis." 
-    : prompt || "Create a demo app that shows off your capabilities.";
+/**
+ * Streaming variant of bringToLife. Yields the accumulated (cleaned) HTML after every chunk,
+ * so callers can render the partial document as it arrives; the last value is the validated document.
+ * Retries cover the request up to the first chunk; once tokens have been yielded, errors propagate.
+ * Breaking out of the consuming loop or aborting the signal closes the underlying stream.
+ */
+export async function* bringToLifeStream(prompt: string, files?: InlineFile[], stylePreset?: string, customCss?: string, signal?: AbortSignal, provider = getActiveProvider()): AsyncGenerator<string> {
+  const input: GenerateInput = { prompt, files, stylePreset, customCss };
 
-  if (stylePreset && stylePreset !== 'Default') {
-      finalPrompt += `\n\nDESIGN CONSTRAINT: Visual style: "${stylePreset}".`;
+  const { iterator, first } = await withRetry(async () => {
+    const iterator = provider.stream(input, signal)[Symbol.asyncIterator]();
+    return { iterator, first: await iterator.next() };
+  }, signal);
+
+  let text = '';
+  let finishReason: FinishReason | undefined;
+  let result = first;
+  try {
+    while (!result.done) {
+      if (signal?.aborted) throw abortError();
+      text += result.value.text;
+      finishReason = result.value.finishReason ?? finishReason;
+      yield extractPartialHtml(text);
+      result = await iterator.next();
+    }
+  } finally {
+    if (!result.done) await iterator.return?.();
   }
 
-  if (customCss) {
-      finalPrompt += `\n\nCUSTOM CSS REQ:\n${customCss}`;
+  if (signal?.aborted) throw abortError();
+  yield await finalizeHtml({ text, finishReason }, () => provider.generate(input, signal), provider, signal);
+}
+
+/**
+ * Asks for search/replace edits and applies them locally. Edits that don't apply are reported back
+ * to the model; undefined is returned when they still fail, so the caller can ask for the whole code.
+ */
+async function refineWithPatch<T>(input: RefineInput, apply: (text: string) => T, provider: ModelProvider, signal?: AbortSignal): Promise<T | undefined> {
+  let request: RefineInput = { ...input, patch: true };
+  for (let attempt = 0; ; attempt++) {
+    const output = await withRetry(() => provider.refine(request, signal), signal);
+    try {
+      if (output.finishReason === 'length') throw new PatchError(['the response stopped at the token limit']);
+      return apply(output.text);
+    } catch (error) {
+      if (!(error instanceof PatchError)) throw error;
+      if (output.finishReason === 'safety' || attempt >= MAX_PATCH_FOLLOW_UPS) {
+        console.warn(`Patch refinement failed (${error.problems.join('; ')}), requesting the whole code instead.`);
+        return undefined;
+      }
+      console.warn(`Patch failed to apply (${error.problems.join('; ')}), follow-up ${attempt + 1} of ${MAX_PATCH_FOLLOW_UPS}.`);
+      request = { ...input, patch: true, instruction: buildPatchRetryInstruction(input.instruction, error.problems) };
+    }
   }
+}
 
-  parts.push({ text: finalPrompt });
+/**
+ * Requests are fitted to the model's context window first. Large documents are changed with
+ * search/replace edits rather than regenerated, so they aren't cut off at the output limit.
+ */
+export async function refineApp(currentHtml: string, instruction: string, files?: InlineFile[], context?: RefineContext, signal?: AbortSignal, provider = getActiveProvider()): Promise<string> {
+  const input = await fitRefinement(provider, { currentHtml, instruction, files, context }, signal);
+  const request = () => provider.refine(input, signal);
+  if (shouldPatch(currentHtml, provider.limits)) {
+    const patched = await refineWithPatch(input, text => applyPatch(currentHtml, parsePatch(text)), provider, signal);
+    if (patched !== undefined) return finalizeHtml({ text: patched, finishReason: 'stop' }, request, provider, signal);
+  }
+  return finalizeHtml(await withRetry(request, signal), request, provider, signal);
+}
 
-  if (fileBase64 && mimeType) {
-    parts.push({
-      inlineData: { data: fileBase64, mimeType },
-    });
+/**
+ * Refines one element, identified by the id stamped on it in the preview. The model sees the whole
+ * document for context but returns only the element, which is spliced over the element's source range:
+ * the rest of the document is untouched. Invalid replacements are requested again.
+ */
+export async function refineElement(currentHtml: string, elementId: string, instruction: string, files?: InlineFile[], context?: RefineContext, signal?: AbortSignal, provider = getActiveProvider()): Promise<string> {
+  const anchor = findElement(currentHtml, elementId);
+  if (!anchor) throw new ElementNotFoundError(elementId);
+  const input = await fitRefinement(provider, { currentHtml, instruction, files, target: anchor, context }, signal);
+  const request = () => provider.refine(input, signal);
+
+  for (let attempt = 0; ; attempt++) {
+    const output = await withRetry(request, signal);
+    const fragment = extractFragment(output.text);
+    const problems = checkFragment(fragment, output.finishReason);
+    if (problems.length === 0) return replaceElement(currentHtml, anchor, fragment);
+    if (output.finishReason === 'safety' || attempt >= MAX_FOLLOW_UPS) throw new InvalidOutputError(problems);
+    console.warn(`Element edit failed validation (${problems.join('; ')}), follow-up ${attempt + 1} of ${MAX_FOLLOW_UPS}.`);
   }
+}
 
-  return withRetry(async () => {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: { parts },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.5,
-      },
-    });
-    return cleanHtmlOutput(response.text || "");
-  });
+/**
+ * Structured counterpart of bringToLife: the model returns separate files (index.html, CSS, JS).
+ * Throws a ProjectParseError when the response isn't a usable project.
+ */
+export async function generateProject(prompt: string, files?: InlineFile[], stylePreset?: string, customCss?: string, signal?: AbortSignal, provider = getActiveProvider()): Promise<ProjectFile[]> {
+  const input: GenerateInput = { prompt, files, stylePreset, customCss, format: 'project' };
+  const output = await withRetry(() => provider.generate(input, signal), signal);
+  return parseProject(output);
 }
 
-export async function refineApp(currentHtml: string, instruction: string, fileBase64?: string, mimeType?: string): Promise<string> {
-    const parts: any[] = [];
-    
-    if (fileBase64 && mimeType) {
-        parts.push({
-            inlineData: { data: fileBase64, mimeType }
-        });
-    }
+export async function refineProject(projectFiles: ProjectFile[], instruction: string, files?: InlineFile[], context?: RefineContext, signal?: AbortSignal, provider = getActiveProvider()): Promise<ProjectFile[]> {
+  const currentHtml = assembleProject(projectFiles);
+  const input = await fitRefinement(provider, { currentHtml, instruction, files, projectFiles, context }, signal);
+  if (shouldPatch(JSON.stringify({ files: projectFiles }), provider.limits)) {
+    const patched = await refineWithPatch(input, text => applyPatchToFiles(projectFiles, parsePatch(text)), provider, signal);
+    if (patched) return patched;
+  }
+  const output = await withRetry(() => provider.refine(input, signal), signal);
+  return parseProject(output);
+}
 
-    parts.push({ 
-        text: `Update this HTML code based on instruction: "${instruction}"\n\nCURRENT CODE:\n${currentHtml}` 
-    });
-
-    return withRetry(async () => {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL,
-            contents: { parts },
-            config: {
-                systemInstruction: "You are an expert Frontend Engineer. Modify the code precisely. Do not break existing features.",
-                temperature: 0.3, 
-            },
-        });
-        return cleanHtmlOutput(response.text || "");
-    });
-}
\ No newline at end of file
+/**
+ * Rewrites a creation as React sources (src/App.jsx and components) for the Vite project export
+ */
+export async function convertToReact(html: string, projectFiles?: ProjectFile[], signal?: AbortSignal, provider = getActiveProvider()): Promise<ProjectFile[]> {
+  const output = await withRetry(() => provider.convert({ html, projectFiles }, signal), signal);
+  return parseProject(output, REACT_ENTRY);
+}
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { FinishReason } from './providers/types';
+
+/**
+ * Extraction and validation of model-written HTML. Models wrap documents in prose and code fences,
+ * stop at the output token limit, or occasionally return nothing; services/gemini.ts uses these
+ * checks to continue or repair the output before it can reach history.
+ */
+
+export class InvalidOutputError extends Error {
+  constructor(public problems: string[]) {
+    super(`The model returned unusable HTML: ${problems.join('; ')}`);
+    this.name = 'InvalidOutputError';
+  }
+}
+
+export interface HtmlCheck {
+  problems: string[];
+  truncated: boolean; // The document stops early; continuing is more useful than repairing
+}
+
+const FENCE = /```[a-zA-Z]*[ \t]*\n?([\s\S]*?)(?:```|$)/g;
+const DOCUMENT_START = /<!DOCTYPE\s+html|<html[\s>]/i;
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Elements whose end tag HTML allows to be omitted; never reported as unclosed
+export const OPTIONAL_CLOSE = new Set([
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'option', 'optgroup', 'tr', 'td', 'th',
+  'thead', 'tbody', 'tfoot', 'colgroup', 'caption', 'rt', 'rp',
+]);
+
+// Foreign (SVG/MathML) content may self-close any element
+export const FOREIGN_ROOTS = new Set(['svg', 'math']);
+
+// A start or end tag: [1] "/" for end tags, [2] name, [3] attributes (quoted values may contain ">"),
+// [4] "/" when self-closing
+export const TAG = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g;
+
+export const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * Returns the HTML document inside arbitrary model text: the fenced block containing markup
+ * (wherever it appears), otherwise the span from `<!DOCTYPE`/`<html` onwards, otherwise the
+ * text itself when it contains tags. Returns '' when there is no markup at all.
+ */
+export function extractHtml(text: string): string {
+  if (!text?.trim()) return '';
+
+  const blocks = [...text.matchAll(FENCE)].map(m => m[1]);
+  const fenced = blocks.find(b => DOCUMENT_START.test(b)) ?? blocks.find(b => /<[a-zA-Z]/.test(b));
+  const source = fenced ?? text;
+
+  const start = source.search(DOCUMENT_START);
+  if (start >= 0) {
+    const end = source.search(/<\/html\s*>/i);
+    return (end >= 0 ? source.slice(start, source.indexOf('>', end) + 1) : source.slice(start)).trim();
+  }
+  return /<[a-zA-Z][\s\S]*>/.test(source) ? source.trim() : '';
+}
+
+/**
+ * Streaming counterpart of extractHtml: tolerant of a half-written fence at the end
+ */
+export function extractPartialHtml(text: string): string {
+  const opening = text.match(/```[a-zA-Z]*[ \t]*\n/);
+  let source = opening ? text.slice(opening.index! + opening[0].length) : text;
+  const start = source.search(DOCUMENT_START);
+  if (start > 0) source = source.slice(start);
+  return source.replace(/`{1,3}[\s\S]*$/, '');
+}
+
+/**
+ * Strips fences from a continuation, which is a fragment rather than a document
+ */
+export function extractContinuation(text: string): string {
+  const fenced = [...text.matchAll(FENCE)].map(m => m[1]);
+  return fenced.length > 0 ? fenced.join('') : text;
+}
+
+/**
+ * Returns the markup of an element edit: the fenced block containing markup, otherwise the text itself
+ */
+export function extractFragment(text: string): string {
+  const blocks = [...(text ?? '').matchAll(FENCE)].map(m => m[1]);
+  return (blocks.find(b => /<[a-zA-Z]/.test(b)) ?? text ?? '').trim();
+}
+
+/**
+ * Appends a continuation, dropping any text the model repeated from the end of the partial output.
+ * A continuation that starts the document over replaces it.
+ */
+export function mergeContinuation(partial: string, continuation: string): string {
+  if (/^\s*(<!DOCTYPE\s+html|<html[\s>])/i.test(continuation)) return continuation;
+  const maxOverlap = Math.min(partial.length, continuation.length, 2000);
+  for (let size = maxOverlap; size >= 20; size--) {
+    if (partial.endsWith(continuation.slice(0, size))) return partial + continuation.slice(size);
+  }
+  return partial + continuation;
+}
+
+/**
+ * Non-void elements left open at the end, or implicitly closed by an outer end tag
+ */
+function unclosedElements(html: string): string[] {
+  const stack: string[] = [];
+  const unclosed: string[] = [];
+  let foreignDepth = 0;
+
+  for (const [, closing, rawName, , selfClosing] of html.matchAll(TAG)) {
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name)) continue;
+    if (closing) {
+      const index = stack.lastIndexOf(name);
+      if (index < 0) continue; // Stray end tags are ignored by browsers as well
+      unclosed.push(...stack.splice(index).slice(1));
+      if (FOREIGN_ROOTS.has(name)) foreignDepth--;
+    } else if (!(selfClosing && foreignDepth > 0)) {
+      stack.push(name);
+      if (FOREIGN_ROOTS.has(name)) foreignDepth++;
+    }
+  }
+  return [...unclosed, ...stack].filter(name => !OPTIONAL_CLOSE.has(name));
+}
+
+/**
+ * Structural checks on an extracted document. `finishReason` comes from the provider and
+ * flags output that stopped at the token limit even when it happens to look complete.
+ */
+export function checkHtml(html: string, finishReason?: FinishReason): HtmlCheck {
+  const problems: string[] = [];
+  let truncated = false;
+
+  if (finishReason === 'safety') problems.push('blocked by the model\'s safety filters');
+  if (!html.trim()) {
+    return { problems: [...problems, 'empty response'], truncated: false };
+  }
+  if (finishReason === 'length') {
+    problems.push('output stopped at the token limit');
+    truncated = true;
+  }
+
+  // Script/style bodies and comments are opaque to the tag scan
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, '');
+  if (/<!--(?![\s\S]*-->)/.test(withoutComments)) {
+    problems.push('unterminated comment');
+    truncated = true;
+  }
+  const markup = withoutComments.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '<$1></$1>');
+  const openRaw = markup.match(/<(script|style)\b[^>]*>(?![\s\S]*<\/\1\s*>)/i);
+  if (openRaw) {
+    problems.push(`unclosed <${openRaw[1].toLowerCase()}>`);
+    truncated = true;
+  }
+  if (/<[a-zA-Z\/][^>]*$/.test(markup)) {
+    problems.push('ends inside a tag');
+    truncated = true;
+  }
+
+  const hasDocument = DOCUMENT_START.test(markup);
+  if (hasDocument && !/<\/html\s*>/i.test(markup)) {
+    problems.push('missing </html>');
+    truncated = true;
+  }
+
+  const unclosed = unclosedElements(markup);
+  if (unclosed.length > 0) {
+    problems.push(`unclosed ${unclosed.slice(-3).map(n => `<${n}>`).join(', ')}${unclosed.length > 3 ? ` and ${unclosed.length - 3} more` : ''}`);
+  }
+
+  // Parse like the preview iframe will, where a DOM is available
+  if (typeof DOMParser !== 'undefined' && problems.length === 0) {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    if (doc.body.childElementCount === 0 && !doc.body.textContent?.trim()) {
+      problems.push('document body is empty');
+    }
+  }
+
+  return { problems, truncated };
+}
+
+/**
+ * checkHtml for the replacement of a single element; a whole document means the model ignored the target
+ */
+export const checkFragment = (html: string, finishReason?: FinishReason): string[] =>
+  DOCUMENT_START.test(html) ? ['returned the whole document instead of the element'] : checkHtml(html, finishReason).problems;
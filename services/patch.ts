@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile } from './providers/types';
+import { normalizePath } from './project';
+
+/**
+ * Search/replace edits returned by patch-mode refinements, so a large document is changed locally
+ * instead of being regenerated. Edits apply all-or-nothing: a single edit that can't be located
+ * fails the whole patch with a PatchError listing every problem.
+ */
+
+export interface PatchEdit {
+  path?: string; // Project file the edit applies to
+  search: string; // Code to replace; empty when a project edit creates a file
+  replace: string;
+}
+
+export class PatchError extends Error {
+  constructor(public problems: string[]) {
+    super(`The edits could not be applied: ${problems.join('; ')}`);
+    this.name = 'PatchError';
+  }
+}
+
+const EDIT_START = /^<{5,9} ?SEARCH\s*$/;
+const EDIT_DIVIDER = /^={5,9}\s*$/;
+const EDIT_END = /^>{5,9} ?REPLACE\s*$/;
+const FILE_LINE = /^FILE:\s*(\S+)\s*$/;
+
+const excerpt = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > 60 ? `${line.slice(0, 59)}…` : line;
+};
+
+export function parsePatch(text: string): PatchEdit[] {
+  const edits: PatchEdit[] = [];
+  let path: string | undefined;
+  let search: string[] | null = null;
+  let replace: string[] | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (search === null) {
+      // Outside a block only file lines matter; prose and code fences around the edits are ignored
+      if (EDIT_START.test(line)) search = [];
+      else path = line.match(FILE_LINE)?.[1] ?? path;
+    } else if (replace === null) {
+      if (EDIT_DIVIDER.test(line)) replace = [];
+      else search.push(line);
+    } else if (EDIT_END.test(line)) {
+      edits.push({ path, search: search.join('\n'), replace: replace.join('\n') });
+      search = replace = null;
+    } else {
+      replace.push(line);
+    }
+  }
+
+  if (search !== null) throw new PatchError(['the last edit block is not closed']);
+  if (edits.length === 0) throw new PatchError(['no edit blocks in the response']);
+  return edits;
+}
+
+/**
+ * Range of `search` in `source`: an exact unique match, or else a unique run of lines that matches
+ * when indentation and trailing whitespace are ignored
+ */
+function locate(source: string, search: string): [number, number] | string {
+  const exact = source.indexOf(search);
+  if (exact >= 0) {
+    return source.indexOf(search, exact + 1) < 0 ? [exact, exact + search.length] : `"${excerpt(search)}" matches more than one place`;
+  }
+
+  const lines = source.split('\n');
+  const wanted = search.split('\n').map(line => line.trim());
+  while (wanted.length > 1 && wanted[wanted.length - 1] === '') wanted.pop();
+  const starts: number[] = [];
+  for (let i = 0; i + wanted.length <= lines.length; i++) {
+    if (wanted.every((line, j) => lines[i + j].trim() === line)) starts.push(i);
+  }
+  if (starts.length !== 1) {
+    return starts.length === 0 ? `"${excerpt(search)}" was not found` : `"${excerpt(search)}" matches more than one place`;
+  }
+
+  const offset = (line: number) => lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0);
+  const start = offset(starts[0]);
+  return [start, offset(starts[0] + wanted.length) - 1];
+}
+
+// Applies edits in order, collecting problems instead of stopping at the first
+function applyEdits(source: string, edits: PatchEdit[], problems: string[], prefix = ''): string {
+  return edits.reduce((text, edit) => {
+    if (!edit.search.trim()) {
+      problems.push(`${prefix}an edit has an empty SEARCH section`);
+      return text;
+    }
+    const range = locate(text, edit.search);
+    if (typeof range === 'string') {
+      problems.push(prefix + range);
+      return text;
+    }
+    return text.slice(0, range[0]) + edit.replace + text.slice(range[1]);
+  }, source);
+}
+
+export function applyPatch(source: string, edits: PatchEdit[]): string {
+  const problems: string[] = [];
+  const result = applyEdits(source, edits, problems);
+  if (problems.length > 0) throw new PatchError(problems);
+  return result;
+}
+
+/**
+ * Applies edits to the files they name. An edit with an empty SEARCH creates a new file.
+ * FILE paths are normalized like parsed project files; one that could leave the project fails the patch.
+ */
+export function applyPatchToFiles(files: ProjectFile[], edits: PatchEdit[]): ProjectFile[] {
+  const problems: string[] = [];
+  let result = files;
+
+  for (const edit of edits) {
+    if (!edit.path) {
+      problems.push(`"${excerpt(edit.search || edit.replace)}" has no FILE line`);
+      continue;
+    }
+    const path = normalizePath(edit.path);
+    if (!path) {
+      problems.push(`${edit.path} is not a valid project path`);
+      continue;
+    }
+    const file = result.find(f => normalizePath(f.path) === path);
+    if (!file) {
+      if (edit.search.trim()) problems.push(`${path} does not exist`);
+      else result = [...result, { path, content: edit.replace }];
+      continue;
+    }
+    const content = applyEdits(file.content, [edit], problems, `${path}: `);
+    result = result.map(f => f === file ? { ...f, content } : f);
+  }
+
+  if (problems.length > 0) throw new PatchError(problems);
+  return result;
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Thin wrapper around the CDN-loaded pdf.js (see index.html) for page previews and rasterization.
+ * Page numbers are 1-based, as in pdf.js.
+ */
+
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+// Scale used when a page is sent to the model instead of the whole document
+export const RASTER_SCALE = 2;
+export const THUMBNAIL_SCALE = 0.3;
+
+const MAX_CACHED_DOCUMENTS = 4;
+const documents = new Map<string, Promise<any>>();
+
+/**
+ * Loads (or reuses) the parsed document for a PDF data URL. A few documents are kept so
+ * thumbnails, the page viewer and rasterization don't re-parse the same file.
+ */
+export function loadPdf(dataUrl: string): Promise<any> {
+  const cached = documents.get(dataUrl);
+  if (cached) {
+    // Refresh recency
+    documents.delete(dataUrl);
+    documents.set(dataUrl, cached);
+    return cached;
+  }
+  if (!window.pdfjsLib) return Promise.reject(new Error("PDF library not initialized"));
+
+  const loading: Promise<any> = window.pdfjsLib.getDocument(dataUrl).promise;
+  documents.set(dataUrl, loading);
+  loading.catch(() => documents.delete(dataUrl));
+
+  while (documents.size > MAX_CACHED_DOCUMENTS) {
+    const [oldest, promise] = documents.entries().next().value!;
+    documents.delete(oldest);
+    promise.then((pdf: any) => pdf.destroy()).catch(() => {});
+  }
+  return loading;
+}
+
+export async function getPageCount(dataUrl: string): Promise<number> {
+  const pdf = await loadPdf(dataUrl);
+  return pdf.numPages;
+}
+
+/** A page render in progress. Cancelling rejects `promise` with an error that isRenderCancelled recognizes. */
+export interface PageRender {
+  promise: Promise<void>;
+  cancel: () => void;
+}
+
+// pdf.js's name for the error of a cancelled render task
+const RENDER_CANCELLED = 'RenderingCancelledException';
+
+export const isRenderCancelled = (error: unknown) => (error as Error | undefined)?.name === RENDER_CANCELLED;
+
+/**
+ * Renders a page onto a canvas. pdf.js refuses overlapping renders on one canvas, so a render
+ * must be cancelled before the next one on the same canvas starts.
+ */
+export function renderPage(dataUrl: string, pageNumber: number, canvas: HTMLCanvasElement, scale = RASTER_SCALE): PageRender {
+  let task: any = null;
+  let cancelled = false;
+
+  const promise = (async () => {
+    const pdf = await loadPdf(dataUrl);
+    const page = await pdf.getPage(pageNumber);
+    if (cancelled) throw Object.assign(new Error('Rendering cancelled'), { name: RENDER_CANCELLED });
+    const viewport = page.getViewport({ scale });
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    task = page.render({ canvasContext: canvas.getContext('2d'), viewport });
+    await task.promise;
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      task?.cancel();
+    },
+  };
+}
+
+/**
+ * Renders a page to a PNG data URL
+ */
+export async function rasterizePage(dataUrl: string, pageNumber: number, scale = RASTER_SCALE): Promise<string> {
+  const canvas = document.createElement('canvas');
+  await renderPage(dataUrl, pageNumber, canvas, scale).promise;
+  return canvas.toDataURL('image/png');
+}
+
+export const allPages = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
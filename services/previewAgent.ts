@@ -0,0 +1,399 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ELEMENT_ID_ATTRIBUTE } from './elementAnchors';
+
+/**
+ * Agent script for the preview iframe. The preview runs without `allow-same-origin`, so the host can't
+ * reach into its document; instead this script handles hover highlighting and element picking for the
+ * inspect and edit modes inside the frame and reports results over a typed postMessage protocol.
+ */
+
+export const AGENT_MESSAGE_SOURCE = 'preview-agent';
+export const HOST_MESSAGE_SOURCE = 'preview-host';
+
+export type AgentMode = 'interact' | 'inspect' | 'edit';
+
+/** A stamped element as listed in the inspector's DOM tree */
+export interface ElementSummary {
+  elementId: string;
+  tagName: string;
+  id: string;
+  className: string;
+}
+
+/** Side widths in CSS pixels, in top/right/bottom/left order */
+export type BoxSides = [number, number, number, number];
+
+export interface BoxModel {
+  margin: BoxSides;
+  border: BoxSides;
+  padding: BoxSides;
+  width: number; // Content box
+  height: number;
+}
+
+/**
+ * An element picked in inspect mode (or selected from the tree). It is re-sent after every live
+ * change, so computed styles and the box model stay current.
+ */
+export interface InspectedElement {
+  elementId?: string;
+  tagName: string;
+  id: string;
+  className: string;
+  text: string;
+  computedStyles: { [key: string]: string };
+  box: BoxModel;
+  ancestors: ElementSummary[]; // Stamped ancestors, outermost first
+  children: ElementSummary[]; // Nearest stamped descendants
+}
+
+/**
+ * An element clicked in edit mode; x/y are client coordinates inside the frame. Clicks resolve to the
+ * nearest element stamped by stampElementIds, whose id locates it in the source.
+ */
+export interface EditTarget {
+  elementId?: string; // Missing when neither the element nor an ancestor is stamped
+  tagName: string;
+  description: string;
+  innerHtml: string;
+  textOnly: boolean; // No child elements, so its text can be edited in place
+  computedStyles: { [key: string]: string };
+  x: number;
+  y: number;
+}
+
+/**
+ * Direct edits: 'edit-text' makes the element contenteditable, 'preview-style' and 'set-classes' change
+ * the live DOM until 'revert'. Committed changes come back as 'text-edited' and 'move'.
+ * 'select' inspects an element chosen in the inspector's tree.
+ */
+export type HostMessage =
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'set-mode'; mode: AgentMode }
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'select'; elementId: string }
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'edit-text'; elementId: string }
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'preview-style'; elementId: string; styles: { [key: string]: string } }
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'set-classes'; elementId: string; className: string }
+  | { source: typeof HOST_MESSAGE_SOURCE; type: 'revert'; elementId: string };
+
+/**
+ * 'ready' is posted on every page load; the host answers with the current mode. 'text-edit-cancelled'
+ * closes an 'edit-text' without a change; 'drag-start' and 'drag-end' bracket the drag a 'move' ends.
+ */
+export type AgentMessage =
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'ready' }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'inspect'; element: InspectedElement }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'edit'; target: EditTarget }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'text-edited'; elementId: string; text: string }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'text-edit-cancelled'; elementId: string }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'drag-start'; elementId: string }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'drag-end' }
+  | { source: typeof AGENT_MESSAGE_SOURCE; type: 'move'; elementId: string; targetId: string; position: 'before' | 'after' };
+
+// Computed style properties reported to the inspector, grouped as displayed
+const INSPECTED_STYLES = [
+  // Layout
+  'display', 'position', 'width', 'height', 'boxSizing', 'zIndex',
+  // Flexbox/Grid
+  'flexDirection', 'justifyContent', 'alignItems',
+  // Typography
+  'color', 'fontSize', 'fontWeight', 'fontFamily', 'lineHeight', 'textAlign',
+  // Spacing & Border
+  'padding', 'margin', 'border', 'borderRadius',
+  // Visuals
+  'backgroundColor', 'boxShadow', 'opacity', 'cursor',
+];
+
+const HOVER_STYLES = `
+  .preview-agent-inspect { outline: 2px solid #3b82f6 !important; outline-offset: -2px !important; background-color: rgba(59, 130, 246, 0.1) !important; transition: all 0.1s ease; }
+  .preview-agent-edit { outline: 2px dashed #f59e0b !important; outline-offset: -2px !important; background-color: rgba(245, 158, 11, 0.05) !important; cursor: pointer !important; transition: all 0.1s ease; }
+  .preview-agent-selected { outline: 2px solid #3b82f6 !important; outline-offset: -2px !important; }
+  .preview-agent-text { outline: 2px solid #f59e0b !important; outline-offset: 2px !important; cursor: text !important; }
+  .preview-agent-drop-before { box-shadow: inset 0 3px 0 #f59e0b !important; }
+  .preview-agent-drop-after { box-shadow: inset 0 -3px 0 #f59e0b !important; }
+`;
+
+// Kept on one line (like the console bridge) so line numbers of the app's scripts don't shift
+const AGENT_SCRIPT = `(function () {
+  var SOURCE = '${AGENT_MESSAGE_SOURCE}';
+  var HOST = '${HOST_MESSAGE_SOURCE}';
+  var HOVER = { inspect: 'preview-agent-inspect', edit: 'preview-agent-edit' };
+  var SELECTED = 'preview-agent-selected';
+  var AGENT_CLASSES = [HOVER.inspect, HOVER.edit, SELECTED, 'preview-agent-text', 'preview-agent-drop-before', 'preview-agent-drop-after'];
+  var STYLES = ${JSON.stringify(INSPECTED_STYLES)};
+  var ID_ATTRIBUTE = '${ELEMENT_ID_ATTRIBUTE}';
+  var mode = 'interact';
+  var editing = null;
+  var dragged = null;
+  var selected = null;
+  var originals = new Map();
+  function post(message) {
+    message.source = SOURCE;
+    parent.postMessage(message, '*');
+  }
+  function classNameOf(el) {
+    return (el.getAttribute('class') || '').split(/\\s+/).filter(function (c) { return c && AGENT_CLASSES.indexOf(c) < 0; }).join(' ');
+  }
+  function textOf(el) {
+    return (el.innerText !== undefined ? el.innerText : el.textContent) || '';
+  }
+  function clearHover() {
+    document.querySelectorAll('.' + HOVER.inspect + ', .' + HOVER.edit).forEach(function (el) { el.classList.remove(HOVER.inspect, HOVER.edit); });
+  }
+  function stylesOf(el) {
+    var computed = getComputedStyle(el);
+    var styles = {};
+    STYLES.forEach(function (name) { styles[name] = computed[name]; });
+    return styles;
+  }
+  function summaryOf(el) {
+    return { elementId: el.getAttribute(ID_ATTRIBUTE), tagName: el.tagName.toLowerCase(), id: el.id, className: classNameOf(el) };
+  }
+  function stampedParent(el) {
+    var parentElement = el.parentElement;
+    return parentElement ? parentElement.closest('[' + ID_ATTRIBUTE + ']') : null;
+  }
+  function sides(computed, prefix, suffix) {
+    return ['Top', 'Right', 'Bottom', 'Left'].map(function (side) { return parseFloat(computed[prefix + side + (suffix || '')]) || 0; });
+  }
+  function boxOf(el) {
+    var computed = getComputedStyle(el);
+    var rect = el.getBoundingClientRect();
+    var border = sides(computed, 'border', 'Width');
+    var padding = sides(computed, 'padding');
+    return {
+      margin: sides(computed, 'margin'),
+      border: border,
+      padding: padding,
+      width: Math.max(0, rect.width - border[1] - border[3] - padding[1] - padding[3]),
+      height: Math.max(0, rect.height - border[0] - border[2] - padding[0] - padding[2])
+    };
+  }
+  function inspect(el) {
+    if (selected && selected !== el) selected.classList.remove(SELECTED);
+    selected = el;
+    el.classList.add(SELECTED);
+    var ancestors = [];
+    for (var ancestor = stampedParent(el); ancestor; ancestor = stampedParent(ancestor)) ancestors.unshift(summaryOf(ancestor));
+    var children = Array.prototype.filter.call(el.querySelectorAll('[' + ID_ATTRIBUTE + ']'), function (child) { return stampedParent(child) === el; });
+    post({ type: 'inspect', element: {
+      elementId: el.getAttribute(ID_ATTRIBUTE) || undefined, tagName: el.tagName.toLowerCase(), id: el.id, className: classNameOf(el),
+      text: textOf(el).substring(0, 100), computedStyles: stylesOf(el), box: boxOf(el), ancestors: ancestors, children: children.slice(0, 50).map(summaryOf)
+    } });
+  }
+  function remember(el) {
+    if (!originals.has(el)) originals.set(el, { style: el.getAttribute('style'), className: classNameOf(el) });
+  }
+  function byId(id) {
+    return document.querySelector('[' + ID_ATTRIBUTE + '="' + id + '"]');
+  }
+  function clearDrop() {
+    document.querySelectorAll('.preview-agent-drop-before, .preview-agent-drop-after').forEach(function (el) { el.classList.remove('preview-agent-drop-before', 'preview-agent-drop-after'); });
+  }
+  function setDraggable(el) {
+    document.querySelectorAll('[data-preview-agent-draggable]').forEach(function (other) {
+      if (other === el) return;
+      other.removeAttribute('draggable');
+      other.removeAttribute('data-preview-agent-draggable');
+    });
+    if (el && el.hasAttribute(ID_ATTRIBUTE) && !el.hasAttribute('draggable')) {
+      el.setAttribute('draggable', 'true');
+      el.setAttribute('data-preview-agent-draggable', '');
+    }
+  }
+  function dropPosition(target, event) {
+    var rect = target.getBoundingClientRect();
+    var parentStyle = getComputedStyle(target.parentElement);
+    var horizontal = parentStyle.display.indexOf('flex') >= 0 && parentStyle.flexDirection.indexOf('row') === 0;
+    return horizontal ? (event.clientX < rect.left + rect.width / 2 ? 'before' : 'after') : (event.clientY < rect.top + rect.height / 2 ? 'before' : 'after');
+  }
+  function dropTarget(event) {
+    if (!dragged || !event.target.closest) return null;
+    var target = event.target.closest('[' + ID_ATTRIBUTE + ']');
+    while (target && target.parentElement !== dragged.parentElement) target = target.parentElement && target.parentElement.closest('[' + ID_ATTRIBUTE + ']');
+    return target && target !== dragged ? target : null;
+  }
+  function editText(el) {
+    var original = el.textContent;
+    editing = el;
+    clearHover();
+    el.classList.add('preview-agent-text');
+    el.setAttribute('contenteditable', 'true');
+    el.focus();
+    var range = document.createRange();
+    range.selectNodeContents(el);
+    var selection = getSelection();
+    selection.removeAllRanges();
+    selection.addRange(range);
+    function finish(commit) {
+      el.removeEventListener('keydown', onKey, true);
+      el.removeEventListener('blur', onBlur, true);
+      el.removeAttribute('contenteditable');
+      el.classList.remove('preview-agent-text');
+      editing = null;
+      if (commit && el.textContent !== original) post({ type: 'text-edited', elementId: el.getAttribute(ID_ATTRIBUTE), text: el.textContent });
+      else { el.textContent = original; post({ type: 'text-edit-cancelled', elementId: el.getAttribute(ID_ATTRIBUTE) }); }
+    }
+    function onKey(event) {
+      event.stopPropagation();
+      if (event.key === 'Enter' && !event.shiftKey) { event.preventDefault(); el.blur(); }
+      if (event.key === 'Escape') { event.preventDefault(); finish(false); }
+    }
+    function onBlur() { finish(true); }
+    el.addEventListener('keydown', onKey, true);
+    el.addEventListener('blur', onBlur, true);
+  }
+  function isPickable(el) {
+    return el && el.classList && el !== document.body && el !== document.documentElement;
+  }
+  function pickedElement(el) {
+    if (mode === 'interact' || !el.closest) return el;
+    var anchor = el.closest('[' + ID_ATTRIBUTE + ']');
+    return anchor && isPickable(anchor) ? anchor : el;
+  }
+  var style = document.createElement('style');
+  style.setAttribute('data-preview-agent', '');
+  style.textContent = ${JSON.stringify(HOVER_STYLES)};
+  (document.head || document.documentElement).appendChild(style);
+  document.addEventListener('mouseover', function (event) {
+    if (mode === 'interact' || editing || dragged || !isPickable(event.target)) return;
+    event.stopPropagation();
+    clearHover();
+    var picked = pickedElement(event.target);
+    picked.classList.add(HOVER[mode]);
+    if (mode === 'edit') setDraggable(picked);
+  }, true);
+  document.addEventListener('mouseout', function (event) {
+    if (mode === 'interact' || !event.target.classList) return;
+    event.stopPropagation();
+    event.target.classList.remove(HOVER.inspect, HOVER.edit);
+    pickedElement(event.target).classList.remove(HOVER.inspect, HOVER.edit);
+  }, true);
+  document.addEventListener('dragstart', function (event) {
+    if (mode !== 'edit' || !event.target.hasAttribute || !event.target.hasAttribute('data-preview-agent-draggable')) return;
+    dragged = event.target;
+    clearHover();
+    post({ type: 'drag-start', elementId: dragged.getAttribute(ID_ATTRIBUTE) });
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', '');
+  }, true);
+  document.addEventListener('dragover', function (event) {
+    var target = dropTarget(event);
+    clearDrop();
+    if (!target) return;
+    event.preventDefault();
+    target.classList.add('preview-agent-drop-' + dropPosition(target, event));
+  }, true);
+  document.addEventListener('drop', function (event) {
+    var target = dropTarget(event);
+    clearDrop();
+    if (!target) return;
+    event.preventDefault();
+    var position = dropPosition(target, event);
+    target.parentElement.insertBefore(dragged, position === 'before' ? target : target.nextSibling);
+    post({ type: 'move', elementId: dragged.getAttribute(ID_ATTRIBUTE), targetId: target.getAttribute(ID_ATTRIBUTE), position: position });
+  }, true);
+  document.addEventListener('dragend', function () {
+    if (dragged) post({ type: 'drag-end' });
+    dragged = null;
+    clearDrop();
+  }, true);
+  document.addEventListener('click', function (event) {
+    if (mode === 'interact' || (editing && editing.contains(event.target))) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (!event.target || !event.target.tagName) return;
+    var target = pickedElement(event.target);
+    var tagName = target.tagName.toLowerCase();
+    var className = classNameOf(target);
+    var text = textOf(target);
+    if (mode === 'inspect') {
+      inspect(target);
+    } else {
+      var description = tagName;
+      if (target.id) description += '#' + target.id;
+      if (className) description += '.' + className.split(' ').join('.');
+      if (text) description += ' (current text: "' + text.substring(0, 20) + '...")';
+      post({ type: 'edit', target: { elementId: target.getAttribute(ID_ATTRIBUTE) || undefined, tagName: tagName, description: description, innerHtml: target.innerHTML, textOnly: target.childElementCount === 0, computedStyles: stylesOf(target), x: event.clientX, y: event.clientY } });
+    }
+  }, true);
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.source !== HOST) return;
+    if (data.type === 'set-mode') {
+      mode = data.mode;
+      clearHover();
+      setDraggable(null);
+      if (selected) selected.classList.remove(SELECTED);
+      selected = null;
+    } else if (data.type === 'select') {
+      var picked = byId(data.elementId);
+      if (!picked) return;
+      inspect(picked);
+      picked.scrollIntoView({ block: 'nearest' });
+    } else if (data.type === 'edit-text') {
+      var el = byId(data.elementId);
+      if (el && !editing) editText(el);
+    } else if (data.type === 'preview-style') {
+      var styled = byId(data.elementId);
+      if (!styled) return;
+      remember(styled);
+      Object.keys(data.styles).forEach(function (name) { styled.style[name] = data.styles[name]; });
+      if (styled === selected) inspect(styled);
+    } else if (data.type === 'set-classes') {
+      var classed = byId(data.elementId);
+      if (!classed) return;
+      remember(classed);
+      var kept = AGENT_CLASSES.filter(function (c) { return classed.classList.contains(c); });
+      classed.setAttribute('class', [data.className].concat(kept).join(' ').trim());
+      if (classed === selected) inspect(classed);
+    } else if (data.type === 'revert') {
+      var reverted = byId(data.elementId);
+      if (!reverted || !originals.has(reverted)) return;
+      var original = originals.get(reverted);
+      originals.delete(reverted);
+      if (original.style === null) reverted.removeAttribute('style');
+      else reverted.setAttribute('style', original.style);
+      reverted.setAttribute('class', original.className);
+      if (reverted === selected) inspect(reverted);
+    }
+  });
+  post({ type: 'ready' });
+})();`.replace(/\n\s*/g, ' ');
+
+/**
+ * Inserts markup at the start of <head> (or the document), ahead of the app's own scripts
+ */
+export function injectHeadTag(html: string, tag: string): string {
+  for (const opening of [/<head\b[^>]*>/i, /<html\b[^>]*>/i, /<!DOCTYPE[^>]*>/i]) {
+    const match = html.match(opening);
+    if (match) return html.replace(match[0], found => found + tag);
+  }
+  return tag + html;
+}
+
+export const injectPreviewAgent = (html: string) =>
+  injectHeadTag(html, `<script data-preview-agent>${AGENT_SCRIPT}</script>`);
+
+export const isAgentMessage = (data: unknown): data is AgentMessage =>
+  typeof data === 'object' && data !== null && (data as any).source === AGENT_MESSAGE_SOURCE;
+
+export const setModeMessage = (mode: AgentMode): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'set-mode', mode });
+
+export const editTextMessage = (elementId: string): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'edit-text', elementId });
+
+export const previewStyleMessage = (elementId: string, styles: { [key: string]: string }): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'preview-style', elementId, styles });
+
+export const setClassesMessage = (elementId: string, className: string): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'set-classes', elementId, className });
+
+export const revertMessage = (elementId: string): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'revert', elementId });
+
+export const selectMessage = (elementId: string): HostMessage =>
+  ({ source: HOST_MESSAGE_SOURCE, type: 'select', elementId });
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { injectHeadTag } from './previewAgent';
+import { escapeAttribute } from './htmlOutput';
+
+/**
+ * Content-Security-Policy for the isolated preview mode. The policy is delivered as a <meta> tag at the
+ * top of <head>, so it applies before any of the app's resources load: inline code keeps working,
+ * external scripts, styles, fonts and images only load from allowlisted origins, and network requests
+ * (fetch, XHR, WebSocket, form posts) are blocked. Violations are reported by the console bridge.
+ */
+
+export const DEFAULT_PREVIEW_ALLOWLIST = ['https://cdn.tailwindcss.com'];
+
+// A CSP host-source: optional scheme, optional "*." wildcard, host, optional port and path.
+// Anything else (spaces, ';', quotes, keywords) could smuggle extra directives into the policy.
+const HOST_SOURCE = /^(https?:\/\/)?(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?(\/[\w\-./~%]*)?$/i;
+
+export const isValidSource = (source: string) => HOST_SOURCE.test(source.trim());
+
+/**
+ * Whether an absolute URL is covered by an allowlist entry, following CSP host-source matching:
+ * a source without a scheme matches http(s), "*." matches subdomains only, a path ending in "/"
+ * matches everything below it.
+ */
+export function matchesSource(url: string, source: string): boolean {
+  if (!isValidSource(source)) return false;
+  let target: URL;
+  try {
+    target = new URL(url.startsWith('//') ? `https:${url}` : url);
+  } catch (e) {
+    return false;
+  }
+  const [, scheme, wildcard, host, port, path] = source.trim().match(/^(?:(https?):\/\/)?(\*\.)?([^/:]+)(?::(\d+))?(\/.*)?$/i)!;
+  if (scheme ? target.protocol !== `${scheme.toLowerCase()}:` : !/^https?:$/.test(target.protocol)) return false;
+  const hostname = target.hostname.toLowerCase();
+  if (wildcard ? !hostname.endsWith(`.${host.toLowerCase()}`) : hostname !== host.toLowerCase()) return false;
+  if (port && target.port !== port) return false;
+  if (path && path !== '/') return path.endsWith('/') ? target.pathname.startsWith(path) : target.pathname === path;
+  return true;
+}
+
+export function buildPreviewCsp(allowlist: string[]): string {
+  const sources = [...new Set(allowlist.map(s => s.trim()).filter(isValidSource))].join(' ');
+  const withSources = (...base: string[]) => [...base, sources].filter(Boolean).join(' ');
+  return [
+    "default-src 'none'",
+    `script-src ${withSources("'unsafe-inline'")}`,
+    `style-src ${withSources("'unsafe-inline'")}`,
+    `font-src ${withSources('data:')}`,
+    `img-src ${withSources('data:', 'blob:')}`,
+    "media-src data: blob:",
+    "connect-src 'none'",
+    "form-action 'none'",
+    "base-uri 'none'",
+  ].join('; ');
+}
+
+/**
+ * Adds the policy as the first element of <head>; call after injecting the preview scripts
+ */
+export const injectCsp = (html: string, csp: string) =>
+  injectHeadTag(html, `<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(csp)}">`);
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile } from './providers/types';
+import { escapeAttribute } from './htmlOutput';
+
+/**
+ * Multi-file project output. The model returns `{ files: [{ path, content }] }`; the files are kept
+ * on the revision and assembled into a single document (stylesheets and scripts inlined) for the
+ * preview iframe, so everything that works on `html` keeps working for projects.
+ */
+
+export const PROJECT_ENTRY = 'index.html';
+
+// Plain JSON Schema for providers that accept one (OpenAI-compatible `response_format`)
+export const PROJECT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    files: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string' },
+          content: { type: 'string' },
+        },
+        required: ['path', 'content'],
+      },
+    },
+  },
+  required: ['files'],
+};
+
+export class ProjectParseError extends Error {
+  constructor(detail: string) {
+    super(`The model returned an invalid project: ${detail}`);
+    this.name = 'ProjectParseError';
+  }
+}
+
+/**
+ * Project-relative form of a model-chosen path, or '' when it could point outside the project
+ * (e.g. in an extracted ZIP): `..` and `.` segments, empty segments, drive letters and control characters.
+ */
+export function normalizePath(path: string): string {
+  const normalized = path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  const safe = normalized.split('/').every(segment =>
+    segment !== '' && segment !== '.' && segment !== '..' && !/[:\x00-\x1f]/.test(segment)
+  );
+  return safe ? normalized : '';
+}
+
+export function parseProjectOutput(text: string, entry = PROJECT_ENTRY): ProjectFile[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/, '').replace(/```\s*$/, '');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new ProjectParseError('response is not valid JSON');
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed?.files;
+  if (!Array.isArray(list)) throw new ProjectParseError('missing "files" array');
+
+  // Later duplicates win, keeping the first position
+  const files = new Map<string, string>();
+  list.forEach((file: any) => {
+    if (typeof file?.path !== 'string' || typeof file?.content !== 'string') return;
+    const path = normalizePath(file.path);
+    if (path) files.set(path, file.content);
+    else console.warn(`Dropped project file with an unsafe path: ${file.path}`);
+  });
+
+  if (!files.has(entry)) throw new ProjectParseError(`no ${entry}`);
+  return [...files].map(([path, content]) => ({ path, content }));
+}
+
+// A literal "</script" inside inlined code would end the script element early
+const escapeInlineScript = (code: string) => code.replace(/<\/script/gi, '<\\/script');
+
+/**
+ * Builds the single document rendered in the preview: local stylesheets and scripts referenced
+ * by index.html are inlined in place; CSS/JS files it doesn't reference are appended.
+ */
+export function assembleProject(files: ProjectFile[]): string {
+  const byPath = new Map(files.map(f => [normalizePath(f.path), f.content]));
+  const used = new Set([PROJECT_ENTRY]);
+  let html = byPath.get(PROJECT_ENTRY) ?? '<!DOCTYPE html>\n<html>\n<head></head>\n<body></body>\n</html>';
+
+  html = html.replace(/<link\b[^>]*>/gi, tag => {
+    const href = tag.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!href || !/\brel\s*=\s*["']?stylesheet/i.test(tag)) return tag;
+    const path = normalizePath(href);
+    const css = byPath.get(path);
+    if (css === undefined) return tag;
+    used.add(path);
+    return `<style data-file="${escapeAttribute(path)}">\n${css}\n</style>`;
+  });
+
+  html = html.replace(/<script\b([^>]*)>\s*<\/script>/gi, (tag, attributes: string) => {
+    const src = attributes.match(/\bsrc\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!src) return tag;
+    const path = normalizePath(src);
+    const js = byPath.get(path);
+    if (js === undefined) return tag;
+    used.add(path);
+    const rest = attributes.replace(/\s*\bsrc\s*=\s*["'][^"']+["']/i, '');
+    return `<script${rest} data-file="${escapeAttribute(path)}">\n${escapeInlineScript(js)}\n</script>`;
+  });
+
+  const unused = [...byPath.keys()].filter(path => !used.has(path));
+  const styles = unused
+    .filter(path => path.endsWith('.css'))
+    .map(path => `<style data-file="${escapeAttribute(path)}">\n${byPath.get(path)}\n</style>\n`)
+    .join('');
+  const scripts = unused
+    .filter(path => /\.m?js$/.test(path))
+    .map(path => `<script data-file="${escapeAttribute(path)}">\n${escapeInlineScript(byPath.get(path)!)}\n</script>\n`)
+    .join('');
+
+  if (styles) html = /<\/head>/i.test(html) ? html.replace(/<\/head>/i, () => `${styles}</head>`) : styles + html;
+  if (scripts) html = /<\/body>/i.test(html) ? html.replace(/<\/body>/i, () => `${scripts}</body>`) : html + scripts;
+  return html;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children?: FileTreeNode[]; // Present for directories
+}
+
+/**
+ * Nests flat paths into directories; directories first, then files, each alphabetically
+ */
+export function buildFileTree(files: ProjectFile[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+  files.forEach(file => {
+    const segments = normalizePath(file.path).split('/');
+    let node = root;
+    segments.forEach((name, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      const isFile = i === segments.length - 1;
+      let child = node.children!.find(c => c.name === name && !!c.children !== isFile);
+      if (!child) {
+        child = isFile ? { name, path } : { name, path, children: [] };
+        node.children!.push(child);
+      }
+      node = child;
+    });
+  });
+
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] => nodes
+    .sort((a, b) => (a.children ? 0 : 1) - (b.children ? 0 : 1) || a.name.localeCompare(b.name))
+    .map(n => n.children ? { ...n, children: sort(n.children) } : n);
+  return sort(root.children!);
+}
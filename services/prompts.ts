@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GenerateInput, RefineInput, RefineContext, ConvertInput, OutputFormat, ElementTarget } from './providers/types';
+
+export const SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
+Your goal is to take a user uploaded file and instantly generate a fully functional, interactive, single-page HTML/JS/CSS application.
+
+CORE DIRECTIVES:
+1. **Analyze & Abstract**: Build a Best Guess creative interpretation.
+2. **NO EXTERNAL IMAGES**: Use inline SVGs, CSS, or Emojis.
+3. **Make it Interactive**: Must have JS-driven behavior (buttons, drag-drop, states).
+4. **Self-Contained**: Single HTML file with Tailwind CDN.
+
+RESPONSE FORMAT:
+Return ONLY the raw HTML code. Do not wrap in markdown.`;
+
+export const PROJECT_SYSTEM_INSTRUCTION = `You are an expert AI Engineer and Product Designer specializing in "bringing artifacts to life".
+Your goal is to take a user uploaded file and instantly generate a fully functional, interactive web application, split into files.
+
+CORE DIRECTIVES:
+1. **Analyze & Abstract**: Build a Best Guess creative interpretation.
+2. **NO EXTERNAL IMAGES**: Use inline SVGs, CSS, or Emojis.
+3. **Make it Interactive**: Must have JS-driven behavior (buttons, drag-drop, states).
+4. **Structured Project**: An \`index.html\` entry point that references local stylesheets with <link rel="stylesheet" href="..."> and local scripts with <script src="..."></script>. Put styles in .css files and behaviour in .js files (classic scripts, no ES module imports between files). Tailwind CDN is allowed.
+
+RESPONSE FORMAT:
+Return ONLY JSON of the form {"files": [{"path": "index.html", "content": "..."}, ...]}.`;
+
+export const REFINE_SYSTEM_INSTRUCTION = "You are an expert Frontend Engineer. Modify the code precisely. Do not break existing features.";
+
+// Appended to the refine instruction for project refinements
+const REFINE_PROJECT_FORMAT = `Return ONLY JSON of the form {"files": [{"path": "...", "content": "..."}]} containing every file of the updated project, including unchanged ones.`;
+
+export const CONVERT_SYSTEM_INSTRUCTION = `You are an expert React Engineer. Convert a working single-page web app into idiomatic React 18 source for a Vite project.
+
+RULES:
+1. Preserve every feature, interaction and visual detail of the original.
+2. Entry component: \`src/App.jsx\` (default export). Split meaningful UI parts into \`src/components/*.jsx\`.
+3. Replace DOM manipulation and global scripts with React state, effects and event handlers.
+4. Keep Tailwind utility classes; they are compiled by Tailwind (no CDN script). Put custom CSS in \`src/App.css\` and import it from App.jsx.
+5. If the original configures Tailwind inline (\`tailwind.config = {...}\`), return an equivalent \`tailwind.config.js\` (ESM, content: ["./index.html", "./src/**/*.{js,jsx}"]).
+6. Only import "react" and local files. JavaScript with JSX, no TypeScript.
+
+RESPONSE FORMAT:
+Return ONLY JSON of the form {"files": [{"path": "src/App.jsx", "content": "..."}, ...]}.`;
+
+export const GENERATE_TEMPERATURE = 0.5;
+export const REFINE_TEMPERATURE = 0.3;
+export const CONVERT_TEMPERATURE = 0.2;
+
+const MULTI_SCREEN_PROMPT = (count: number) => `Analyze these ${count} images/documents. They are the screens or pages of one product flow, in the order given.
+Build a single fully interactive multi-screen web app:
+- One view per screen, recognisably matching each source.
+- Working navigation between the views that follows the flow (buttons, links, tabs), without page reloads.
+- Shared state carries across screens where the sources imply it (e.g. form input shown on a later screen).
+IMPORTANT: Recreate visuals using CSS, SVGs, or Emojis.`;
+
+export function buildGeneratePrompt({ prompt, files = [], stylePreset, customCss }: GenerateInput): string {
+  let finalPrompt = files.length > 1
+    ? MULTI_SCREEN_PROMPT(files.length)
+    : files.length === 1
+      ? "Analyze this image/document. Build a fully interactive web app. IMPORTANT: Recreate visuals using CSS, SVGs, or Emojis." 
+      : prompt || "Create a demo app that shows off your capabilities.";
+
+  if (stylePreset && stylePreset !== 'Default') {
+      finalPrompt += `\n\nDESIGN CONSTRAINT: Visual style: "${stylePreset}".`;
+  }
+
+  if (customCss) {
+      finalPrompt += `\n\nCUSTOM CSS REQ:\n${customCss}`;
+  }
+
+  return finalPrompt;
+}
+
+const OUTCOME_NOTES: Record<RefineContext['earlierRequests'][number]['outcome'], string> = {
+  applied: '',
+  rejected: ' (rejected by the user; not in the code)',
+  undone: ' (undone by the user; not in the code)',
+};
+
+function buildContextPreamble({ constraints, earlierRequests, omitted }: RefineContext): string {
+  const sections: string[] = [];
+  if (constraints.length > 0) {
+    sections.push(`PINNED CONSTRAINTS (always respect these, whatever the instruction):\n${constraints.map(c => `- ${c}`).join('\n')}`);
+  }
+  if (earlierRequests.length > 0) {
+    const older = omitted > 0 ? `(${omitted} older request${omitted === 1 ? '' : 's'} not shown)\n` : '';
+    const listed = earlierRequests.map((request, i) => `${i + 1}. ${request.text}${OUTCOME_NOTES[request.outcome]}`).join('\n');
+    sections.push(`EARLIER REQUESTS IN THIS CONVERSATION (oldest first; applied ones are already in the code):\n${older}${listed}`);
+  }
+  return sections.map(section => `${section}\n\n`).join('');
+}
+
+const PATCH_FORMAT = `RESPONSE FORMAT: Do NOT return the whole code. Return only search/replace edits, each in this form:
+<<<<<<< SEARCH
+lines copied exactly from the current code
+=======
+the lines that replace them
+>>>>>>> REPLACE
+Each SEARCH section must match the current code exactly (including indentation) and only once: include a few surrounding lines to make it unique. Prefer several small edits over one large one. To delete code, leave the replacement empty.`;
+
+const PROJECT_PATCH_FORMAT = `${PATCH_FORMAT}
+Put a line "FILE: <path>" before the edits of each file. To create a file, give it an empty SEARCH section.`;
+
+export function buildRefinePrompt(input: RefineInput): string {
+  const request = buildRefineRequest(input);
+  if (!input.patch) return request;
+  return `${request}\n\n${input.projectFiles ? PROJECT_PATCH_FORMAT : PATCH_FORMAT}`;
+}
+
+function buildRefineRequest({ currentHtml, instruction, projectFiles, target, context }: RefineInput): string {
+  const preamble = context ? buildContextPreamble(context) : '';
+  if (target) {
+    return `${preamble}Update ONE element of this HTML document based on instruction: "${instruction}"
+
+ELEMENT (at ${target.path}):
+${target.outerHtml}
+
+FULL DOCUMENT (for context only):
+${currentHtml}
+
+Return ONLY the updated HTML of that element, as a replacement for exactly the ELEMENT code above. Do not return the rest of the document.`;
+  }
+  if (projectFiles) {
+    const listing = projectFiles.map(file => `--- ${file.path} ---\n${file.content}`).join('\n\n');
+    return `${preamble}Update this project based on instruction: "${instruction}"\n\nCURRENT FILES:\n${listing}`;
+  }
+  return `${preamble}Update this HTML code based on instruction: "${instruction}"\n\nCURRENT CODE:\n${currentHtml}`;
+}
+
+export function buildConvertPrompt({ html, projectFiles }: ConvertInput): string {
+  if (projectFiles) {
+    const listing = projectFiles.map(file => `--- ${file.path} ---\n${file.content}`).join('\n\n');
+    return `Convert this project to React components.\n\nFILES:\n${listing}`;
+  }
+  return `Convert this app to React components.\n\nCODE:\n${html}`;
+}
+
+/** Project generation keeps its own instruction, since it defines the JSON response format */
+export const systemInstructionFor = (format: OutputFormat = 'html', override?: string) =>
+  format === 'project' ? PROJECT_SYSTEM_INSTRUCTION : override || SYSTEM_INSTRUCTION;
+
+/**
+ * Points an instruction at one element, for refinements that rewrite the whole document (projects)
+ */
+export const buildElementInstruction = (instruction: string, { outerHtml, path }: ElementTarget) =>
+  `${instruction}\n\nApply this only to the element at \`${path}\`, whose current code is:\n${outerHtml}\nLeave everything else unchanged.`;
+
+export function refineSystemInstructionFor({ projectFiles, patch }: RefineInput, override?: string): string {
+  const instruction = override || REFINE_SYSTEM_INSTRUCTION;
+  return projectFiles && !patch ? `${instruction}\n${REFINE_PROJECT_FORMAT}` : instruction;
+}
+
+// How much of a truncated document is quoted back when asking the model to continue it
+const CONTINUE_CONTEXT_CHARS = 6000;
+
+export const buildContinuePrompt = (partialHtml: string) => `Your previous response was cut off before the HTML document was complete. It ended with:
+
+${partialHtml.slice(-CONTINUE_CONTEXT_CHARS)}
+
+Continue the document from exactly where it stopped, through the closing </html>. Output ONLY the remaining code: do not repeat what was already written and do not wrap it in markdown.`;
+
+export const buildRepairInstruction = (problems: string[]) =>
+  `The document is malformed (${problems.join('; ')}). Fix the markup so it is a complete, valid HTML document, keeping all content and behaviour unchanged.`;
+
+// Runtime errors quoted per "Fix errors" request; the rest are usually follow-on failures
+const MAX_REPORTED_ERRORS = 10;
+
+export function buildFixErrorsInstruction(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map((error, i) => `${i + 1}. ${error}`).join('\n');
+  const more = errors.length > MAX_REPORTED_ERRORS ? `\n(${errors.length - MAX_REPORTED_ERRORS} more not shown)` : '';
+  return `The app throws these errors in the browser console when it runs:\n${listed}${more}\n\nFind the root cause of each error and fix it. Change only what is needed; keep every feature and the design unchanged.`;
+}
+
+export const buildPatchRetryInstruction = (instruction: string, problems: string[]) =>
+  `${instruction}\n\nYour previous edits could not be applied (${problems.join('; ')}), so none of them were made. Send the complete set of edits again, copying every SEARCH section exactly from the current code.`;
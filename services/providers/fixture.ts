@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ModelOutput, GenerateInput, RefineInput, ProjectFile } from './types';
+import { estimateTokens } from '../tokens';
+import { sleep } from '../retry';
+
+/**
+ * Deterministic provider for tests and offline development: the same input always
+ * produces the same HTML, and no network requests are made.
+ */
+export const FIXTURE_MODEL = 'fixture-v1';
+
+const CHUNK_SIZE = 64;
+const CHUNK_DELAY = 15;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function fixtureHtml({ prompt, files = [], stylePreset }: GenerateInput): string {
+  const title = files.length > 0
+    ? `Fixture app from ${files.map(file => file.mimeType).join(', ')}`
+    : (prompt || 'Fixture app');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body class="min-h-screen flex items-center justify-center bg-zinc-100">
+<main class="p-8 rounded-xl bg-white shadow text-center space-y-4">
+<h1 class="text-2xl font-bold">${escapeHtml(title)}</h1>
+<p class="text-sm text-zinc-500">Style: ${escapeHtml(stylePreset || 'Default')}</p>
+<button id="counter" class="px-4 py-2 rounded bg-blue-600 text-white">Clicked 0 times</button>
+</main>
+<script>
+let count = 0;
+document.getElementById('counter').addEventListener('click', (e) => {
+  count++;
+  e.target.textContent = 'Clicked ' + count + ' times';
+});
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * The fixture document split into index.html, a stylesheet and a script
+ */
+export function fixtureProject(input: GenerateInput): ProjectFile[] {
+  const html = fixtureHtml(input);
+  const script = html.match(/<script>\n([\s\S]*?)<\/script>/)![1];
+  return [
+    {
+      path: 'index.html',
+      content: html
+        .replace('</head>', '<link rel="stylesheet" href="styles.css">\n</head>')
+        .replace(/<script>\n[\s\S]*?<\/script>/, '<script src="js/app.js"></script>'),
+    },
+    { path: 'styles.css', content: '#counter { transition: transform 0.1s; }\n#counter:active { transform: scale(0.95); }\n' },
+    { path: 'js/app.js', content: script },
+  ];
+}
+
+const fixtureOutput = (input: GenerateInput) =>
+  input.format === 'project' ? JSON.stringify({ files: fixtureProject(input) }) : fixtureHtml(input);
+
+const refineMarker = (instruction: string) => `<!-- refined: ${instruction.replace(/--/g, '- -')} -->\n`;
+
+const addRefineMarker = (html: string, instruction: string) => {
+  const marker = refineMarker(instruction);
+  return html.includes('</body>') ? html.replace('</body>', `${marker}</body>`) : html + marker;
+};
+
+// The marker as a search/replace edit of the closing body tag
+const refineMarkerPatch = (instruction: string, path?: string) =>
+  `${path ? `FILE: ${path}\n` : ''}<<<<<<< SEARCH\n</body>\n=======\n${refineMarker(instruction)}</body>\n>>>>>>> REPLACE`;
+
+function fixtureRefinement({ currentHtml, instruction, projectFiles, target, patch }: RefineInput): string {
+  if (target) return addRefineMarker(target.outerHtml, instruction);
+  if (patch) return refineMarkerPatch(instruction, projectFiles && 'index.html');
+  if (projectFiles) {
+    const files = projectFiles.map(file =>
+      file.path === 'index.html' ? { ...file, content: addRefineMarker(file.content, instruction) } : file
+    );
+    return JSON.stringify({ files });
+  }
+  return addRefineMarker(currentHtml, instruction);
+}
+
+// Usage is estimated from the text, so the usage dashboard has something to show offline
+const usageOf = (prompt: string, text: string) => ({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+
+const fixtureResponse = (prompt: string, text: string): ModelOutput => ({ text, finishReason: 'stop', usage: usageOf(prompt, text) });
+
+export const fixtureProvider: ModelProvider = {
+  id: 'fixture',
+  model: FIXTURE_MODEL,
+  limits: { input: 1_048_576, output: 65_536 },
+  options: {}, // Output doesn't depend on sampling or instructions
+
+  async generate(input) {
+    return fixtureResponse(input.prompt, fixtureOutput(input));
+  },
+
+  async refine(input) {
+    return fixtureResponse(input.currentHtml + input.instruction, fixtureRefinement(input));
+  },
+
+  async convert({ html }) {
+    const title = html.match(/<title>([^<]*)<\/title>/)?.[1] || 'Fixture app';
+    const app = `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-zinc-100">
+      <div className="p-8 rounded-xl bg-white shadow text-center space-y-4">
+        <h1 className="text-2xl font-bold">${title}</h1>
+        <button className="px-4 py-2 rounded bg-blue-600 text-white" onClick={() => setCount(count + 1)}>
+          Clicked {count} times
+        </button>
+      </div>
+    </main>
+  );
+}
+`;
+    return fixtureResponse(html, JSON.stringify({ files: [{ path: 'src/App.jsx', content: app }] }));
+  },
+
+  async *stream(input, signal) {
+    const html = fixtureOutput(input);
+    for (let i = 0; i < html.length; i += CHUNK_SIZE) {
+      await sleep(CHUNK_DELAY, signal);
+      const end = i + CHUNK_SIZE;
+      yield end >= html.length
+        ? { text: html.slice(i, end), finishReason: 'stop', usage: usageOf(input.prompt, html) }
+        : { text: html.slice(i, end) };
+    }
+  },
+};
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse, FinishReason as GeminiFinishReason, Type } from "@google/genai";
+import { ModelProvider, ModelOutput, FinishReason, GenerateInput, RefineInput, InlineFile, TokenLimits, TokenUsageReport, ModelOptions } from './types';
+import { estimateTokens } from '../tokens';
+import {
+  CONVERT_SYSTEM_INSTRUCTION, GENERATE_TEMPERATURE, REFINE_TEMPERATURE, CONVERT_TEMPERATURE,
+  buildGeneratePrompt, buildRefinePrompt, buildConvertPrompt, systemInstructionFor, refineSystemInstructionFor
+} from '../prompts';
+
+export const GEMINI_MODEL = 'gemini-3-pro-preview';
+export const GEMINI_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+const GEMINI_LIMITS: TokenLimits = { input: 1_048_576, output: 65_536 };
+const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Structured output for project mode, expressed with the SDK's schema types
+const PROJECT_RESPONSE_CONFIG = {
+  responseMimeType: 'application/json',
+  responseSchema: {
+    type: Type.OBJECT,
+    properties: {
+      files: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            path: { type: Type.STRING },
+            content: { type: Type.STRING },
+          },
+          required: ['path', 'content'],
+        },
+      },
+    },
+    required: ['files'],
+  },
+};
+
+const inlineParts = (files: InlineFile[] = []) =>
+  files.map(file => ({ inlineData: { data: file.data, mimeType: file.mimeType } }));
+
+function finishReasonOf(response: GenerateContentResponse): FinishReason | undefined {
+  const reason = response.candidates?.[0]?.finishReason;
+  if (!reason) return undefined;
+  switch (reason) {
+    case GeminiFinishReason.STOP: return 'stop';
+    case GeminiFinishReason.MAX_TOKENS: return 'length';
+    case GeminiFinishReason.SAFETY:
+    case GeminiFinishReason.RECITATION:
+    case GeminiFinishReason.BLOCKLIST:
+    case GeminiFinishReason.PROHIBITED_CONTENT:
+    case GeminiFinishReason.SPII:
+      return 'safety';
+    default: return 'other';
+  }
+}
+
+// Thinking tokens are billed as output
+function usageOf({ usageMetadata }: GenerateContentResponse): TokenUsageReport | undefined {
+  if (!usageMetadata) return undefined;
+  return {
+    inputTokens: usageMetadata.promptTokenCount ?? 0,
+    outputTokens: (usageMetadata.candidatesTokenCount ?? 0) + (usageMetadata.thoughtsTokenCount ?? 0),
+  };
+}
+
+const toOutput = (response: GenerateContentResponse): ModelOutput =>
+  ({ text: response.text || "", finishReason: finishReasonOf(response), usage: usageOf(response) });
+
+function generateParts(input: GenerateInput): any[] {
+  return [{ text: buildGeneratePrompt(input) }, ...inlineParts(input.files)];
+}
+
+function refineParts(input: RefineInput): any[] {
+  return [...inlineParts(input.files), { text: buildRefinePrompt(input) }];
+}
+
+export function createGeminiProvider(model = GEMINI_MODEL, options: ModelOptions = {}): ModelProvider {
+  // Shared by every request; temperature and instructions are set per request type
+  const sampling = {
+    ...(options.maxOutputTokens ? { maxOutputTokens: options.maxOutputTokens } : {}),
+    ...(options.thinkingBudget !== undefined ? { thinkingConfig: { thinkingBudget: options.thinkingBudget } } : {}),
+  };
+
+  return {
+    id: 'gemini',
+    model,
+    limits: { ...GEMINI_LIMITS, output: options.maxOutputTokens || GEMINI_LIMITS.output },
+    options,
+
+    async generate(input, signal) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model,
+        contents: { parts: generateParts(input) },
+        config: {
+          systemInstruction: systemInstructionFor(input.format, options.systemInstruction),
+          temperature: options.temperature ?? GENERATE_TEMPERATURE,
+          ...sampling,
+          abortSignal: signal,
+          ...(input.format === 'project' ? PROJECT_RESPONSE_CONFIG : {}),
+        },
+      });
+      return toOutput(response);
+    },
+
+    async refine(input, signal) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model,
+        contents: { parts: refineParts(input) },
+        config: {
+          systemInstruction: refineSystemInstructionFor(input, options.refineSystemInstruction),
+          temperature: options.refineTemperature ?? REFINE_TEMPERATURE,
+          ...sampling,
+          abortSignal: signal,
+          ...(input.projectFiles && !input.patch ? PROJECT_RESPONSE_CONFIG : {}),
+        },
+      });
+      return toOutput(response);
+    },
+
+    // The Gemini API doesn't count system instructions, so that part is estimated
+    async countTokens(input, signal) {
+      const response = await ai.models.countTokens({
+        model,
+        contents: { parts: refineParts(input) },
+        config: { abortSignal: signal },
+      });
+      return (response.totalTokens ?? 0) + estimateTokens(refineSystemInstructionFor(input, options.refineSystemInstruction));
+    },
+
+    async convert(input, signal) {
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model,
+        contents: { parts: [{ text: buildConvertPrompt(input) }] },
+        config: {
+          systemInstruction: CONVERT_SYSTEM_INSTRUCTION,
+          temperature: CONVERT_TEMPERATURE,
+          ...sampling,
+          abortSignal: signal,
+          ...PROJECT_RESPONSE_CONFIG,
+        },
+      });
+      return toOutput(response);
+    },
+
+    async *stream(input, signal) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: { parts: generateParts(input) },
+        config: {
+          systemInstruction: systemInstructionFor(input.format, options.systemInstruction),
+          temperature: options.temperature ?? GENERATE_TEMPERATURE,
+          ...sampling,
+          abortSignal: signal,
+          ...(input.format === 'project' ? PROJECT_RESPONSE_CONFIG : {}),
+        },
+      });
+      for await (const chunk of stream) {
+        const finishReason = finishReasonOf(chunk);
+        const usage = usageOf(chunk);
+        if (chunk.text || finishReason || usage) yield { text: chunk.text || "", finishReason, usage };
+      }
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AppSettings } from '../settings';
+import { ModelProvider, ModelOptions, ProviderId } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAiCompatibleProvider } from './openai';
+import { fixtureProvider } from './fixture';
+
+export * from './types';
+export { GEMINI_MODEL, GEMINI_MODELS } from './gemini';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Hosted Gemini model via the @google/genai SDK.' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'Any /chat/completions server, e.g. a local llama.cpp or Ollama instance.' },
+  { id: 'fixture', label: 'Fixture', description: 'Deterministic offline output for tests and demos.' },
+];
+
+/** Provider options from settings. Unset values (0, -1, empty) are left out so the built-in or model defaults apply. */
+export function modelOptionsOf(settings: AppSettings): ModelOptions {
+  return {
+    temperature: settings.temperature,
+    refineTemperature: settings.refineTemperature,
+    maxOutputTokens: settings.maxOutputTokens > 0 ? settings.maxOutputTokens : undefined,
+    thinkingBudget: settings.thinkingBudget >= 0 ? settings.thinkingBudget : undefined,
+    systemInstruction: settings.systemInstruction.trim() || undefined,
+    refineSystemInstruction: settings.refineSystemInstruction.trim() || undefined,
+  };
+}
+
+export function createProvider(settings: AppSettings): ModelProvider {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.openAiModel,
+        apiKey: settings.openAiApiKey || undefined,
+      }, modelOptionsOf(settings));
+    case 'fixture':
+      return fixtureProvider;
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.geminiModel, modelOptionsOf(settings));
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ModelOutput, FinishReason, GenerateInput, RefineInput, InlineFile, TokenLimits, TokenUsageReport, ModelOptions } from './types';
+import {
+  CONVERT_SYSTEM_INSTRUCTION, GENERATE_TEMPERATURE, REFINE_TEMPERATURE, CONVERT_TEMPERATURE,
+  buildGeneratePrompt, buildRefinePrompt, buildConvertPrompt, systemInstructionFor, refineSystemInstructionFor
+} from '../prompts';
+import { PROJECT_JSON_SCHEMA } from '../project';
+
+/**
+ * Adapter for any server exposing the OpenAI `/chat/completions` API
+ * (llama.cpp server, Ollama, vLLM, LM Studio, ...).
+ */
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+/** Carries the HTTP status so withRetry can recognise 429/5xx responses */
+export class ProviderHttpError extends Error {
+  constructor(public status: number, detail: string) {
+    super(`OpenAI-compatible API error ${status}${detail ? `: ${detail}` : ''}`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+function userMessage(text: string, files: InlineFile[] = []) {
+  // Chat completion servers only accept images; PDFs are not forwarded
+  const images = files.filter(file => file.mimeType.startsWith('image/'));
+  files
+    .filter(file => !images.includes(file))
+    .forEach(file => console.warn(`Attachment of type ${file.mimeType} is not supported by OpenAI-compatible providers and was skipped.`));
+
+  if (images.length === 0) return { role: 'user', content: text };
+  return {
+    role: 'user',
+    content: [
+      { type: 'text', text },
+      ...images.map(file => ({ type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } })),
+    ],
+  };
+}
+
+function generateMessages(input: GenerateInput, options: ModelOptions) {
+  return [
+    { role: 'system', content: systemInstructionFor(input.format, options.systemInstruction) },
+    userMessage(buildGeneratePrompt(input), input.files),
+  ];
+}
+
+function refineMessages(input: RefineInput, options: ModelOptions) {
+  return [
+    { role: 'system', content: refineSystemInstructionFor(input, options.refineSystemInstruction) },
+    userMessage(buildRefinePrompt(input), input.files),
+  ];
+}
+
+function finishReasonOf(reason?: string | null): FinishReason | undefined {
+  if (!reason) return undefined;
+  if (reason === 'stop') return 'stop';
+  if (reason === 'length') return 'length';
+  if (reason === 'content_filter') return 'safety';
+  return 'other';
+}
+
+// Servers don't report their limits; these suit most local models
+const OPENAI_COMPATIBLE_LIMITS: TokenLimits = { input: 32_768, output: 8_192 };
+
+function usageOf(usage?: { prompt_tokens?: number; completion_tokens?: number }): TokenUsageReport | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+const PROJECT_RESPONSE_FORMAT = {
+  response_format: { type: 'json_schema', json_schema: { name: 'project', schema: PROJECT_JSON_SCHEMA } },
+};
+
+/** Thinking budgets are Gemini-only and not sent */
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig, options: ModelOptions = {}): ModelProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const maxTokens = options.maxOutputTokens ? { max_tokens: options.maxOutputTokens } : {};
+
+  const request = async (body: object, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: config.model, ...maxTokens, ...body }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderHttpError(response.status, detail.slice(0, 200));
+    }
+    return response;
+  };
+
+  const complete = async (messages: object[], temperature: number, structured: boolean, signal?: AbortSignal): Promise<ModelOutput> => {
+    const response = await request({ messages, temperature, ...(structured ? PROJECT_RESPONSE_FORMAT : {}) }, signal);
+    const json = await response.json();
+    const choice = json.choices?.[0];
+    return { text: choice?.message?.content || "", finishReason: finishReasonOf(choice?.finish_reason), usage: usageOf(json.usage) };
+  };
+
+  return {
+    id: 'openai-compatible',
+    model: config.model,
+    limits: { ...OPENAI_COMPATIBLE_LIMITS, output: options.maxOutputTokens || OPENAI_COMPATIBLE_LIMITS.output },
+    options,
+
+    generate(input, signal) {
+      return complete(generateMessages(input, options), options.temperature ?? GENERATE_TEMPERATURE, input.format === 'project', signal);
+    },
+
+    refine(input, signal) {
+      return complete(refineMessages(input, options), options.refineTemperature ?? REFINE_TEMPERATURE, !!input.projectFiles && !input.patch, signal);
+    },
+
+    convert(input, signal) {
+      const messages = [
+        { role: 'system', content: CONVERT_SYSTEM_INSTRUCTION },
+        { role: 'user', content: buildConvertPrompt(input) },
+      ];
+      return complete(messages, CONVERT_TEMPERATURE, true, signal);
+    },
+
+    async *stream(input, signal) {
+      const response = await request({
+        messages: generateMessages(input, options),
+        temperature: options.temperature ?? GENERATE_TEMPERATURE,
+        stream: true,
+        stream_options: { include_usage: true }, // Usage arrives in a final chunk without choices
+        ...(input.format === 'project' ? PROJECT_RESPONSE_FORMAT : {}),
+      }, signal);
+      if (!response.body) throw new Error('Streaming is not supported by this server.');
+
+      // Server-sent events: one `data: {json}` payload per line, terminated by `data: [DONE]`
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+            const json = JSON.parse(payload);
+            const choice = json.choices?.[0];
+            const delta = choice?.delta?.content;
+            const finishReason = finishReasonOf(choice?.finish_reason);
+            const usage = usageOf(json.usage ?? undefined);
+            if (delta || finishReason || usage) yield { text: delta || "", finishReason, usage };
+          }
+        }
+      } finally {
+        reader.cancel().catch(() => {});
+      }
+    },
+  };
+}
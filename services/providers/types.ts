@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+/** 'html': one self-contained document. 'project': JSON listing index.html, CSS and JS files. */
+export type OutputFormat = 'html' | 'project';
+
+export interface ProjectFile {
+  path: string; // Relative to the project root, e.g. "index.html" or "js/app.js"
+  content: string;
+}
+
+/** A base64-encoded file sent to the model as an inline part */
+export interface InlineFile {
+  data: string;
+  mimeType: string;
+}
+
+export interface GenerateInput {
+  prompt: string;
+  files?: InlineFile[];
+  stylePreset?: string;
+  customCss?: string;
+  format?: OutputFormat;
+}
+
+export interface RefineInput {
+  currentHtml: string;
+  instruction: string;
+  files?: InlineFile[];
+  projectFiles?: ProjectFile[]; // Present for project creations; the response is then project JSON
+  target?: ElementTarget; // Present for element edits; the response is then only the element's replacement
+  context?: RefineContext; // The creation's refinement thread, condensed
+  patch?: boolean; // Ask for search/replace edits (services/patch.ts) instead of the whole document or project
+}
+
+/** Standing constraints and earlier requests of a creation, sent with each refinement */
+export interface RefineContext {
+  constraints: string[];
+  earlierRequests: { text: string; outcome: 'applied' | 'rejected' | 'undone' }[]; // Oldest first
+  omitted: number; // Older requests left out
+}
+
+/** One element of `currentHtml`, picked in the preview's edit mode */
+export interface ElementTarget {
+  outerHtml: string;
+  path: string;
+}
+
+/** A finished creation to be rewritten as React components */
+export interface ConvertInput {
+  html: string;
+  projectFiles?: ProjectFile[];
+}
+
+/** Most tokens a model accepts per request and produces per response */
+export interface TokenLimits {
+  input: number;
+  output: number;
+}
+
+/**
+ * Sampling and prompt settings from the settings panel. Unset fields fall back to the defaults in
+ * services/prompts.ts, or to the model's own.
+ */
+export interface ModelOptions {
+  temperature?: number; // Generation
+  refineTemperature?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number; // Gemini only; 0 turns thinking off where the model allows it
+  systemInstruction?: string; // Replaces SYSTEM_INSTRUCTION for single-file generation
+  refineSystemInstruction?: string; // Replaces REFINE_SYSTEM_INSTRUCTION; response format rules are still appended
+}
+
+/** Why the model stopped, normalized across providers. 'length' means the output token limit was hit. */
+export type FinishReason = 'stop' | 'length' | 'safety' | 'other';
+
+export interface ModelOutput {
+  text: string;
+  finishReason?: FinishReason; // Absent when the backend doesn't report one
+  usage?: TokenUsageReport; // In streams, running totals on some chunks (usually the last)
+}
+
+/** Tokens billed for one request, as reported by the backend */
+export interface TokenUsageReport {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A backend capable of producing app HTML. Adapters return the raw model text (HTML, or project
+ * JSON when a project is requested); retries, output cleaning and parsing are applied by
+ * services/gemini.ts for every provider.
+ */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  readonly limits: TokenLimits;
+  readonly options: ModelOptions;
+  generate(input: GenerateInput, signal?: AbortSignal): Promise<ModelOutput>;
+  refine(input: RefineInput, signal?: AbortSignal): Promise<ModelOutput>;
+  /** Returns project JSON with the React source files (src/...) for a Vite project */
+  convert(input: ConvertInput, signal?: AbortSignal): Promise<ModelOutput>;
+  /** Yields text deltas as they arrive; the finish reason is set on the last one */
+  stream(input: GenerateInput, signal?: AbortSignal): AsyncIterable<ModelOutput>;
+  /** Input tokens of a refinement request, counted by the backend. Absent when it can't count. */
+  countTokens?(input: RefineInput, signal?: AbortSignal): Promise<number>;
+}
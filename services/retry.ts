@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const MAX_RETRIES = 3;
+const INITIAL_BACKOFF = 1000;
+
+export function abortError(): DOMException {
+  return new DOMException('The request was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+/**
+ * setTimeout as a promise that rejects early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff wrapper for API calls. Aborting the signal stops any pending retry.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, signal?: AbortSignal, retries = MAX_RETRIES, delay = INITIAL_BACKOFF): Promise<T> {
+  if (signal?.aborted) throw abortError();
+  try {
+    return await fn();
+  } catch (error: any) {
+    if (signal?.aborted || isAbortError(error)) throw abortError();
+    if (retries > 0 && (error?.status === 429 || error?.status >= 500)) {
+      console.warn(`Model API Error (${error.status}). Retrying in ${delay}ms...`);
+      await sleep(delay, signal);
+      return withRetry(fn, signal, retries - 1, delay * 2);
+    }
+    throw error;
+  }
+}
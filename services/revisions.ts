@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, Revision, SourceAttachment } from '../components/CreationHistory';
+
+/**
+ * Revision log helpers. Revisions are immutable and never removed; `parentId` records which
+ * revision a change was made from, so undo walks back to the parent and redo forward to the
+ * newest child, even after jumping around the timeline.
+ */
+
+export function createRevision(html: string, details: Omit<Revision, 'id' | 'html' | 'timestamp'> = {}): Revision {
+  return {
+    id: crypto.randomUUID(),
+    html,
+    timestamp: new Date(),
+    ...details,
+  };
+}
+
+/**
+ * Revives dates from JSON, gives creations saved before revisions existed an initial revision
+ * and turns the legacy single `originalImage` into an attachment list
+ */
+export function normalizeCreation(raw: any): Creation {
+  const { originalImage, ...rest } = raw;
+  const timestamp = new Date(raw.timestamp || Date.now());
+  let revisions: Revision[] = (raw.revisions || []).map((r: any) => ({ ...r, timestamp: new Date(r.timestamp) }));
+
+  if (revisions.length === 0) {
+    revisions = [{ id: crypto.randomUUID(), html: raw.html, timestamp, provider: raw.provider, model: raw.model }];
+  }
+
+  let attachments: SourceAttachment[] | undefined = raw.attachments;
+  if (!attachments?.length && typeof originalImage === 'string') {
+    const mimeType = originalImage.match(/^data:(.*?)[;,]/)?.[1] || '';
+    attachments = [{ name: raw.name, mimeType, dataUrl: originalImage }];
+  }
+
+  const current = revisions.find(r => r.id === raw.revisionId) || revisions[revisions.length - 1];
+  return {
+    ...rest,
+    attachments,
+    timestamp,
+    revisions,
+    revisionId: current.id,
+    html: current.html,
+    files: current.files,
+    thread: raw.thread?.map((turn: any) => ({ ...turn, timestamp: new Date(turn.timestamp) })),
+  };
+}
+
+export function getCurrentRevision(creation: Creation): Revision | undefined {
+  return creation.revisions?.find(r => r.id === creation.revisionId);
+}
+
+export function appendRevision(creation: Creation, revision: Revision): Creation {
+  return {
+    ...creation,
+    revisions: [...(creation.revisions || []), revision],
+    revisionId: revision.id,
+    html: revision.html,
+    files: revision.files,
+  };
+}
+
+export function checkoutRevision(creation: Creation, revisionId: string): Creation {
+  const revision = creation.revisions?.find(r => r.id === revisionId);
+  if (!revision) return creation;
+  return { ...creation, revisionId: revision.id, html: revision.html, files: revision.files };
+}
+
+export function getUndoTarget(creation: Creation): Revision | undefined {
+  const current = getCurrentRevision(creation);
+  if (!current?.parentId) return undefined;
+  return creation.revisions?.find(r => r.id === current.parentId);
+}
+
+export function getRedoTarget(creation: Creation): Revision | undefined {
+  const children = (creation.revisions || []).filter(r => r.parentId === creation.revisionId);
+  return children[children.length - 1];
+}
+
+/**
+ * Starts an independent creation from any revision (defaults to the current one).
+ * The new creation's log begins with a copy of that revision and records its lineage.
+ */
+export function forkCreation(creation: Creation, revisionId = creation.revisionId): Creation {
+  const source = creation.revisions?.find(r => r.id === revisionId);
+  const html = source?.html ?? creation.html;
+  const files = source ? source.files : creation.files;
+  const revision = createRevision(html, {
+    files,
+    instruction: `Forked from "${creation.name}"`,
+    provider: source?.provider ?? creation.provider,
+    model: source?.model ?? creation.model,
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    name: `${creation.name} (variant)`,
+    html,
+    files,
+    attachments: creation.attachments,
+    timestamp: revision.timestamp,
+    provider: creation.provider,
+    model: creation.model,
+    generationSettings: creation.generationSettings,
+    revisions: [revision],
+    revisionId: revision.id,
+    parentId: creation.id,
+    parentRevisionId: source?.id,
+    constraints: creation.constraints, // The thread stays with the original; its standing constraints carry over
+  };
+}
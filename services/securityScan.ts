@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { matchesSource } from './previewCsp';
+import { TAG } from './htmlOutput';
+
+/**
+ * Static scan of generated HTML before it is rendered. Flags patterns a generated prototype has no
+ * business using: scripts from unexpected origins, dynamic code evaluation, data leaving the frame
+ * (remote form posts, tracking pixels), reaching out of the frame, and external images, which the
+ * system instruction forbids. Findings are advisory; LivePreview can hold high-severity ones for review.
+ */
+
+export type ScanRule =
+  | 'external-script'
+  | 'eval'
+  | 'remote-form'
+  | 'parent-access'
+  | 'tracking-pixel'
+  | 'external-image';
+
+export type ScanSeverity = 'high' | 'medium' | 'low';
+
+export interface ScanFinding {
+  rule: ScanRule;
+  severity: ScanSeverity;
+  message: string;
+  snippet: string;
+  line: number;
+}
+
+export const SCAN_RULES: Record<ScanRule, { severity: ScanSeverity; label: string }> = {
+  'external-script': { severity: 'high', label: 'Script from a non-allowlisted origin' },
+  'remote-form': { severity: 'high', label: 'Form submits to a remote URL' },
+  'parent-access': { severity: 'high', label: 'Accesses the embedding page' },
+  'eval': { severity: 'medium', label: 'Evaluates code from strings' },
+  'tracking-pixel': { severity: 'medium', label: 'Possible tracking pixel or beacon' },
+  'external-image': { severity: 'low', label: 'External image (the prompt asks for none)' },
+};
+
+const SEVERITY_ORDER: ScanSeverity[] = ['high', 'medium', 'low'];
+const MAX_SNIPPET = 120;
+
+interface Tag {
+  name: string;
+  attributes: Record<string, string>;
+  index: number;
+  source: string;
+}
+
+const ATTRIBUTE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const isRemote = (url: string) => /^(https?:)?\/\//i.test(url.trim());
+
+// Keeps offsets (and so line numbers) intact while hiding a span from later passes
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+function parseTags(markup: string): Tag[] {
+  return [...markup.matchAll(TAG)].filter(match => !match[1]).map(match => {
+    const attributes: Record<string, string> = {};
+    for (const [, name, double, single, bare] of match[3].matchAll(ATTRIBUTE)) {
+      attributes[name.toLowerCase()] = double ?? single ?? bare ?? '';
+    }
+    return { name: match[2].toLowerCase(), attributes, index: match.index!, source: match[0] };
+  });
+}
+
+// Patterns in script code; `(?<![.\w$])` keeps `style.top` or `myEval(` from matching
+const CODE_PATTERNS: { rule: ScanRule; pattern: RegExp; message: string }[] = [
+  { rule: 'eval', pattern: /(?<![.\w$])eval\s*\(/g, message: 'eval() runs arbitrary strings as code' },
+  { rule: 'eval', pattern: /(?<![.\w$])(?:new\s+)?Function\s*\(/g, message: 'The Function constructor runs arbitrary strings as code' },
+  { rule: 'eval', pattern: /(?<![.\w$])set(?:Timeout|Interval)\s*\(\s*["'`]/g, message: 'A string passed to setTimeout/setInterval is evaluated as code' },
+  { rule: 'parent-access', pattern: /(?<![.\w$])(?:window\s*\.\s*)?(?:parent|top|opener)\s*(?:\.|\[)/g, message: 'Reaches into the page embedding the preview' },
+  { rule: 'parent-access', pattern: /(?<![.\w$])(?:window\s*\.\s*)?frameElement\b/g, message: 'Reaches into the page embedding the preview' },
+  { rule: 'tracking-pixel', pattern: /navigator\s*\.\s*sendBeacon\s*\(/g, message: 'sendBeacon sends data to a server' },
+  { rule: 'tracking-pixel', pattern: /new\s+Image\s*\([^)]*\)\s*\.\s*src\s*=\s*["'`](?:https?:)?\/\//g, message: 'Loads a remote image from script, a common tracking technique' },
+];
+
+const FONT_URL = /\.(woff2?|ttf|otf|eot)(\?|#|$)/i;
+const CSS_URL = /url\(\s*["']?((?:https?:)?\/\/[^)"'\s]+)/gi;
+
+const isTiny = (value?: string) => value !== undefined && /^\s*[01](px)?\s*$/.test(value);
+
+export function scanHtml(html: string, allowlist: string[] = []): ScanFinding[] {
+  const findings: ScanFinding[] = [];
+  const lineAt = (index: number) => html.slice(0, index).split('\n').length;
+  const add = (rule: ScanRule, message: string, snippet: string, index: number) => {
+    const text = snippet.replace(/\s+/g, ' ').trim();
+    findings.push({
+      rule,
+      severity: SCAN_RULES[rule].severity,
+      message,
+      snippet: text.length > MAX_SNIPPET ? `${text.slice(0, MAX_SNIPPET)}…` : text,
+      line: lineAt(index),
+    });
+  };
+  const isAllowed = (url: string) => allowlist.some(source => matchesSource(url, source));
+
+  // Comments are ignored; script and style bodies are scanned as code/CSS, not as markup
+  let markup = html.replace(/<!--[\s\S]*?-->/g, blank);
+  const code: { text: string; index: number }[] = [];
+  const css: { text: string; index: number }[] = [];
+  markup = markup.replace(/(<script\b([^>]*)>)([\s\S]*?)(<\/script\s*>)/gi, (whole, open: string, attrs: string, body: string, close: string, offset: number) => {
+    const type = attrs.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1].toLowerCase();
+    if (!type || /javascript|module|babel|jsx/.test(type)) code.push({ text: body, index: offset + open.length });
+    return open + blank(body) + close;
+  });
+  markup = markup.replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style\s*>)/gi, (whole, open: string, body: string, close: string, offset: number) => {
+    css.push({ text: body, index: offset + open.length });
+    return open + blank(body) + close;
+  });
+
+  for (const tag of parseTags(markup)) {
+    const { name, attributes: attrs } = tag;
+
+    // Inline handlers and javascript: URLs are code too
+    Object.entries(attrs).forEach(([attr, value]) => {
+      if (attr.startsWith('on')) code.push({ text: value, index: tag.index });
+      else if (/^\s*javascript:/i.test(value)) code.push({ text: value.replace(/^\s*javascript:/i, ''), index: tag.index });
+    });
+    if (attrs.style) css.push({ text: attrs.style, index: tag.index });
+
+    if (name === 'script' && attrs.src && isRemote(attrs.src) && !isAllowed(attrs.src)) {
+      add('external-script', `Loads a script from ${attrs.src}`, tag.source, tag.index);
+    }
+    if (name === 'form' && attrs.action && isRemote(attrs.action)) {
+      add('remote-form', `Submits form data to ${attrs.action}`, tag.source, tag.index);
+    }
+    if ((name === 'button' || name === 'input') && attrs.formaction && isRemote(attrs.formaction)) {
+      add('remote-form', `Submits form data to ${attrs.formaction}`, tag.source, tag.index);
+    }
+    const imageUrl = name === 'img' || name === 'source' ? (attrs.src || attrs.srcset?.split(/\s+/)[0])
+      : name === 'video' ? attrs.poster
+      : name === 'image' ? (attrs.href || attrs['xlink:href'])
+      : undefined;
+    if (imageUrl && isRemote(imageUrl)) {
+      const hidden = (isTiny(attrs.width) && isTiny(attrs.height)) || /display\s*:\s*none/i.test(attrs.style || '');
+      if (hidden) add('tracking-pixel', `Invisible remote image ${imageUrl}`, tag.source, tag.index);
+      else add('external-image', `Loads an image from ${imageUrl}`, tag.source, tag.index);
+    }
+  }
+
+  code.forEach(({ text, index }) => {
+    CODE_PATTERNS.forEach(({ rule, pattern, message }) => {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index!;
+        const lineStart = text.lastIndexOf('\n', start) + 1;
+        const lineEnd = text.indexOf('\n', start);
+        add(rule, message, text.slice(lineStart, lineEnd < 0 ? undefined : lineEnd), index + start);
+      }
+    });
+  });
+
+  css.forEach(({ text, index }) => {
+    for (const match of text.matchAll(CSS_URL)) {
+      const before = text.slice(Math.max(0, match.index! - 20), match.index!);
+      if (FONT_URL.test(match[1]) || /@import\s*$/i.test(before) || isAllowed(match[1])) continue;
+      add('external-image', `Loads a background image from ${match[1]}`, match[0], index + match.index!);
+    }
+  });
+
+  // One finding per rule and snippet, most severe first
+  const seen = new Set<string>();
+  return findings
+    .filter(f => {
+      const key = `${f.rule}\n${f.snippet}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.line - b.line);
+}
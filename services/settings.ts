@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProviderId, OutputFormat, ModelProvider } from './providers/types';
+import { GEMINI_MODEL } from './providers/gemini';
+import { DEFAULT_PREVIEW_ALLOWLIST } from './previewCsp';
+import { GENERATE_TEMPERATURE, REFINE_TEMPERATURE, systemInstructionFor } from './prompts';
+
+export interface AppSettings {
+  provider: ProviderId;
+  geminiModel: string;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+  outputFormat: OutputFormat;
+  temperature: number; // For generation
+  refineTemperature: number;
+  maxOutputTokens: number; // 0 leaves the model's maximum
+  thinkingBudget: number; // Gemini only; -1 leaves it to the model, 0 turns thinking off
+  systemInstruction: string; // Replaces the built-in generation instruction when not empty
+  refineSystemInstruction: string; // Replaces the built-in refinement instruction when not empty
+  isolatedPreview: boolean; // Serve the preview from a blob: URL under a strict Content-Security-Policy
+  previewAllowlist: string[]; // Origins the isolated preview may load scripts, styles, fonts and images from
+  holdRiskyPreviews: boolean; // Don't render output with high-severity scan findings until acknowledged
+  monthlyBudget: number; // Soft limit on estimated spend per calendar month, in USD; 0 turns the warning off
+}
+
+const SETTINGS_KEY = 'gemini_app_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  geminiModel: GEMINI_MODEL,
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: 'llama3.2-vision',
+  openAiApiKey: '',
+  outputFormat: 'html',
+  temperature: GENERATE_TEMPERATURE,
+  refineTemperature: REFINE_TEMPERATURE,
+  maxOutputTokens: 0,
+  thinkingBudget: -1,
+  systemInstruction: '',
+  refineSystemInstruction: '',
+  isolatedPreview: false,
+  previewAllowlist: DEFAULT_PREVIEW_ALLOWLIST,
+  holdRiskyPreviews: false,
+  monthlyBudget: 0,
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveSettings(settings: AppSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Effective settings a creation was generated with, stored on it so the output can be reproduced
+ */
+export interface GenerationSettings {
+  temperature: number;
+  maxOutputTokens?: number; // Absent: the model's maximum
+  thinkingBudget?: number; // Absent: the model's default
+  systemInstruction: string; // The full text sent, built-in or custom
+}
+
+export function generationSettingsOf({ options }: ModelProvider, format: OutputFormat): GenerationSettings {
+  return {
+    temperature: options.temperature ?? GENERATE_TEMPERATURE,
+    maxOutputTokens: options.maxOutputTokens,
+    thinkingBudget: options.thinkingBudget,
+    systemInstruction: systemInstructionFor(format, options.systemInstruction),
+  };
+}
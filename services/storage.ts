@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, Revision, SourceAttachment } from '../components/CreationHistory';
+import { normalizeCreation } from './revisions';
+
+/**
+ * IndexedDB persistence for creations.
+ *
+ * - `creations`: creation metadata and current HTML (no binary data)
+ * - `revisions`: immutable HTML snapshots belonging to a creation, indexed by `creationId`
+ * - `files`: uploaded source files stored as Blobs, indexed by `creationId`
+ */
+const DB_NAME = 'gemini_app';
+const DB_VERSION = 1;
+const LEGACY_HISTORY_KEY = 'gemini_app_history';
+
+export const STORES = {
+  creations: 'creations',
+  revisions: 'revisions',
+  files: 'files',
+} as const;
+
+// Attachment metadata lives on the creation record (it can change); the bytes live in `files` (they can't)
+interface SourceRecord extends Omit<SourceAttachment, 'dataUrl'> {
+  fileId: string;
+}
+
+interface CreationRecord extends Omit<Creation, 'attachments' | 'revisions'> {
+  sources?: SourceRecord[];
+  sourceFileId?: string; // Single source file written before multi-file uploads
+}
+
+interface RevisionRecord extends Revision {
+  creationId: string;
+}
+
+interface FileRecord {
+  id: string;
+  creationId: string;
+  blob: Blob;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.creations)) {
+          db.createObjectStore(STORES.creations, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.revisions)) {
+          db.createObjectStore(STORES.revisions, { keyPath: 'id' }).createIndex('creationId', 'creationId');
+        }
+        if (!db.objectStoreNames.contains(STORES.files)) {
+          db.createObjectStore(STORES.files, { keyPath: 'id' }).createIndex('creationId', 'creationId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function isQuotaError(error: any): boolean {
+  return error?.name === 'QuotaExceededError' || error?.code === 22;
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// The first source keeps the id used before multi-file uploads, so existing records stay valid
+const sourceFileId = (creationId: string, index: number) =>
+  index === 0 ? `${creationId}:source` : `${creationId}:source:${index}`;
+
+/**
+ * Inserts or updates a creation. Source attachments are written once as Blobs, and only
+ * revisions not yet stored are added (revisions are immutable).
+ * Rejects with a QuotaExceededError when the browser refuses the write; nothing is dropped silently.
+ */
+export async function saveCreation(creation: Creation): Promise<void> {
+  const db = await openDb();
+  const { attachments = [], revisions = [], ...rest } = creation;
+  const record: CreationRecord = { ...rest };
+
+  const storedRevisionIds = new Set(await requestToPromise(
+    db.transaction(STORES.revisions, 'readonly').objectStore(STORES.revisions).index('creationId').getAllKeys(creation.id)
+  ));
+  const newRevisions: RevisionRecord[] = revisions
+    .filter(r => !storedRevisionIds.has(r.id))
+    .map(r => ({ ...r, creationId: creation.id }));
+
+  // Blob conversion is async, so it has to happen before the transaction opens
+  const files: FileRecord[] = [];
+  if (attachments.length > 0) {
+    record.sources = attachments.map(({ dataUrl, ...meta }, i) => ({ ...meta, fileId: sourceFileId(creation.id, i) }));
+    const storedFileIds = new Set(await requestToPromise(
+      db.transaction(STORES.files, 'readonly').objectStore(STORES.files).index('creationId').getAllKeys(creation.id)
+    ));
+    for (const [i, attachment] of attachments.entries()) {
+      const id = record.sources[i].fileId;
+      if (storedFileIds.has(id)) continue;
+      files.push({ id, creationId: creation.id, blob: await dataUrlToBlob(attachment.dataUrl) });
+    }
+  }
+
+  const tx = db.transaction([STORES.creations, STORES.revisions, STORES.files], 'readwrite');
+  tx.objectStore(STORES.creations).put(record);
+  newRevisions.forEach(r => tx.objectStore(STORES.revisions).put(r));
+  files.forEach(f => tx.objectStore(STORES.files).put(f));
+  await transactionDone(tx);
+}
+
+export async function loadCreations(): Promise<Creation[]> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.creations, STORES.revisions, STORES.files], 'readonly');
+  const records = await requestToPromise<CreationRecord[]>(tx.objectStore(STORES.creations).getAll());
+  const revisions = await requestToPromise<RevisionRecord[]>(tx.objectStore(STORES.revisions).getAll());
+  const files = await requestToPromise<FileRecord[]>(tx.objectStore(STORES.files).getAll());
+  const filesById = new Map(files.map(f => [f.id, f]));
+
+  const revisionsByCreation = new Map<string, Revision[]>();
+  revisions
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(({ creationId, ...revision }) => {
+      revisionsByCreation.set(creationId, [...(revisionsByCreation.get(creationId) || []), revision]);
+    });
+
+  const creations = await Promise.all(records.map(async ({ sources, sourceFileId, ...record }) => {
+    const sourceRecords: SourceRecord[] = sources
+      || (sourceFileId ? [{ fileId: sourceFileId, name: record.name, mimeType: filesById.get(sourceFileId)?.blob.type || '' }] : []);
+    const attachments: SourceAttachment[] = [];
+    for (const { fileId, ...meta } of sourceRecords) {
+      const file = filesById.get(fileId);
+      if (file) attachments.push({ ...meta, dataUrl: await blobToDataUrl(file.blob) });
+    }
+    return normalizeCreation({
+      ...record,
+      revisions: revisionsByCreation.get(record.id),
+      attachments: attachments.length > 0 ? attachments : undefined,
+    });
+  }));
+
+  return creations.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+async function deleteByIndex(store: IDBObjectStore, creationId: string): Promise<void> {
+  const keys = await requestToPromise(store.index('creationId').getAllKeys(creationId));
+  keys.forEach(key => store.delete(key));
+}
+
+/**
+ * Removes a creation together with its revisions and source files
+ */
+export async function deleteCreation(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.creations, STORES.revisions, STORES.files], 'readwrite');
+  tx.objectStore(STORES.creations).delete(id);
+  await deleteByIndex(tx.objectStore(STORES.revisions), id);
+  await deleteByIndex(tx.objectStore(STORES.files), id);
+  await transactionDone(tx);
+}
+
+/**
+ * Approximate bytes held per creation (HTML as UTF-16 plus source Blob size)
+ */
+export async function getCreationSizes(): Promise<Record<string, number>> {
+  const db = await openDb();
+  const tx = db.transaction([STORES.creations, STORES.revisions, STORES.files], 'readonly');
+  const [records, revisions, files] = await Promise.all([
+    requestToPromise<CreationRecord[]>(tx.objectStore(STORES.creations).getAll()),
+    requestToPromise<RevisionRecord[]>(tx.objectStore(STORES.revisions).getAll()),
+    requestToPromise<FileRecord[]>(tx.objectStore(STORES.files).getAll()),
+  ]);
+
+  const sizes: Record<string, number> = {};
+  const add = (id: string, bytes: number) => { sizes[id] = (sizes[id] || 0) + bytes; };
+  records.forEach(r => add(r.id, r.html.length * 2));
+  revisions.forEach(r => add(r.creationId, r.html.length * 2));
+  files.forEach(f => add(f.creationId, f.blob.size));
+  return sizes;
+}
+
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * One-time import of the old localStorage history. The legacy key is only removed
+ * after every creation was written, so a failed migration is retried on next load.
+ */
+export async function migrateLegacyHistory(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return 0;
+
+  let parsed: any[];
+  try {
+    parsed = JSON.parse(saved);
+  } catch (e) {
+    console.error("Legacy history is corrupted, skipping migration", e);
+    return 0;
+  }
+
+  for (const item of parsed) {
+    await saveCreation(normalizeCreation(item));
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return parsed.length;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, RefinementTurn, Revision } from '../components/CreationHistory';
+import { RefineContext } from './providers';
+import { diffLines, diffStats } from './diff';
+
+/**
+ * The refinement thread of a creation: what the user asked, whether each proposal was kept, and
+ * the constraints they pinned. Refinements get a condensed copy as context, not the full responses.
+ */
+
+// Most recent requests quoted to the model; older ones are only counted
+const CONTEXT_REQUESTS = 8;
+const CONTEXT_REQUEST_CHARS = 200;
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+export function createTurn(requests: string[], outcome: RefinementTurn['outcome'], details: Pick<RefinementTurn, 'summary' | 'revisionId'> = {}): RefinementTurn {
+  return {
+    id: crypto.randomUUID(),
+    requests,
+    outcome,
+    timestamp: new Date(),
+    ...details,
+  };
+}
+
+export const appendTurn = (creation: Creation, turn: RefinementTurn): Creation =>
+  ({ ...creation, thread: [...(creation.thread ?? []), turn] });
+
+/**
+ * Short description of a proposal, e.g. "+12 −3 lines" or "Changed app.js, styles.css"
+ */
+export function summarizeChange(before: Pick<Revision, 'html' | 'files'>, after: Pick<Revision, 'html' | 'files'>): string {
+  if (before.files && after.files) {
+    const previous = new Map(before.files.map(file => [file.path, file.content]));
+    const changed = after.files.filter(file => previous.get(file.path) !== file.content).map(file => file.path);
+    const removed = before.files.filter(file => !after.files!.some(f => f.path === file.path)).map(file => file.path);
+    const parts = [
+      changed.length > 0 ? `Changed ${changed.join(', ')}` : '',
+      removed.length > 0 ? `Removed ${removed.join(', ')}` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join('; ') : 'No changes';
+  }
+  const { added, removed } = diffStats(diffLines(before.html, after.html));
+  return added + removed > 0 ? `+${added} −${removed} lines` : 'No changes';
+}
+
+/**
+ * Context for the next refinement: every pinned constraint and the latest requests. Applied
+ * requests whose revision is no longer an ancestor of the current one are reported as undone.
+ */
+export function buildRefineContext({ thread = [], constraints = [], revisions, revisionId }: Creation): RefineContext | undefined {
+  const ancestry = new Set<string>();
+  for (let id = revisionId; id && !ancestry.has(id); id = revisions?.find(r => r.id === id)?.parentId) {
+    ancestry.add(id);
+  }
+
+  const requests = thread.flatMap((turn): RefineContext['earlierRequests'] => {
+    const outcome = turn.outcome === 'applied' && turn.revisionId && !ancestry.has(turn.revisionId) ? 'undone' : turn.outcome;
+    return turn.requests.map(text => ({ text: truncate(text, CONTEXT_REQUEST_CHARS), outcome }));
+  });
+  if (requests.length === 0 && constraints.length === 0) return undefined;
+
+  const earlierRequests = requests.slice(-CONTEXT_REQUESTS);
+  return { constraints, earlierRequests, omitted: requests.length - earlierRequests.length };
+}
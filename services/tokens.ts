@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, RefineInput, InlineFile, TokenLimits, ModelOptions } from './providers/types';
+import { buildRefinePrompt, refineSystemInstructionFor } from './prompts';
+import { isAbortError } from './retry';
+
+/**
+ * Token budgeting for refinements. Requests are counted before they are sent (by the provider when
+ * it can, estimated otherwise) and compacted when they would overflow the model's context window.
+ * Documents too large to rewrite comfortably are refined with search/replace patches instead.
+ */
+
+export interface TokenUsage {
+  input: number; // Tokens of a refinement request for the current code, without the instruction
+  rewrite: number; // Output tokens needed to return the whole document
+  limits: TokenLimits;
+  estimated: boolean; // Counted locally because the provider couldn't
+  patch: boolean; // Refinements use search/replace edits
+}
+
+/** Thrown when a refinement exceeds the model's context window even after compaction */
+export class ContextLimitError extends Error {
+  constructor(public tokens: number, public limit: number) {
+    super(`The request needs about ${tokens} tokens but the model accepts ${limit}.`);
+    this.name = 'ContextLimitError';
+  }
+}
+
+// Rough ratio for code and English prose; only used when the provider can't count
+const CHARS_PER_TOKEN = 4;
+// Gemini bills an image, or a PDF page, at a flat rate
+const IMAGE_TOKENS = 258;
+// Counts and estimates are approximate, so requests keep some distance from the limit
+const INPUT_HEADROOM = 0.9;
+// Documents larger than this (or than half the output limit) are refined with patches
+const PATCH_THRESHOLD_TOKENS = 6000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+function estimateFileTokens({ data, mimeType }: InlineFile): number {
+  if (mimeType !== 'application/pdf') return IMAGE_TOKENS;
+  const pages = atob(data).match(/\/Type\s*\/Page(?!s)/g)?.length || 1;
+  return pages * IMAGE_TOKENS;
+}
+
+export function estimateRefineTokens(input: RefineInput, options: ModelOptions = {}): number {
+  const text = estimateTokens(refineSystemInstructionFor(input, options.refineSystemInstruction) + buildRefinePrompt(input));
+  return (input.files ?? []).reduce((sum, file) => sum + estimateFileTokens(file), text);
+}
+
+export async function countRefineTokens(provider: ModelProvider, input: RefineInput, signal?: AbortSignal): Promise<{ tokens: number; estimated: boolean }> {
+  if (provider.countTokens) {
+    try {
+      return { tokens: await provider.countTokens(input, signal), estimated: false };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn("Token count failed, estimating instead:", error);
+    }
+  }
+  return { tokens: estimateRefineTokens(input, provider.options), estimated: true };
+}
+
+export const shouldPatch = (code: string, limits: TokenLimits) =>
+  estimateTokens(code) > Math.min(PATCH_THRESHOLD_TOKENS, limits.output / 2);
+
+/**
+ * Returns the refinement as it fits the input budget. Oversized requests are compacted step by step:
+ * first the source attachments are left out (the code already reflects them), then the earlier
+ * requests of the conversation. Pinned constraints are always kept.
+ */
+export async function fitRefinement(provider: ModelProvider, input: RefineInput, signal?: AbortSignal): Promise<RefineInput> {
+  const budget = Math.floor(provider.limits.input * INPUT_HEADROOM);
+  const candidates = [input];
+  if (input.files?.length) {
+    candidates.push({ ...input, files: undefined });
+  }
+  const { context } = input;
+  if (context?.earlierRequests.length) {
+    const compacted = { ...context, earlierRequests: [], omitted: context.omitted + context.earlierRequests.length };
+    candidates.push({ ...candidates[candidates.length - 1], context: compacted });
+  }
+
+  let tokens = 0;
+  for (const candidate of candidates) {
+    tokens = (await countRefineTokens(provider, candidate, signal)).tokens;
+    if (tokens <= budget) {
+      if (candidate !== input) console.warn(`Refinement compacted to ${tokens} tokens to fit the context window.`);
+      return candidate;
+    }
+  }
+  throw new ContextLimitError(tokens, provider.limits.input);
+}
+
+/**
+ * Size of a refinement of this code against the provider's limits, for the usage meter
+ */
+export async function measureRefinement(provider: ModelProvider, input: Omit<RefineInput, 'instruction'>, signal?: AbortSignal): Promise<TokenUsage> {
+  const { tokens, estimated } = await countRefineTokens(provider, { ...input, instruction: '' }, signal);
+  const code = input.projectFiles ? JSON.stringify({ files: input.projectFiles }) : input.currentHtml;
+  return {
+    input: tokens,
+    rewrite: estimateTokens(code),
+    limits: provider.limits,
+    estimated,
+    patch: shouldPatch(code, provider.limits),
+  };
+}
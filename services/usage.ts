@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider, ModelOutput, ProviderId } from './providers/types';
+import { isAbortError } from './retry';
+
+/**
+ * Usage accounting. Each generation, refinement or export runs on a metered copy of the provider,
+ * which adds up the tokens, calls and failed attempts of every model request made on its behalf
+ * (follow-ups and withRetry retries included). Results are stored on the revision they produced
+ * and appended to a ledger in localStorage, which outlives deleted creations and feeds the dashboard.
+ */
+
+export interface RequestUsage {
+  provider: ProviderId;
+  model: string;
+  inputTokens: number;
+  outputTokens: number; // Including thinking tokens, which are billed as output
+  calls: number; // Model requests made, successful or not
+  retries: number; // Requests that failed and were retried (or surfaced as the error)
+  latencyMs: number; // Time spent waiting on the model
+}
+
+export type UsageKind = 'generate' | 'refine' | 'convert';
+
+export interface UsageRecord extends RequestUsage {
+  id: string;
+  kind: UsageKind;
+  timestamp: Date;
+  creationId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, for models with a known price
+  unpriced: number; // Calls to models without a known price
+}
+
+export interface ModelPrice {
+  input: number; // USD per million tokens
+  output: number;
+}
+
+// List prices for prompts up to 200k tokens; long-context surcharges are not modelled
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+};
+
+const USAGE_KEY = 'gemini_app_usage';
+export const USAGE_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wraps a provider so every request it serves is counted. Streams report running totals, so the
+ * last usage seen in a stream is the one kept.
+ */
+export function meterProvider(provider: ModelProvider): { provider: ModelProvider; usage: () => RequestUsage } {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let calls = 0;
+  let retries = 0;
+  let latencyMs = 0;
+
+  const count = (output: ModelOutput) => {
+    inputTokens += output.usage?.inputTokens ?? 0;
+    outputTokens += output.usage?.outputTokens ?? 0;
+  };
+
+  const timed = async <T>(request: () => Promise<T>, onDone: (result: T) => void): Promise<T> => {
+    const start = Date.now();
+    calls++;
+    try {
+      const result = await request();
+      onDone(result);
+      return result;
+    } catch (error) {
+      if (!isAbortError(error)) retries++;
+      throw error;
+    } finally {
+      latencyMs += Date.now() - start;
+    }
+  };
+
+  const metered: ModelProvider = {
+    ...provider,
+    generate: (input, signal) => timed(() => provider.generate(input, signal), count),
+    refine: (input, signal) => timed(() => provider.refine(input, signal), count),
+    convert: (input, signal) => timed(() => provider.convert(input, signal), count),
+    async *stream(input, signal) {
+      const start = Date.now();
+      let last: ModelOutput | undefined;
+      calls++;
+      try {
+        for await (const chunk of provider.stream(input, signal)) {
+          if (chunk.usage) last = chunk;
+          yield chunk;
+        }
+      } catch (error) {
+        if (!isAbortError(error)) retries++;
+        throw error;
+      } finally {
+        if (last) count(last);
+        latencyMs += Date.now() - start;
+      }
+    },
+  };
+
+  const usage = (): RequestUsage => ({ provider: provider.id, model: provider.model, inputTokens, outputTokens, calls, retries, latencyMs });
+  return { provider: metered, usage };
+}
+
+/** Usage of a proposal built in several steps, e.g. a refinement followed by fixes */
+export const addUsage = (a: RequestUsage, b: RequestUsage): RequestUsage => ({
+  ...b,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  calls: a.calls + b.calls,
+  retries: a.retries + b.retries,
+  latencyMs: a.latencyMs + b.latencyMs,
+});
+
+/** Estimated USD cost, or undefined when the model's price is unknown (local and fixture models) */
+export function estimateCost({ model, inputTokens, outputTokens }: Pick<RequestUsage, 'model' | 'inputTokens' | 'outputTokens'>): number | undefined {
+  const price = MODEL_PRICES[model];
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => {
+    const cost = estimateCost(record);
+    return {
+      calls: totals.calls + record.calls,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      cost: totals.cost + (cost ?? 0),
+      unpriced: totals.unpriced + (cost === undefined ? record.calls : 0),
+    };
+  }, { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 });
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** One entry per local calendar day, newest first, including days without usage */
+export function dailyTotals(records: UsageRecord[], days: number, now = new Date()): (UsageTotals & { day: string })[] {
+  return Array.from({ length: days }, (_, i) => {
+    const day = dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i));
+    return { day, ...sumUsage(records.filter(record => dayKey(record.timestamp) === day)) };
+  });
+}
+
+/** Totals per model, most expensive first */
+export function totalsByModel(records: UsageRecord[]): (UsageTotals & { model: string; provider: ProviderId })[] {
+  const models = new Map<string, UsageRecord[]>();
+  records.forEach(record => models.set(record.model, [...(models.get(record.model) ?? []), record]));
+  return [...models.values()]
+    .map(group => ({ model: group[0].model, provider: group[0].provider, ...sumUsage(group) }))
+    .sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+/** Estimated spend in the current calendar month, which the soft budget applies to */
+export const monthToDate = (records: UsageRecord[], now = new Date()) =>
+  sumUsage(records.filter(record => record.timestamp.getFullYear() === now.getFullYear() && record.timestamp.getMonth() === now.getMonth()));
+
+export function loadUsage(): UsageRecord[] {
+  try {
+    const saved = localStorage.getItem(USAGE_KEY);
+    if (saved) return JSON.parse(saved).map((record: any) => ({ ...record, timestamp: new Date(record.timestamp) }));
+  } catch (e) {
+    console.error("Failed to load usage", e);
+  }
+  return [];
+}
+
+/**
+ * Appends a record and drops those past the retention period. Returns the updated ledger.
+ */
+export function recordUsage(records: UsageRecord[], usage: RequestUsage, kind: UsageKind, creationId?: string): UsageRecord[] {
+  const cutoff = Date.now() - USAGE_RETENTION_DAYS * DAY_MS;
+  const record: UsageRecord = { ...usage, id: crypto.randomUUID(), kind, timestamp: new Date(), creationId };
+  const next = [...records.filter(r => r.timestamp.getTime() >= cutoff), record];
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.error("Failed to save usage", e);
+  }
+  return next;
+}
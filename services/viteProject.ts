@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile } from './providers/types';
+import { normalizePath } from './project';
+
+/**
+ * "Export as project": a runnable Vite + React + Tailwind project. The model only writes the
+ * React sources (src/App.jsx, src/components/...); the build setup around them is fixed here
+ * so every export installs and starts the same way.
+ */
+
+export const REACT_ENTRY = 'src/App.jsx';
+
+// Paths the conversion may write; everything else comes from the scaffold. Only checked on normalized
+// paths, which have no `..` segments left to climb out of src/.
+const isConvertiblePath = (path: string) => !!path && (path.startsWith('src/') || path === 'tailwind.config.js');
+
+export const packageName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'prototype';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function viteScaffold(name: string): ProjectFile[] {
+  const pkg = {
+    name: packageName(name),
+    private: true,
+    version: '0.1.0',
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'vite build',
+      preview: 'vite preview',
+    },
+    dependencies: {
+      react: '^18.3.1',
+      'react-dom': '^18.3.1',
+    },
+    devDependencies: {
+      '@vitejs/plugin-react': '^4.3.4',
+      autoprefixer: '^10.4.20',
+      postcss: '^8.4.49',
+      tailwindcss: '^3.4.17',
+      vite: '^5.4.11',
+    },
+  };
+
+  return [
+    { path: 'package.json', content: JSON.stringify(pkg, null, 2) + '\n' },
+    {
+      path: 'index.html',
+      content: `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(name)}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`,
+    },
+    {
+      path: 'vite.config.js',
+      content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+    },
+    {
+      path: 'tailwind.config.js',
+      content: `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './src/**/*.{js,jsx}'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+`,
+    },
+    {
+      path: 'postcss.config.js',
+      content: `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`,
+    },
+    {
+      path: 'src/main.jsx',
+      content: `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App.jsx';
+import './index.css';
+
+ReactDOM.createRoot(document.getElementById('root')).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`,
+    },
+    { path: 'src/index.css', content: '@tailwind base;\n@tailwind components;\n@tailwind utilities;\n' },
+    { path: '.gitignore', content: 'node_modules\ndist\n' },
+    {
+      path: 'README.md',
+      content: `# ${name}
+
+Prototype exported as a Vite + React + Tailwind project.
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+`,
+    },
+  ];
+}
+
+/**
+ * Combines the scaffold with converted sources. Converted files may replace the Tailwind config and
+ * anything under src/ except the entry wiring (main.jsx, index.css); files elsewhere are dropped.
+ */
+export function buildViteProject(name: string, converted: ProjectFile[]): ProjectFile[] {
+  const files = new Map(viteScaffold(name).map(f => [f.path, f.content]));
+  const fixed = new Set(['src/main.jsx', 'src/index.css']);
+  converted.forEach(file => {
+    const path = normalizePath(file.path);
+    if (isConvertiblePath(path) && !fixed.has(path)) files.set(path, file.content);
+  });
+  return [...files].map(([path, content]) => ({ path, content }));
+}
@@ -0,0 +1,24 @@
+/**
+ * Source Attachment Tests
+ */
+
+import { validateFiles, withPageSelection, MAX_ATTACHMENTS } from '../services/attachments';
+
+export const runAttachmentTests = () => {
+  console.log('Running Source Attachment Tests...');
+
+  // Test 1: Mixed images and PDFs are accepted together; unsupported types and oversized batches are not
+  const png = new File(['x'], 'login.png', { type: 'image/png' });
+  const pdf = new File(['x'], 'flow.pdf', { type: 'application/pdf' });
+  if (validateFiles([png, pdf]) !== null) throw new Error('Images and PDFs should be accepted together');
+  if (!validateFiles([new File(['x'], 'notes.txt', { type: 'text/plain' })])) throw new Error('Unsupported type accepted');
+  if (!validateFiles(Array(MAX_ATTACHMENTS + 1).fill(png))) throw new Error('Too many files accepted');
+
+  // Test 2: Page selections are sorted and de-duplicated; selecting every page sends the whole document
+  const attachment = { name: 'flow.pdf', mimeType: 'application/pdf', dataUrl: 'data:application/pdf;base64,AAAA' };
+  const picked = withPageSelection(attachment, [3, 1, 3], 4);
+  if (picked.pages?.join() !== '1,3') throw new Error('Page selection not normalized');
+  if ('pages' in withPageSelection(picked, [1, 2, 3, 4], 4)) throw new Error('Full selection should clear pages');
+
+  console.log('✅ Source Attachment Tests Passed');
+};
@@ -0,0 +1,69 @@
+/**
+ * Code Syntax Tests
+ */
+
+import { tokenize, tokenLines, foldRanges, lintCode, formatCode, findMatches, languageOf } from '../services/codeSyntax';
+
+export const runCodeSyntaxTests = () => {
+  console.log('Running Code Syntax Tests...');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<style>
+.card { color: #fff; padding: 4px }
+</style>
+</head>
+<body>
+<div class="card" data-count=3>
+<p>Hi &amp; bye</p>
+</div>
+<script>
+const items = [1, 2];
+function render() {
+return "done"; // finished
+}
+</script>
+</body>
+</html>`;
+
+  // Test 1: Tokens cover the source exactly and embedded CSS/JS are highlighted as such
+  const tokens = tokenize(html, 'html');
+  if (tokens.map(t => t.text).join('') !== html) throw new Error('Tokens do not reproduce the source');
+  const typed = (type: string) => tokens.filter(t => t.type === type).map(t => t.text.trim());
+  if (!typed('keyword').includes('function') || !typed('keyword').includes('<!DOCTYPE html>')) throw new Error('Keywords missing');
+  if (!typed('property').includes('color') || !typed('number').includes('#fff') || !typed('number').includes('4px')) throw new Error('CSS not highlighted');
+  if (!typed('string').includes('"card"') || !typed('string').includes('3') || !typed('comment').includes('// finished')) throw new Error('Strings or comments missing');
+  if (tokenLines(tokens).length !== html.split('\n').length) throw new Error('Token lines out of step');
+
+  // Test 2: Folds cover multi-line elements and blocks, keeping the closing line visible
+  const folds = foldRanges(html, 'html').map(f => `${f.start}-${f.end}`);
+  if (folds.join(' ') !== '2-19 3-7 4-6 8-18 9-11 12-17 14-16') throw new Error(`Folds wrong: ${folds.join(' ')}`);
+
+  // Test 3: Lint markers for structure, strings and inline script syntax
+  if (lintCode(html, 'html').length > 0) throw new Error('Clean document flagged');
+  const broken = '<main>\n<div>\n<span>Text</div>\n</section>\n<script>\nconst a = "open;\n</script>\n';
+  const markers = lintCode(broken, 'html').map(m => `${m.line}:${m.severity}`);
+  if (markers.join(' ') !== '1:error 3:warning 4:warning 6:error') throw new Error(`Markers wrong: ${markers.join(' ')}`);
+  const syntax = lintCode('<body>\n<script>\nlet x = ;\n</script>\n</body>', 'html');
+  if (syntax.length !== 1 || syntax[0].line !== 2 || !syntax[0].message.startsWith('Script error')) throw new Error('Script syntax error missed');
+  if (lintCode('a { color: red;\n', 'css')[0]?.message !== "Unclosed '{'") throw new Error('CSS brace missed');
+
+  // Test 4: Formatting re-indents by depth and leaves preformatted content alone
+  const messy = '<div>\n      <p>One</p>\n<pre>\n  keep\n</pre>\n  <script>\nif (a) {\ngo();\n      }\n</script>\n        </div>';
+  const formatted = formatCode(messy, 'html');
+  const expected = '<div>\n  <p>One</p>\n  <pre>\n  keep\n  </pre>\n  <script>\n    if (a) {\n      go();\n    }\n  </script>\n</div>';
+  if (formatted !== expected) throw new Error(`Formatting wrong:\n${formatted}`);
+  if (formatCode(formatted, 'html') !== formatted) throw new Error('Formatting not idempotent');
+
+  // Test 5: Search by line and column, and languages by file extension
+  const matches = findMatches(html, 'CARD');
+  if (matches.length !== 2 || matches[1].line !== 9 || matches[1].from !== 12 || findMatches(html, 'CARD', true).length !== 0) {
+    throw new Error('Search wrong');
+  }
+  if (languageOf('src/App.tsx') !== 'js' || languageOf('styles.css') !== 'css' || languageOf() !== 'html' || languageOf('README.md') !== 'text') {
+    throw new Error('Languages wrong');
+  }
+
+  console.log('✅ Code Syntax Tests Passed');
+};
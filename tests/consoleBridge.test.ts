@@ -0,0 +1,46 @@
+/**
+ * Console Bridge Tests
+ */
+
+import { injectConsoleBridge, appendConsoleEntry, appendBlockedRequest, collectErrors, isConsoleMessage, MAX_CONSOLE_ENTRIES, ConsoleEntry } from '../services/consoleBridge';
+import { buildFixErrorsInstruction } from '../services/prompts';
+
+export const runConsoleBridgeTests = () => {
+  console.log('Running Console Bridge Tests...');
+
+  // Test 1: The bridge is the first script in <head> and doesn't add lines
+  const html = '<!DOCTYPE html>\n<html>\n<head><script src="app.js"></script></head>\n<body></body>\n</html>';
+  const injected = injectConsoleBridge(html);
+  if (injected.indexOf('data-preview-bridge') > injected.indexOf('app.js')) throw new Error('Bridge not injected before app scripts');
+  if (injected.split('\n').length !== html.split('\n').length) throw new Error('Bridge shifted line numbers');
+  if (!injectConsoleBridge('<div>fragment</div>').startsWith('<script data-preview-bridge>')) throw new Error('Fragment not handled');
+
+  // Test 2: Only tagged messages are accepted
+  if (!isConsoleMessage({ source: 'preview-console', type: 'load' }) || isConsoleMessage({ type: 'load' }) || isConsoleMessage(null)) {
+    throw new Error('Console message guard invalid');
+  }
+
+  // Test 3: Repeats collapse and the log is capped
+  let entries: ConsoleEntry[] = [];
+  for (let i = 0; i < 3; i++) entries = appendConsoleEntry(entries, { level: 'error', message: 'x is not defined', location: '12:5', timestamp: i });
+  if (entries.length !== 1 || entries[0].count !== 3) throw new Error('Repeated entries not collapsed');
+  for (let i = 0; i < MAX_CONSOLE_ENTRIES + 10; i++) entries = appendConsoleEntry(entries, { level: 'log', message: `tick ${i}`, timestamp: i });
+  if (entries.length !== MAX_CONSOLE_ENTRIES) throw new Error('Console log not capped');
+
+  // Test 4: Errors are deduplicated for the fix instruction
+  const errors = collectErrors([
+    { level: 'error', message: 'Boom', location: '3:1', count: 1, timestamp: 0 },
+    { level: 'warn', message: 'Careful', count: 1, timestamp: 1 },
+    { level: 'error', message: 'Boom', location: '3:1', count: 1, timestamp: 2 },
+  ]);
+  if (errors.length !== 1 || errors[0] !== 'Boom (at 3:1)') throw new Error('Errors not collected');
+  if (!buildFixErrorsInstruction(errors).includes('1. Boom (at 3:1)')) throw new Error('Fix instruction missing errors');
+
+  // Test 5: Blocked requests are counted per URL and directive
+  let blocked = appendBlockedRequest([], 'https://api.example.com/data', 'connect-src');
+  blocked = appendBlockedRequest(blocked, 'https://api.example.com/data', 'connect-src');
+  blocked = appendBlockedRequest(blocked, 'https://api.example.com/data', 'img-src');
+  if (blocked.length !== 2 || blocked[0].count !== 2) throw new Error('Blocked requests not grouped');
+
+  console.log('✅ Console Bridge Tests Passed');
+};
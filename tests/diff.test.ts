@@ -0,0 +1,25 @@
+/**
+ * HTML Diff Tests
+ */
+
+import { diffLines, diffStats, collapseUnchanged, splitHtmlLines } from '../services/diff';
+
+export const runDiffTests = () => {
+  console.log('Running HTML Diff Tests...');
+
+  // Test 1: Adjacent tags are split so single-line markup diffs per element
+  if (splitHtmlLines('<div><p>a</p></div>').length !== 3) throw new Error('Tag splitting failed');
+
+  // Test 2: Only the changed element is reported; indentation changes are ignored
+  const before = '<main>\n<h1>Title</h1><p>Old</p>\n</main>';
+  const after = '<main>\n  <h1>Title</h1><p>New</p>\n</main>';
+  const stats = diffStats(diffLines(before, after));
+  if (stats.added !== 1 || stats.removed !== 1) throw new Error(`Unexpected diff stats ${JSON.stringify(stats)}`);
+
+  // Test 3: Long unchanged runs collapse into a single skip marker
+  const body = Array.from({ length: 20 }, (_, i) => `<li>${i}</li>`).join('\n');
+  const rows = collapseUnchanged(diffLines(body, body.replace('<li>10</li>', '<li>ten</li>')), 2);
+  if (rows.filter(r => r.op === 'skip').length !== 2) throw new Error('Unchanged lines were not collapsed');
+
+  console.log('✅ HTML Diff Tests Passed');
+};
@@ -0,0 +1,72 @@
+/**
+ * Direct Edit Tests
+ */
+
+import { applyDirectEdit, applyDirectEditToFiles, describeDirectEdit, cssColorToHex, DirectEdit } from '../services/directEdit';
+import { findElement, ElementNotFoundError } from '../services/elementAnchors';
+import { assembleProject } from '../services/project';
+import { fixtureProject } from '../services/providers/fixture';
+
+export const runDirectEditTests = () => {
+  console.log('Running Direct Edit Tests...');
+
+  const html = `<body>
+<ul class="list">
+  <li>One</li>
+  <li style="color: red">Two &amp; more</li>
+  <li>Three</li>
+</ul>
+</body>`;
+
+  // Test 1: Text edits replace only the content and escape it
+  const text = applyDirectEdit(html, { type: 'text', elementId: '1', text: 'One <b>' });
+  if (text !== html.replace('<li>One</li>', '<li>One &lt;b&gt;</li>')) throw new Error('Text edit wrong');
+
+  // Test 2: Style edits merge into the inline style attribute
+  const styled = applyDirectEdit(html, { type: 'style', elementId: '2', styles: { backgroundColor: '#000000', color: '' } });
+  if (!styled.includes('<li style="background-color: #000000">Two')) throw new Error('Inline styles not merged');
+  const added = applyDirectEdit(html, { type: 'style', elementId: '3', styles: { fontSize: '20px' } });
+  if (!added.includes('<li style="font-size: 20px">Three</li>')) throw new Error('Style attribute not added');
+
+  // Test 3: Moves keep the indentation and the other elements intact
+  const moved = applyDirectEdit(html, { type: 'move', elementId: '3', targetId: '1', position: 'before' });
+  if (moved !== html.replace('\n  <li>Three</li>', '').replace('  <li>One</li>', '  <li>Three</li>\n  <li>One</li>')) {
+    throw new Error(`Move wrong:\n${moved}`);
+  }
+  const movedDown = applyDirectEdit(html, { type: 'move', elementId: '1', targetId: '3', position: 'after' });
+  if (movedDown.indexOf('One') < movedDown.indexOf('Three')) throw new Error('Move after wrong');
+
+  // Test 4: Removal and labels
+  if (applyDirectEdit(html, { type: 'remove', elementId: '0' }) !== '<body>\n\n</body>') throw new Error('Remove wrong');
+  if (describeDirectEdit(html, { type: 'style', elementId: '2', styles: { backgroundColor: 'red' } }) !== 'Set background-color on <li>') {
+    throw new Error('Label wrong');
+  }
+  try {
+    applyDirectEdit(html, { type: 'remove', elementId: '9' });
+    throw new Error('Unknown element edited');
+  } catch (e) {
+    if (!(e instanceof ElementNotFoundError)) throw e;
+  }
+
+  // Test 5: Project edits land in index.html at the ids of the assembled preview
+  const files = fixtureProject({ prompt: 'Counter' });
+  const heading = [0, 1, 2, 3].map(String).find(id => findElement(assembleProject(files), id)?.tagName === 'h1')!;
+  const edited = applyDirectEditToFiles(files, { type: 'text', elementId: heading, text: 'Renamed' });
+  if (!assembleProject(edited).includes('>Renamed</h1>') || edited[1] !== files[1]) throw new Error('Project edit wrong');
+
+  // Test 6: Computed colors convert for the color picker
+  if (cssColorToHex('rgb(59, 130, 246)') !== '#3b82f6' || cssColorToHex('rgba(0, 0, 0, 0)') !== '#000000' || cssColorToHex('red')) {
+    throw new Error('Color conversion wrong');
+  }
+
+  // Test 7: Inspector commits batch class and style changes on the same element
+  const card = '<div id="card" class="p-4 bg-white shadow">Card</div>';
+  const edits: DirectEdit[] = [
+    { type: 'classes', elementId: '0', add: ['rounded-xl', 'p-4'], remove: ['shadow', 'active'] },
+    { type: 'style', elementId: '0', styles: { marginTop: '8px' } },
+  ];
+  const committed = edits.reduce(applyDirectEdit, card);
+  if (committed !== '<div id="card" class="p-4 bg-white rounded-xl" style="margin-top: 8px">Card</div>') throw new Error(`Batch wrong: ${committed}`);
+
+  console.log('✅ Direct Edit Tests Passed');
+};
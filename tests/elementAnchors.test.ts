@@ -0,0 +1,43 @@
+/**
+ * Element Anchor Tests
+ */
+
+import { stampElementIds, findElement, replaceElement } from '../services/elementAnchors';
+
+export const runElementAnchorTests = () => {
+  console.log('Running Element Anchor Tests...');
+
+  const html = `<!DOCTYPE html>
+<html><head><title>App</title><script>const tpl = '<div class="fake"></div>';</script></head>
+<body>
+<main class="p-4">
+  <!-- <section>commented out</section> -->
+  <div>First</div>
+  <div class="card"><img src="a.png"><p>Body text</div>
+  <svg viewBox="0 0 10 10"><circle r="4"/></svg>
+</main>
+</body>
+</html>`;
+
+  // Test 1: Only elements with a known range are stamped, in source order, without moving lines
+  const stamped = stampElementIds(html);
+  const ids = [...stamped.matchAll(/<(\w+)[^>]*data-pv-id="(\d+)"/g)].map(m => `${m[1]}:${m[2]}`);
+  if (ids.join(' ') !== 'main:0 div:1 div:2 img:3 svg:4 circle:5') throw new Error(`Unexpected stamps: ${ids.join(' ')}`);
+  if (stamped.split('\n').length !== html.split('\n').length) throw new Error('Stamping shifted line numbers');
+  if (stamped.includes('class="fake" data-pv-id')) throw new Error('Markup inside a script was stamped');
+  if (!stamped.includes('<circle r="4" data-pv-id="5"/>')) throw new Error('Self-closing tag stamped incorrectly');
+
+  // Test 2: Ids resolve to exact source ranges and selector paths
+  const card = findElement(html, '2');
+  if (!card || card.outerHtml !== '<div class="card"><img src="a.png"><p>Body text</div>') throw new Error('Element range wrong');
+  if (card.path !== 'html > body > main > div:nth-of-type(2)') throw new Error(`Path wrong: ${card.path}`);
+  if (findElement(html, '6') || findElement(html, '1.5')) throw new Error('Unknown id resolved');
+
+  // Test 3: Replacing an element leaves everything else byte for byte
+  const first = findElement(html, '1')!;
+  const edited = replaceElement(html, first, '<div class="font-bold">First!</div>');
+  if (edited !== html.replace('<div>First</div>', '<div class="font-bold">First!</div>')) throw new Error('Replacement touched other code');
+  if (findElement(edited, '2')?.outerHtml !== card.outerHtml) throw new Error('Ids not stable after an edit');
+
+  console.log('✅ Element Anchor Tests Passed');
+};
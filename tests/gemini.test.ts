@@ -2,18 +2,103 @@
  * Gemini Service Tests
  */
 
-import { bringToLife } from '../services/gemini';
+import { bringToLife, refineApp, refineElement, InvalidOutputError, ElementNotFoundError, ContextLimitError } from '../services/gemini';
+import { extractHtml, extractPartialHtml } from '../services/htmlOutput';
+import { ModelProvider, ModelOutput, RefineInput } from '../services/providers';
+import { fixtureProvider } from '../services/providers/fixture';
 
-// Mocking the Global Fetch/SDK would happen here in a real environment
-// For this prototyping tool, we document the validation logic
+// Replays canned responses in order, standing in for the model
+const scriptedProvider = (outputs: ModelOutput[]): ModelProvider => {
+  const next = async () => {
+    const output = outputs.shift();
+    if (!output) throw new Error('Scripted provider ran out of responses');
+    return output;
+  };
+  return { ...fixtureProvider, generate: next, refine: next };
+};
 
-export const runGeminiTests = () => {
+export const runGeminiTests = async () => {
   console.log('Running Gemini Service Tests...');
 
   // Test 1: HTML Cleaning
   const sample = "```html <html></html> ```";
-  const cleaned = sample.replace(/^```html\s*/, '').replace(/^```\s*/, '').replace(/```$/, '');
-  if (cleaned !== " <html></html> ") throw new Error('HTML Cleaning failed');
+  if (extractHtml(sample) !== "<html></html>") throw new Error('HTML Cleaning failed');
+
+  // Test 2: Partial (streaming) HTML Cleaning - a half-received closing fence is dropped
+  const partial = "```html\n<html></html>\n``";
+  if (extractPartialHtml(partial) !== "<html></html>\n") throw new Error('Partial HTML Cleaning failed');
+
+  // Test 3: Output cut off at the token limit is continued and stitched together
+  const head = '<!DOCTYPE html>\n<html><body><main><h1>Counter app</h1>';
+  const continued = await bringToLife('Counter', undefined, undefined, undefined, undefined, scriptedProvider([
+    { text: head, finishReason: 'length' },
+    { text: '```html\n<h1>Counter app</h1></main></body></html>\n```', finishReason: 'stop' },
+  ]));
+  if (continued !== `${head}</main></body></html>`) throw new Error('Truncated output was not continued');
+
+  // Test 4: Malformed output is sent back for repair
+  const repaired = await refineApp('<html></html>', 'Add a footer', undefined, undefined, undefined, scriptedProvider([
+    { text: '<!DOCTYPE html><html><body><div><footer>Hi</footer></body></html>', finishReason: 'stop' },
+    { text: 'Fixed:\n```html\n<!DOCTYPE html><html><body><div><footer>Hi</footer></div></body></html>\n```' },
+  ]));
+  if (!repaired.includes('</footer></div>')) throw new Error('Malformed output was not repaired');
+
+  // Test 5: Output that stays empty surfaces an error instead of reaching history
+  try {
+    await bringToLife('Empty', undefined, undefined, undefined, undefined, scriptedProvider([{ text: '' }, { text: '' }, { text: 'Sorry!' }]));
+    throw new Error('Empty output was accepted');
+  } catch (e) {
+    if (!(e instanceof InvalidOutputError)) throw e;
+  }
+
+  // Test 6: Element edits splice the model's replacement over that element only
+  const page = '<!DOCTYPE html>\n<html><body><h1>Title</h1>\n<p>One</p><p>Two</p></body></html>';
+  const edited = await refineElement(page, '2', 'Make it bold', undefined, undefined, undefined, scriptedProvider([
+    { text: '<!DOCTYPE html><html><body><p><b>Two</b></p></body></html>', finishReason: 'stop' },
+    { text: 'Here you go:\n```html\n<p><b>Two</b></p>\n```', finishReason: 'stop' },
+  ]));
+  if (edited !== page.replace('<p>Two</p>', '<p><b>Two</b></p>')) throw new Error('Element edit not applied to the element only');
+  try {
+    await refineElement(page, '9', 'Make it bold', undefined, undefined, undefined, scriptedProvider([]));
+    throw new Error('Unknown element accepted');
+  } catch (e) {
+    if (!(e instanceof ElementNotFoundError)) throw e;
+  }
+
+  // Test 7: Large documents are refined with search/replace edits; edits that keep failing fall back to the whole document
+  const items = Array.from({ length: 200 }, (_, i) => `<li>Item ${i}</li>`).join('\n');
+  const large = `<!DOCTYPE html>\n<html><body><ul>\n${items}\n</ul></body></html>`;
+  const renamed = large.replace('<li>Item 3</li>', '<li>Third</li>');
+  const requests: RefineInput[] = [];
+  const limited = (outputs: ModelOutput[], input = 8000): ModelProvider => {
+    const scripted = scriptedProvider(outputs);
+    return { ...scripted, limits: { input, output: 1000 }, refine: (request) => { requests.push(request); return scripted.refine(request); } };
+  };
+  const patched = await refineApp(large, 'Rename item 3', undefined, undefined, undefined, limited([
+    { text: '<<<<<<< SEARCH\n<li>Item 3</li>\n=======\n<li>Third</li>\n>>>>>>> REPLACE', finishReason: 'stop' },
+  ]));
+  if (patched !== renamed || !requests[0].patch) throw new Error('Patch refinement not applied');
+  requests.length = 0;
+  const fallback = await refineApp(large, 'Rename item 3', undefined, undefined, undefined, limited([
+    { text: '<<<<<<< SEARCH\n<li>Item 300</li>\n=======\n<li>Third</li>\n>>>>>>> REPLACE', finishReason: 'stop' },
+    { text: 'Sorry, no edits', finishReason: 'stop' },
+    { text: renamed, finishReason: 'stop' },
+  ]));
+  if (fallback !== renamed || requests.map(r => !!r.patch).join() !== 'true,true,false' || !requests[1].instruction.includes('"<li>Item 300</li>" was not found')) {
+    throw new Error('Failed patch did not fall back to the whole document');
+  }
+
+  // Test 8: Oversized requests drop the attachments first, and fail once nothing is left to drop
+  requests.length = 0;
+  const image = { data: 'AAAA', mimeType: 'image/png' };
+  await refineApp(large, 'Rename item 3', [image], undefined, undefined, limited([{ text: '<<<<<<< SEARCH\n<li>Item 3</li>\n=======\n<li>Third</li>\n>>>>>>> REPLACE', finishReason: 'stop' }], 1200));
+  if (requests[0].files) throw new Error('Attachments kept in an oversized request');
+  try {
+    await refineApp(large, 'Rename item 3', [image], undefined, undefined, limited([], 500));
+    throw new Error('Request over the context window was sent');
+  } catch (e) {
+    if (!(e instanceof ContextLimitError)) throw e;
+  }
 
   console.log('✅ Gemini Service Tests Passed');
 };
@@ -0,0 +1,40 @@
+/**
+ * HTML Output Validation Tests
+ */
+
+import { extractHtml, checkHtml, mergeContinuation } from '../services/htmlOutput';
+
+const DOC = '<!DOCTYPE html>\n<html>\n<head><title>App</title></head>\n<body><div id="app"><p>Hello<br></div></body>\n</html>';
+
+export const runHtmlOutputTests = () => {
+  console.log('Running HTML Output Tests...');
+
+  // Test 1: The document is found behind prose and a fence anywhere in the text
+  const wrapped = `Sure! Here is your app:\n\n\`\`\`html\n${DOC}\n\`\`\`\n\nLet me know if you want changes.`;
+  if (extractHtml(wrapped) !== DOC) throw new Error('Fenced document not extracted');
+  if (extractHtml(`Here you go: ${DOC} Enjoy!`) !== DOC) throw new Error('Unfenced document not extracted');
+  if (extractHtml('I cannot help with that.') !== '') throw new Error('Prose without markup treated as HTML');
+
+  // Test 2: A complete document passes; optional end tags, void elements and self-closing SVG are fine
+  if (checkHtml(DOC, 'stop').problems.length > 0) throw new Error('Valid document rejected');
+  const svg = DOC.replace('<p>Hello<br>', '<svg><path d="M0 0"/></svg><img src="x.png">');
+  if (checkHtml(svg).problems.length > 0) throw new Error('SVG/void elements reported as unclosed');
+
+  // Test 3: Truncation is detected from the markup and from the finish reason
+  const cut = DOC.slice(0, DOC.indexOf('</div>'));
+  if (!checkHtml(cut).truncated) throw new Error('Missing </html> not detected');
+  if (!checkHtml('<html><body><script>let a = "<div>";').problems.includes('unclosed <script>')) throw new Error('Unclosed script not detected');
+  if (!checkHtml(DOC, 'length').truncated) throw new Error('Token limit finish reason ignored');
+
+  // Test 4: Unclosed elements inside a finished document need repair, not continuation
+  const broken = checkHtml(DOC.replace('</div>', ''));
+  if (broken.truncated || !broken.problems.includes('unclosed <div>')) throw new Error('Unclosed element not reported');
+
+  // Test 5: Continuations drop repeated text; a restarted document replaces the partial one
+  if (mergeContinuation('<main><h1>A long enough heading', 'A long enough heading</h1></main>') !== '<main><h1>A long enough heading</h1></main>') {
+    throw new Error('Overlap not removed');
+  }
+  if (mergeContinuation('<html><body>', DOC) !== DOC) throw new Error('Restarted document not used');
+
+  console.log('✅ HTML Output Tests Passed');
+};
@@ -0,0 +1,64 @@
+/**
+ * Patch Tests
+ */
+
+import { parsePatch, applyPatch, applyPatchToFiles, PatchError } from '../services/patch';
+
+const expectPatchError = (run: () => unknown, message: string, expected: string) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PatchError && error.problems.join('; ') === expected) return;
+    throw new Error(`${message}: ${error instanceof PatchError ? error.problems.join('; ') : error}`);
+  }
+  throw new Error(`${message}: no error`);
+};
+
+export const runPatchTests = () => {
+  console.log('Running Patch Tests...');
+
+  const html = '<body>\n  <h1>Title</h1>\n  <p>One</p>\n  <p>Two</p>\n</body>';
+
+  // Test 1: Blocks are parsed around prose and code fences
+  const response = 'Here you go:\n```\n<<<<<<< SEARCH\n  <h1>Title</h1>\n=======\n  <h1>New title</h1>\n>>>>>>> REPLACE\n\n<<<<<<< SEARCH\n  <p>Two</p>\n=======\n>>>>>>> REPLACE\n```';
+  const edits = parsePatch(response);
+  if (edits.length !== 2 || edits[0].replace !== '  <h1>New title</h1>' || edits[1].replace !== '') throw new Error('Patch parsing failed');
+
+  // Test 2: Edits apply in order; deleting leaves the rest intact
+  if (applyPatch(html, edits) !== '<body>\n  <h1>New title</h1>\n  <p>One</p>\n\n</body>') throw new Error('Patch application failed');
+
+  // Test 3: Indentation differences are tolerated when the lines match uniquely
+  const reindented = applyPatch(html, [{ search: '<p>One</p>\n<p>Two</p>', replace: '  <p>Both</p>' }]);
+  if (reindented !== '<body>\n  <h1>Title</h1>\n  <p>Both</p>\n</body>') throw new Error(`Whitespace-tolerant match failed: ${reindented}`);
+
+  // Test 4: Missing and ambiguous matches fail the whole patch
+  expectPatchError(
+    () => applyPatch(html, [{ search: '<p>Three</p>', replace: '' }, { search: '<p>', replace: '<p class="x">' }]),
+    'Bad edits accepted',
+    '"<p>Three</p>" was not found; "<p>" matches more than one place'
+  );
+  expectPatchError(() => parsePatch('No edits here'), 'Empty response accepted', 'no edit blocks in the response');
+  expectPatchError(() => parsePatch('<<<<<<< SEARCH\n<p>'), 'Unclosed block accepted', 'the last edit block is not closed');
+
+  // Test 5: Project edits name their file, and an empty SEARCH creates one
+  const files = [{ path: 'index.html', content: html }, { path: 'app.js', content: 'let n = 1;\nrender(n);' }];
+  const projectEdits = parsePatch('FILE: app.js\n<<<<<<< SEARCH\nlet n = 1;\n=======\nlet n = 2;\n>>>>>>> REPLACE\nFILE: util.js\n<<<<<<< SEARCH\n=======\nexport {};\n>>>>>>> REPLACE');
+  const patched = applyPatchToFiles(files, projectEdits);
+  if (patched[0] !== files[0] || patched[1].content !== 'let n = 2;\nrender(n);' || patched[2]?.path !== 'util.js') throw new Error('Project patch failed');
+  expectPatchError(
+    () => applyPatchToFiles(files, [{ path: 'app.js', search: 'let m', replace: '' }, { search: 'x', replace: 'y' }]),
+    'Bad project edits accepted',
+    'app.js: "let m" was not found; "x" has no FILE line'
+  );
+
+  // Test 6: FILE paths are normalized before lookup, and paths outside the project are rejected
+  const dotted = applyPatchToFiles(files, [{ path: './app.js', search: 'render(n);', replace: 'draw(n);' }]);
+  if (dotted.length !== 2 || dotted[1].content !== 'let n = 1;\ndraw(n);') throw new Error('Normalized path not matched');
+  expectPatchError(
+    () => applyPatchToFiles(files, [{ path: '../x.js', search: '', replace: 'evil' }, { path: 'js/../../app.js', search: 'let n', replace: '' }]),
+    'Unsafe project paths accepted',
+    '../x.js is not a valid project path; js/../../app.js is not a valid project path'
+  );
+
+  console.log('✅ Patch Tests Passed');
+};
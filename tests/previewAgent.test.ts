@@ -0,0 +1,40 @@
+/**
+ * Preview Agent Tests
+ */
+
+import { injectPreviewAgent, injectHeadTag, isAgentMessage, setModeMessage } from '../services/previewAgent';
+import { injectConsoleBridge } from '../services/consoleBridge';
+
+export const runPreviewAgentTests = () => {
+  console.log('Running Preview Agent Tests...');
+
+  const html = '<!DOCTYPE html>\n<html>\n<head>\n<script src="app.js"></script>\n</head>\n<body></body>\n</html>';
+
+  // Test 1: Both injected scripts land ahead of the app's scripts without adding lines
+  const injected = injectPreviewAgent(injectConsoleBridge(html));
+  const appIndex = injected.indexOf('app.js');
+  if (injected.indexOf('data-preview-agent') > appIndex || injected.indexOf('data-preview-bridge') > appIndex) {
+    throw new Error('Injected scripts must run before the app');
+  }
+  if (injected.split('\n').length !== html.split('\n').length) throw new Error('Injection shifted line numbers');
+
+  // Test 2: The agent script is valid JavaScript
+  const script = injected.match(/<script data-preview-agent>([\s\S]*?)<\/script>/)![1];
+  try {
+    new Function(script);
+  } catch (e) {
+    throw new Error(`Agent script does not parse: ${e}`);
+  }
+
+  // Test 3: Documents without <head> still get the script first
+  if (!injectHeadTag('<html><body></body></html>', '<script></script>').startsWith('<html><script></script>')) {
+    throw new Error('Script not inserted after <html>');
+  }
+
+  // Test 4: Protocol messages are tagged by side
+  if (!isAgentMessage({ source: 'preview-agent', type: 'ready' }) || isAgentMessage(setModeMessage('inspect'))) {
+    throw new Error('Agent message guard invalid');
+  }
+
+  console.log('✅ Preview Agent Tests Passed');
+};
@@ -0,0 +1,30 @@
+/**
+ * Preview CSP Tests
+ */
+
+import { buildPreviewCsp, injectCsp, isValidSource, DEFAULT_PREVIEW_ALLOWLIST } from '../services/previewCsp';
+import { injectConsoleBridge } from '../services/consoleBridge';
+
+export const runPreviewCspTests = () => {
+  console.log('Running Preview CSP Tests...');
+
+  // Test 1: The default policy blocks network access and allows Tailwind
+  const csp = buildPreviewCsp(DEFAULT_PREVIEW_ALLOWLIST);
+  if (!csp.includes("default-src 'none'") || !csp.includes("connect-src 'none'")) throw new Error('Policy is not strict');
+  if (!csp.includes("script-src 'unsafe-inline' https://cdn.tailwindcss.com")) throw new Error('Allowlisted CDN missing from script-src');
+
+  // Test 2: Entries that could inject directives are dropped
+  if (isValidSource("https://evil.com; script-src *") || isValidSource("'unsafe-eval'") || isValidSource('*')) {
+    throw new Error('Unsafe source accepted');
+  }
+  if (!isValidSource('https://*.jsdelivr.net') || !isValidSource('*.jsdelivr.net')) throw new Error('Wildcard host rejected');
+  const filtered = buildPreviewCsp(['cdn.jsdelivr.net', "x; connect-src *", '']);
+  if (filtered.includes('connect-src *') || !filtered.includes('cdn.jsdelivr.net')) throw new Error('Allowlist not filtered');
+
+  // Test 3: The policy precedes every script, including the injected bridge
+  const html = injectCsp(injectConsoleBridge('<html><head><script src="https://cdn.tailwindcss.com"></script></head></html>'), csp);
+  if (!html.startsWith('<html><head><meta http-equiv="Content-Security-Policy"')) throw new Error('CSP meta not first in <head>');
+  if (!html.includes("content=\"default-src 'none';")) throw new Error('CSP attribute mangled');
+
+  console.log('✅ Preview CSP Tests Passed');
+};
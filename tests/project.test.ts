@@ -0,0 +1,59 @@
+/**
+ * Multi-file Project Tests
+ */
+
+import { parseProjectOutput, assembleProject, buildFileTree, ProjectParseError } from '../services/project';
+import { crc32, createZipBytes } from '../services/zip';
+import { fixtureProvider } from '../services/providers/fixture';
+import { buildViteProject, packageName, REACT_ENTRY } from '../services/viteProject';
+
+export const runProjectTests = async () => {
+  console.log('Running Multi-file Project Tests...');
+
+  // Test 1: Fenced JSON is parsed and paths are normalized; a project needs an index.html
+  const files = parseProjectOutput('```json\n{"files":[{"path":"./index.html","content":"<html><head><link rel=\\"stylesheet\\" href=\\"css/app.css\\"></head><body><script src=\\"/app.js\\"></script></body></html>"},{"path":"css/app.css","content":"p{color:red}"},{"path":"app.js","content":"if (a</script>b) {}"}]}\n```');
+  if (files.map(f => f.path).join() !== 'index.html,css/app.css,app.js') throw new Error('Project paths not normalized');
+  let rejected = false;
+  try { parseProjectOutput('{"files":[{"path":"app.js","content":""}]}'); } catch (e) { rejected = e instanceof ProjectParseError; }
+  if (!rejected) throw new Error('Project without index.html accepted');
+
+  // Test 2: Paths that could escape the project root when extracted are dropped
+  const unsafe = ['../../.bashrc', 'js/../../x.js', 'C:/Windows/x.js', 'css//a.css', './', 'a/./b.js', 'js\\..\\evil.js'];
+  const safe = parseProjectOutput(JSON.stringify({ files: [{ path: 'index.html', content: '' }, ...unsafe.map(path => ({ path, content: '' }))] }));
+  if (safe.map(f => f.path).join() !== 'index.html') throw new Error(`Unsafe project paths accepted: ${safe.map(f => f.path).join()}`);
+
+  // Test 3: Referenced stylesheets and scripts are inlined in place, with "</script" escaped
+  const html = assembleProject(files);
+  if (html.includes('href="css/app.css"') || !html.includes('<style data-file="css/app.css">\np{color:red}')) throw new Error('Stylesheet not inlined');
+  if (html.includes('src="/app.js"') || !html.includes('a<\\/script>b')) throw new Error('Script not inlined safely');
+
+  // Test 4: Unreferenced CSS is still applied
+  const extra = assembleProject([{ path: 'index.html', content: '<html><head></head><body></body></html>' }, { path: 'extra.css', content: 'body{}' }]);
+  if (!extra.includes('<style data-file="extra.css">\nbody{}\n</style>\n</head>')) throw new Error('Unreferenced stylesheet dropped');
+
+  // Test 5: File tree lists directories before files
+  const tree = buildFileTree(files);
+  if (tree[0].name !== 'css' || tree[0].children?.[0].path !== 'css/app.css' || tree.length !== 3) throw new Error('File tree invalid');
+
+  // Test 6: ZIP checksums and layout
+  if (crc32(new TextEncoder().encode('123456789')) !== 0xCBF43926) throw new Error('CRC-32 mismatch');
+  const zip = createZipBytes([{ path: 'index.html', content: '<p></p>' }]);
+  const view = new DataView(zip.buffer);
+  if (view.getUint32(0, true) !== 0x04034B50 || view.getUint32(zip.length - 22, true) !== 0x06054B50) throw new Error('ZIP structure invalid');
+
+  // Test 7: The fixture's project output round-trips through the parser
+  const project = parseProjectOutput((await fixtureProvider.generate({ prompt: 'Counter', format: 'project' })).text);
+  if (project.length !== 3 || !assembleProject(project).includes("getElementById('counter')")) throw new Error('Fixture project invalid');
+
+  // Test 8: Vite export keeps the scaffold's wiring and only accepts converted sources under src/
+  const converted = parseProjectOutput((await fixtureProvider.convert({ html: '<title>Counter</title>' })).text, REACT_ENTRY);
+  const vite = buildViteProject('My App!', [...converted, { path: 'src/main.jsx', content: 'hijack' }, { path: 'package.json', content: '{}' },
+    { path: 'src/../../vite.config.js', content: 'hijack' }, { path: './src/../index.html', content: 'hijack' }]);
+  const paths = vite.map(f => f.path);
+  if (!paths.includes('src/App.jsx') || !paths.includes('tailwind.config.js') || !paths.includes('vite.config.js')) throw new Error('Vite project incomplete');
+  if (vite.find(f => f.path === 'src/main.jsx')!.content === 'hijack') throw new Error('Entry wiring was overwritten');
+  if (JSON.parse(vite.find(f => f.path === 'package.json')!.content).name !== packageName('My App!')) throw new Error('package.json was overwritten');
+  if (vite.some(f => f.content === 'hijack' || f.path.includes('..'))) throw new Error('Converted file escaped src/');
+
+  console.log('✅ Multi-file Project Tests Passed');
+};
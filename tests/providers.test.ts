@@ -0,0 +1,55 @@
+/**
+ * Model Provider Tests
+ */
+
+import { fixtureProvider, fixtureHtml } from '../services/providers/fixture';
+import { buildGeneratePrompt, refineSystemInstructionFor, SYSTEM_INSTRUCTION, PROJECT_SYSTEM_INSTRUCTION } from '../services/prompts';
+import { createProvider, modelOptionsOf } from '../services/providers';
+import { DEFAULT_SETTINGS, generationSettingsOf } from '../services/settings';
+
+export const runProviderTests = async () => {
+  console.log('Running Model Provider Tests...');
+
+  const input = { prompt: 'Todo list', stylePreset: 'Brutalist' };
+
+  // Test 1: Fixture output is deterministic
+  const first = await fixtureProvider.generate(input);
+  const second = await fixtureProvider.generate(input);
+  if (first.text !== second.text || first.finishReason !== 'stop') throw new Error('Fixture generate is not deterministic');
+
+  // Test 2: Streamed chunks reassemble into the generated document
+  let streamed = '';
+  for await (const chunk of fixtureProvider.stream(input)) streamed += chunk.text;
+  if (streamed !== fixtureHtml(input)) throw new Error('Fixture stream does not match generate output');
+
+  // Test 3: Refine keeps the document and records the instruction
+  const { text: refined } = await fixtureProvider.refine({ currentHtml: first.text, instruction: 'Make it blue' });
+  if (!refined.startsWith('<!DOCTYPE html>') || !refined.includes('<!-- refined: Make it blue -->')) {
+    throw new Error('Fixture refine output invalid');
+  }
+
+  // Test 4: Several files switch the prompt to a multi-screen app
+  const files = [{ data: 'AAAA', mimeType: 'image/png' }, { data: 'BBBB', mimeType: 'application/pdf' }];
+  if (!buildGeneratePrompt({ prompt: '', files }).includes('2 images/documents')) throw new Error('Multi-file prompt missing');
+  if (!fixtureHtml({ prompt: '', files }).includes('image/png, application/pdf')) throw new Error('Fixture ignored attachments');
+
+  // Test 5: Settings become provider options; unset values are left to the defaults and stamped as used
+  const defaults = createProvider(DEFAULT_SETTINGS);
+  if (defaults.options.maxOutputTokens !== undefined || defaults.options.thinkingBudget !== undefined || defaults.options.systemInstruction !== undefined) {
+    throw new Error('Unset settings reached the provider');
+  }
+  const tuned = createProvider({
+    ...DEFAULT_SETTINGS, geminiModel: 'gemini-2.5-flash', temperature: 1, maxOutputTokens: 4096,
+    thinkingBudget: 0, systemInstruction: 'Build it in green. ', refineSystemInstruction: 'Edit carefully.',
+  });
+  if (tuned.model !== 'gemini-2.5-flash' || tuned.limits.output !== 4096 || tuned.options.thinkingBudget !== 0) throw new Error('Settings not applied to the provider');
+  const stamped = generationSettingsOf(tuned, 'html');
+  if (stamped.temperature !== 1 || stamped.maxOutputTokens !== 4096 || stamped.systemInstruction !== 'Build it in green.') throw new Error('Effective settings not recorded');
+  if (generationSettingsOf(tuned, 'project').systemInstruction !== PROJECT_SYSTEM_INSTRUCTION) throw new Error('Project instruction overridden');
+  if (generationSettingsOf(fixtureProvider, 'html').systemInstruction !== SYSTEM_INSTRUCTION) throw new Error('Built-in instruction not recorded');
+  const refineOptions = modelOptionsOf({ ...DEFAULT_SETTINGS, refineSystemInstruction: 'Edit carefully.' });
+  const projectInstruction = refineSystemInstructionFor({ currentHtml: '', instruction: '', projectFiles: [] }, refineOptions.refineSystemInstruction);
+  if (!projectInstruction.startsWith('Edit carefully.\n') || !projectInstruction.includes('Return ONLY JSON')) throw new Error('Refine override lost the project format');
+
+  console.log('✅ Model Provider Tests Passed');
+};
@@ -0,0 +1,41 @@
+/**
+ * Revision Log Tests
+ */
+
+import { createRevision, appendRevision, checkoutRevision, getUndoTarget, getRedoTarget, normalizeCreation, forkCreation } from '../services/revisions';
+
+export const runRevisionTests = () => {
+  console.log('Running Revision Log Tests...');
+
+  // Test 1: Legacy creations get an initial revision
+  let creation = normalizeCreation({ id: 'c1', name: 'Legacy', html: '<p>v1</p>', timestamp: '2024-05-20T00:00:00Z' });
+  if (creation.revisions?.length !== 1 || creation.html !== '<p>v1</p>') throw new Error('Legacy normalization failed');
+  const v1 = creation.revisionId!;
+
+  // Test 2: Undo returns to the parent, redo to the newest child
+  const v2 = createRevision('<p>v2</p>', { instruction: 'second', parentId: v1 });
+  creation = appendRevision(creation, v2);
+  if (getUndoTarget(creation)?.id !== v1) throw new Error('Undo target should be the parent revision');
+
+  creation = checkoutRevision(creation, v1);
+  const v3 = createRevision('<p>v3</p>', { instruction: 'branch', parentId: v1 });
+  creation = appendRevision(creation, v3);
+  creation = checkoutRevision(creation, v1);
+  if (getRedoTarget(creation)?.id !== v3.id) throw new Error('Redo target should be the newest child');
+
+  // Test 3: Nothing is discarded when branching from an older revision
+  if (creation.revisions?.length !== 3 || creation.html !== '<p>v1</p>') throw new Error('Revisions were lost');
+
+  // Test 4: Forking a revision starts an independent creation that records its lineage
+  const fork = forkCreation(creation, v2.id);
+  if (fork.id === creation.id || fork.parentId !== 'c1' || fork.parentRevisionId !== v2.id) throw new Error('Fork lineage missing');
+  if (fork.html !== '<p>v2</p>' || fork.revisions?.length !== 1) throw new Error('Fork should start from the chosen revision');
+
+  // Test 5: A legacy single source image becomes the first attachment
+  const withSource = normalizeCreation({ id: 'c2', name: 'Sketch', html: '<p></p>', timestamp: 0, originalImage: 'data:image/png;base64,AAAA' });
+  if (withSource.attachments?.length !== 1 || withSource.attachments[0].mimeType !== 'image/png' || 'originalImage' in withSource) {
+    throw new Error('Legacy source image was not migrated to attachments');
+  }
+
+  console.log('✅ Revision Log Tests Passed');
+};
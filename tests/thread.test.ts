@@ -0,0 +1,59 @@
+/**
+ * Refinement Thread Tests
+ */
+
+import { createTurn, appendTurn, summarizeChange, buildRefineContext } from '../services/thread';
+import { createRevision, appendRevision, checkoutRevision, normalizeCreation, forkCreation } from '../services/revisions';
+import { buildRefinePrompt } from '../services/prompts';
+
+export const runThreadTests = () => {
+  console.log('Running Refinement Thread Tests...');
+
+  let creation = normalizeCreation({ id: 't1', name: 'Thread', html: '<p>v1</p>', timestamp: '2024-05-20T00:00:00Z' });
+  const v1 = creation.revisionId!;
+
+  // Test 1: Nothing to send for a fresh creation
+  if (buildRefineContext(creation) !== undefined) throw new Error('Empty thread should give no context');
+
+  // Test 2: Applied, rejected and undone requests; only the latest are quoted, shortened
+  const v2 = createRevision('<p>v2</p>\n<p>more</p>', { instruction: 'Second', parentId: v1 });
+  creation = appendTurn(appendRevision(creation, v2), createTurn(['Second', 'Fix 1 runtime error'], 'applied', {
+    summary: summarizeChange(creation, v2),
+    revisionId: v2.id,
+  }));
+  creation = appendTurn(creation, createTurn(['Make it red'], 'rejected'));
+  creation = { ...creation, constraints: ['Keep it dark'] };
+  let context = buildRefineContext(creation)!;
+  if (creation.thread![0].summary !== '+2 −1 lines') throw new Error(`Summary wrong: ${creation.thread![0].summary}`);
+  if (context.earlierRequests.map(r => r.outcome).join(' ') !== 'applied applied rejected') throw new Error('Outcomes wrong');
+
+  creation = checkoutRevision(creation, v1);
+  if (buildRefineContext(creation)!.earlierRequests[0].outcome !== 'undone') throw new Error('Undone request not detected');
+
+  for (let i = 0; i < 10; i++) creation = appendTurn(creation, createTurn([`Change ${i} ${'x'.repeat(300)}`], 'rejected'));
+  context = buildRefineContext(creation)!;
+  if (context.earlierRequests.length !== 8 || context.omitted !== 5) throw new Error('Context not condensed');
+  if (context.earlierRequests[7].text.length !== 200 || !context.earlierRequests[7].text.startsWith('Change 9')) throw new Error('Request not shortened');
+
+  // Test 3: The prompt carries constraints and earlier requests before the instruction
+  const prompt = buildRefinePrompt({ currentHtml: '<p>v1</p>', instruction: 'Add a footer', context });
+  if (!prompt.startsWith('PINNED CONSTRAINTS') || !prompt.includes('- Keep it dark') || !prompt.includes('(5 older requests not shown)')) {
+    throw new Error('Context missing from prompt');
+  }
+  if (!prompt.includes('(rejected by the user; not in the code)') || prompt.indexOf('Add a footer') < prompt.indexOf('EARLIER REQUESTS')) {
+    throw new Error('Earlier requests misplaced');
+  }
+
+  // Test 4: Stored threads are revived; forks keep the constraints but start a new thread
+  const revived = normalizeCreation(JSON.parse(JSON.stringify(creation)));
+  if (!(revived.thread![0].timestamp instanceof Date) || revived.thread!.length !== creation.thread!.length) throw new Error('Thread not revived');
+  const fork = forkCreation(creation);
+  if (fork.thread || fork.constraints?.[0] !== 'Keep it dark') throw new Error('Fork should keep only the constraints');
+
+  // Test 5: Project changes are summarized by file
+  const files = [{ path: 'index.html', content: '<p>a</p>' }, { path: 'app.js', content: 'go()' }, { path: 'old.css', content: '' }];
+  const changed = [{ path: 'index.html', content: '<p>a</p>' }, { path: 'app.js', content: 'go(1)' }];
+  if (summarizeChange({ html: '', files }, { html: '', files: changed }) !== 'Changed app.js; Removed old.css') throw new Error('Project summary wrong');
+
+  console.log('✅ Refinement Thread Tests Passed');
+};
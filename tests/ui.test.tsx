@@ -13,5 +13,8 @@ export const runUITests = () => {
   // 2. Verify File Reader Support
   if (!window.FileReader) throw new Error('Browser lacks FileReader support');
 
+  // 3. Verify IndexedDB Support (creation store)
+  if (!window.indexedDB) throw new Error('Browser lacks IndexedDB support');
+
   console.log('✅ UI Flow Tests Passed');
 };
@@ -0,0 +1,63 @@
+/**
+ * Usage Tests
+ */
+
+import { meterProvider, addUsage, estimateCost, sumUsage, dailyTotals, totalsByModel, monthToDate, UsageRecord } from '../services/usage';
+import { bringToLifeStream, refineApp } from '../services/gemini';
+import { withRetry } from '../services/retry';
+import { ModelProvider } from '../services/providers';
+import { fixtureProvider } from '../services/providers/fixture';
+
+export const runUsageTests = async () => {
+  console.log('Running Usage Tests...');
+
+  // Test 1: Metered providers add up tokens and calls, taking stream usage from its last report
+  const meter = meterProvider(fixtureProvider);
+  let html = '';
+  for await (const partial of bringToLifeStream('Counter', undefined, undefined, undefined, undefined, meter.provider)) html = partial;
+  await refineApp(html, 'Make it blue', undefined, undefined, undefined, meter.provider);
+  const usage = meter.usage();
+  if (usage.calls !== 2 || usage.retries !== 0 || usage.model !== 'fixture-v1') throw new Error('Calls not counted');
+  if (usage.outputTokens !== Math.ceil(html.length / 4) + Math.ceil((html.length + 30) / 4)) throw new Error(`Output tokens wrong: ${usage.outputTokens}`);
+
+  // Test 2: Failed attempts retried by withRetry are counted
+  let failures = 1;
+  const flaky: ModelProvider = {
+    ...fixtureProvider,
+    generate: async (input) => {
+      if (failures-- > 0) throw Object.assign(new Error('Unavailable'), { status: 503 });
+      return fixtureProvider.generate(input);
+    },
+  };
+  const flakyMeter = meterProvider(flaky);
+  await withRetry(() => flakyMeter.provider.generate({ prompt: 'Retry' }), undefined, 3, 1);
+  const retried = flakyMeter.usage();
+  if (retried.calls !== 2 || retried.retries !== 1 || retried.outputTokens === 0) throw new Error('Retry not counted');
+  if (addUsage(retried, retried).calls !== 4) throw new Error('Usage not added');
+
+  // Test 3: Costs come from the price table; unknown models are left unpriced
+  if (estimateCost({ model: 'gemini-3-pro-preview', inputTokens: 500_000, outputTokens: 100_000 }) !== 2.2) throw new Error('Cost wrong');
+  if (estimateCost({ model: 'llama3.2-vision', inputTokens: 1000, outputTokens: 1000 }) !== undefined) throw new Error('Unknown model priced');
+
+  // Test 4: Daily, per-model and month-to-date totals
+  const now = new Date(2025, 2, 2, 12);
+  const record = (model: string, timestamp: Date, inputTokens: number, outputTokens: number): UsageRecord => ({
+    id: `${model}${timestamp.getTime()}`, kind: 'generate', timestamp, provider: 'gemini', model,
+    inputTokens, outputTokens, calls: 1, retries: 0, latencyMs: 100,
+  });
+  const records = [
+    record('gemini-3-pro-preview', new Date(2025, 2, 2, 9), 1_000_000, 0),
+    record('gemini-2.5-flash', new Date(2025, 2, 1, 23), 0, 1_000_000),
+    record('llama3.2-vision', new Date(2025, 1, 28, 8), 5000, 5000),
+  ];
+  const days = dailyTotals(records, 3, now);
+  if (days.map(d => `${d.day}:${d.calls}`).join(' ') !== '2025-03-02:1 2025-03-01:1 2025-02-28:1') throw new Error('Daily totals wrong');
+  const models = totalsByModel(records);
+  if (models.map(m => m.model).join() !== 'gemini-2.5-flash,gemini-3-pro-preview,llama3.2-vision' || models[2].unpriced !== 1) {
+    throw new Error('Model totals wrong');
+  }
+  const month = monthToDate(records, now);
+  if (month.calls !== 2 || month.cost !== 4.5 || sumUsage(records).unpriced !== 1) throw new Error('Month-to-date wrong');
+
+  console.log('✅ Usage Tests Passed');
+};